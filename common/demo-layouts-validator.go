@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\common\demo-layouts-validator.go
-// Generated at: 2025-10-20T05:34:48.502Z
\ No newline at end of file
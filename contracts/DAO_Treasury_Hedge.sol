@@ -1,20 +1,33 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint128, ebool, externalEuint128 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 
 contract DAO_Treasury_Hedge_FHE is SepoliaConfig {
-    using FHE for euint32;
+    using FHE for euint128;
     using FHE for ebool;
 
     address public owner;
+    address public governance; // Runs decryption requests and ownership changes and may decrypt stored amounts, e.g. a DAO timelock
     mapping(address => bool) public isProvider;
     bool public paused;
     uint256 public cooldownSeconds;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
 
+    uint256 public constant MAX_HEDGE_RATIO_BPS = 10_000;
+    // Hedge checks multiply per-asset totals by up to MAX_HEDGE_RATIO_BPS inside euint128, so the check is only exact
+    // for totals up to this. Ciphertexts cannot be range-checked here; clients refuse to encrypt anything larger.
+    uint128 public constant MAX_SUBMITTED_AMOUNT = type(uint128).max / uint128(MAX_HEDGE_RATIO_BPS);
+    uint256 public targetHedgeRatioBps;
+
+    // Per-asset hedge targets; assets without one fall back to targetHedgeRatioBps
+    mapping(address => uint256) public assetTargetHedgeRatioBps;
+    mapping(address => bool) public hasAssetTarget;
+    address[] private targetAssets; // every asset that has had a target, in first-set order
+    mapping(address => bool) private isTargetAsset;
+
     uint256 public currentBatchId;
     mapping(uint256 => bool) public isBatchClosed;
 
@@ -25,32 +38,48 @@ contract DAO_Treasury_Hedge_FHE is SepoliaConfig {
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
-    // Encrypted state
-    mapping(uint256 => mapping(address => euint32)) public encryptedAssetAmounts; // batchId => assetAddress => amount
-    mapping(uint256 => mapping(address => euint32)) public encryptedHedgeAmounts; // batchId => assetAddress => amount
+    // Encrypted state. The per-asset amounts are batch totals: the sum, kept with FHE add, of every provider's latest
+    // submission for that asset. Amounts of different tokens are in different base units, so they are never summed.
+    mapping(uint256 => mapping(address => euint128)) public encryptedAssetAmounts; // batchId => assetAddress => total in token base units
+    mapping(uint256 => mapping(address => euint128)) public encryptedHedgeAmounts; // batchId => assetAddress => total in token base units
+    mapping(uint256 => mapping(address => mapping(address => euint128))) public providerAssetAmounts; // batchId => assetAddress => provider => amount
+    mapping(uint256 => mapping(address => mapping(address => euint128))) public providerHedgeAmounts; // batchId => assetAddress => provider => amount
+
+    // Asset registry, in first-submission order
+    mapping(uint256 => address[]) private batchAssets; // batchId => asset addresses
+    mapping(uint256 => mapping(address => bool)) public isBatchAsset; // batchId => assetAddress => registered
+
+    // Encrypted hedge checks of the per-asset totals, computed when a batch is closed
+    mapping(uint256 => mapping(address => ebool)) public encryptedUnderHedged; // batchId => assetAddress => hedge below target
 
     // Custom Errors
     error NotOwner();
+    error NotGovernance();
     error NotProvider();
     error Paused();
     error CooldownActive();
-    error BatchClosed();
+    error BatchAlreadyClosed();
     error InvalidBatch();
     error ReplayAttempt();
     error StateMismatch();
-    error InvalidDecryptionProof();
     error NotInitialized();
+    error InvalidHedgeRatio();
 
     // Events
     event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event GovernanceTransferred(address indexed previousGovernance, address indexed newGovernance);
     event ProviderAdded(address indexed provider);
     event ProviderRemoved(address indexed provider);
     event PauseToggled(bool paused);
     event CooldownSecondsChanged(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
+    event TargetHedgeRatioChanged(uint256 oldRatioBps, uint256 newRatioBps);
+    event AssetTargetHedgeRatioChanged(address indexed asset, uint256 oldRatioBps, uint256 newRatioBps);
+    event AssetTargetHedgeRatioCleared(address indexed asset);
     event BatchOpened(uint256 indexed batchId);
     event BatchClosed(uint256 indexed batchId);
-    event AssetSubmitted(uint256 indexed batchId, address indexed provider, address indexed asset, euint32 amount);
-    event HedgeSubmitted(uint256 indexed batchId, address indexed provider, address indexed asset, euint32 amount);
+    event AssetSubmitted(uint256 indexed batchId, address indexed provider, address indexed asset, euint128 amount);
+    event HedgeSubmitted(uint256 indexed batchId, address indexed provider, address indexed asset, euint128 amount);
+    event HedgeChecksComputed(uint256 indexed batchId);
     event DecryptionRequested(uint256 indexed requestId, uint256 indexed batchId, bytes32 stateHash);
     event DecryptionCompleted(uint256 indexed requestId, uint256 indexed batchId, uint256[] assetAmounts, uint256[] hedgeAmounts);
 
@@ -59,6 +88,11 @@ contract DAO_Treasury_Hedge_FHE is SepoliaConfig {
         _;
     }
 
+    modifier onlyGovernance() {
+        if (msg.sender != governance) revert NotGovernance();
+        _;
+    }
+
     modifier onlyProvider() {
         if (!isProvider[msg.sender]) revert NotProvider();
         _;
@@ -88,17 +122,28 @@ contract DAO_Treasury_Hedge_FHE is SepoliaConfig {
     constructor() {
         owner = msg.sender;
         emit OwnershipTransferred(address(0), msg.sender);
+        governance = msg.sender;
+        emit GovernanceTransferred(address(0), msg.sender);
         currentBatchId = 1; // Start with batch 1
         emit BatchOpened(currentBatchId);
         cooldownSeconds = 60; // Default 60 seconds cooldown
+        targetHedgeRatioBps = 5_000; // Default 50% hedge target
     }
 
-    function transferOwnership(address newOwner) external onlyOwner {
+    function transferOwnership(address newOwner) external onlyGovernance {
         address previousOwner = owner;
         owner = newOwner;
         emit OwnershipTransferred(previousOwner, newOwner);
     }
 
+    // ACL grants are made as values are stored: the previous governance keeps access to what it was granted, and
+    // the new one reaches earlier batches through requestBatchDecryption
+    function setGovernance(address newGovernance) external onlyGovernance {
+        address previousGovernance = governance;
+        governance = newGovernance;
+        emit GovernanceTransferred(previousGovernance, newGovernance);
+    }
+
     function addProvider(address provider) external onlyOwner {
         isProvider[provider] = true;
         emit ProviderAdded(provider);
@@ -120,58 +165,97 @@ contract DAO_Treasury_Hedge_FHE is SepoliaConfig {
         emit CooldownSecondsChanged(oldCooldown, _cooldownSeconds);
     }
 
+    function setTargetHedgeRatioBps(uint256 _targetHedgeRatioBps) external onlyOwner {
+        if (_targetHedgeRatioBps > MAX_HEDGE_RATIO_BPS) revert InvalidHedgeRatio();
+        uint256 oldRatio = targetHedgeRatioBps;
+        targetHedgeRatioBps = _targetHedgeRatioBps;
+        emit TargetHedgeRatioChanged(oldRatio, _targetHedgeRatioBps);
+    }
+
+    function setAssetTargetHedgeRatioBps(address asset, uint256 ratioBps) external onlyOwner {
+        if (ratioBps > MAX_HEDGE_RATIO_BPS) revert InvalidHedgeRatio();
+        uint256 oldRatio = targetHedgeRatioFor(asset);
+        assetTargetHedgeRatioBps[asset] = ratioBps;
+        hasAssetTarget[asset] = true;
+        if (!isTargetAsset[asset]) {
+            isTargetAsset[asset] = true;
+            targetAssets.push(asset);
+        }
+        emit AssetTargetHedgeRatioChanged(asset, oldRatio, ratioBps);
+    }
+
+    function clearAssetTargetHedgeRatio(address asset) external onlyOwner {
+        delete assetTargetHedgeRatioBps[asset];
+        hasAssetTarget[asset] = false;
+        emit AssetTargetHedgeRatioCleared(asset);
+    }
+
+    function targetHedgeRatioFor(address asset) public view returns (uint256) {
+        return hasAssetTarget[asset] ? assetTargetHedgeRatioBps[asset] : targetHedgeRatioBps;
+    }
+
+    function getTargetAssets() external view returns (address[] memory) {
+        return targetAssets;
+    }
+
     function openNewBatch() external onlyOwner whenNotPaused {
         currentBatchId++;
         emit BatchOpened(currentBatchId);
     }
 
     function closeCurrentBatch() external onlyOwner whenNotPaused {
+        if (isBatchClosed[currentBatchId]) revert BatchAlreadyClosed(); // Closing twice would recompute the hedge checks
         isBatchClosed[currentBatchId] = true;
         emit BatchClosed(currentBatchId);
+        _computeHedgeChecks(currentBatchId);
     }
 
     function submitEncryptedAssetAmount(
         uint256 batchId,
         address asset,
-        euint32 amount
+        externalEuint128 encryptedAmount,
+        bytes calldata inputProof
     ) external onlyProvider whenNotPaused submissionCooldown(msg.sender) {
         if (batchId != currentBatchId) revert InvalidBatch();
-        if (isBatchClosed[batchId]) revert BatchClosed();
-
-        _initIfNeeded(amount);
-        encryptedAssetAmounts[batchId][asset] = amount;
+        if (isBatchClosed[batchId]) revert BatchAlreadyClosed();
+
+        euint128 amount = _verifySubmission(encryptedAmount, inputProof);
+        _registerAsset(batchId, asset);
+        encryptedAssetAmounts[batchId][asset] = _replaceInTotal(
+            encryptedAssetAmounts[batchId][asset],
+            providerAssetAmounts[batchId][asset][msg.sender],
+            amount
+        );
+        providerAssetAmounts[batchId][asset][msg.sender] = amount;
         emit AssetSubmitted(batchId, msg.sender, asset, amount);
     }
 
     function submitEncryptedHedgeAmount(
         uint256 batchId,
         address asset,
-        euint32 amount
+        externalEuint128 encryptedAmount,
+        bytes calldata inputProof
     ) external onlyProvider whenNotPaused submissionCooldown(msg.sender) {
         if (batchId != currentBatchId) revert InvalidBatch();
-        if (isBatchClosed[batchId]) revert BatchClosed();
-
-        _initIfNeeded(amount);
-        encryptedHedgeAmounts[batchId][asset] = amount;
+        if (isBatchClosed[batchId]) revert BatchAlreadyClosed();
+
+        euint128 amount = _verifySubmission(encryptedAmount, inputProof);
+        _registerAsset(batchId, asset);
+        encryptedHedgeAmounts[batchId][asset] = _replaceInTotal(
+            encryptedHedgeAmounts[batchId][asset],
+            providerHedgeAmounts[batchId][asset][msg.sender],
+            amount
+        );
+        providerHedgeAmounts[batchId][asset][msg.sender] = amount;
         emit HedgeSubmitted(batchId, msg.sender, asset, amount);
     }
 
-    function requestBatchDecryption(uint256 batchId) external onlyOwner whenNotPaused decryptionCooldown(msg.sender) {
+    // Not subject to the owner's pause: governance decides what is revealed, and the owner cannot hold it back
+    function requestBatchDecryption(uint256 batchId) external onlyGovernance decryptionCooldown(msg.sender) {
         if (!isBatchClosed[batchId]) revert InvalidBatch(); // Only closed batches can be decrypted
 
-        // 1. Prepare Ciphertexts
-        // For simplicity, this example assumes a fixed list of assets.
-        // In a real scenario, you'd iterate over known assets or use a more dynamic approach.
-        address[] memory assets = new address[](2);
-        assets[0] = 0x1111111111111111111111111111111111111111; // Example Asset 1
-        assets[1] = 0x2222222222222222222222222222222222222222; // Example Asset 2
-
-        bytes32[] memory cts = new bytes32[](assets.length * 2); // 2 ciphertexts per asset (amount + hedge)
-        uint256 ctsIdx = 0;
-        for (uint256 i = 0; i < assets.length; i++) {
-            cts[ctsIdx++] = FHE.toBytes32(encryptedAssetAmounts[batchId][assets[i]]);
-            cts[ctsIdx++] = FHE.toBytes32(encryptedHedgeAmounts[batchId][assets[i]]);
-        }
+        // 1. Prepare Ciphertexts for every asset registered in the batch
+        bytes32[] memory cts = _batchCiphertexts(batchId);
 
         // 2. Compute State Hash
         bytes32 stateHash = _hashCiphertexts(cts);
@@ -186,9 +270,9 @@ contract DAO_Treasury_Hedge_FHE is SepoliaConfig {
 
     function myCallback(
         uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
-    ) public {
+        bytes calldata cleartexts,
+        bytes calldata proof
+    ) external {
         DecryptionContext memory context = decryptionContexts[requestId];
 
         // a. Replay Guard
@@ -196,28 +280,17 @@ contract DAO_Treasury_Hedge_FHE is SepoliaConfig {
 
         // b. State Verification
         // Rebuild cts array in the exact same order as in requestBatchDecryption
-        address[] memory assets = new address[](2);
-        assets[0] = 0x1111111111111111111111111111111111111111; // Example Asset 1
-        assets[1] = 0x2222222222222222222222222222222222222222; // Example Asset 2
-
-        bytes32[] memory cts = new bytes32[](assets.length * 2);
-        uint256 ctsIdx = 0;
-        for (uint256 i = 0; i < assets.length; i++) {
-            cts[ctsIdx++] = FHE.toBytes32(encryptedAssetAmounts[context.batchId][assets[i]]);
-            cts[ctsIdx++] = FHE.toBytes32(encryptedHedgeAmounts[context.batchId][assets[i]]);
-        }
+        bytes32[] memory cts = _batchCiphertexts(context.batchId);
         bytes32 currentHash = _hashCiphertexts(cts);
         if (currentHash != context.stateHash) {
             revert StateMismatch();
         }
 
-        // c. Proof Verification
-        if (!FHE.checkSignatures(requestId, cleartexts, proof)) {
-            revert InvalidDecryptionProof();
-        }
+        // c. Proof Verification (reverts on invalid KMS signatures)
+        FHE.checkSignatures(requestId, cleartexts, proof);
 
         // d. Decode & Finalize
-        uint256 numAssets = assets.length;
+        uint256 numAssets = batchAssets[context.batchId].length;
         uint256[] memory assetAmounts = new uint256[](numAssets);
         uint256[] memory hedgeAmounts = new uint256[](numAssets);
 
@@ -233,17 +306,108 @@ contract DAO_Treasury_Hedge_FHE is SepoliaConfig {
         emit DecryptionCompleted(requestId, context.batchId, assetAmounts, hedgeAmounts);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    function getBatchAssets(uint256 batchId) external view returns (address[] memory) {
+        return batchAssets[batchId];
+    }
+
+    // Per-asset totals and hedge checks, in registry order. The flags are only set once the batch is closed.
+    function getBatchAggregates(uint256 batchId)
+        external
+        view
+        returns (address[] memory assets, euint128[] memory assetTotals, euint128[] memory hedgeTotals, ebool[] memory underHedged)
+    {
+        assets = batchAssets[batchId];
+        assetTotals = new euint128[](assets.length);
+        hedgeTotals = new euint128[](assets.length);
+        underHedged = new ebool[](assets.length);
+        for (uint256 i = 0; i < assets.length; i++) {
+            assetTotals[i] = encryptedAssetAmounts[batchId][assets[i]];
+            hedgeTotals[i] = encryptedHedgeAmounts[batchId][assets[i]];
+            underHedged[i] = encryptedUnderHedged[batchId][assets[i]];
+        }
+    }
+
+    function _computeHedgeChecks(uint256 batchId) internal {
+        address[] storage assets = batchAssets[batchId];
+
+        for (uint256 i = 0; i < assets.length; i++) {
+            euint128 assetAmount = encryptedAssetAmounts[batchId][assets[i]];
+            euint128 hedgeAmount = encryptedHedgeAmounts[batchId][assets[i]];
+
+            // hedge / amount < target  <=>  hedge * 10000 < amount * targetBps (no division on ciphertexts)
+            ebool underHedged = FHE.lt(
+                FHE.mul(hedgeAmount, uint128(MAX_HEDGE_RATIO_BPS)),
+                FHE.mul(assetAmount, uint128(targetHedgeRatioFor(assets[i])))
+            );
+            _allowAggregate(underHedged);
+            encryptedUnderHedged[batchId][assets[i]] = underHedged;
+        }
+        emit HedgeChecksComputed(batchId);
+    }
+
+    // Checks the input proof was made for this contract and the sender, then lets the contract use the amount in
+    // totals and decryption requests, the provider decrypt what it submitted, and the owner and governance audit it.
+    // Grants are permanent; a later governance reaches the amount through requestBatchDecryption instead.
+    function _verifySubmission(externalEuint128 encryptedAmount, bytes calldata inputProof) internal returns (euint128 amount) {
+        amount = FHE.fromExternal(encryptedAmount, inputProof);
+        _initIfNeeded(amount);
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        FHE.allow(amount, owner);
+        FHE.allow(amount, governance);
+    }
+
+    // A registered asset starts at zero for both totals, so one that only ever receives either still has two
+    // handles the contract may check and governance may decrypt
+    function _registerAsset(uint256 batchId, address asset) internal {
+        if (!isBatchAsset[batchId][asset]) {
+            isBatchAsset[batchId][asset] = true;
+            batchAssets[batchId].push(asset);
+            euint128 zero = FHE.asEuint128(0);
+            _allowAggregate(zero);
+            encryptedAssetAmounts[batchId][asset] = zero;
+            encryptedHedgeAmounts[batchId][asset] = zero;
+        }
+    }
+
+    // A provider's new submission takes the place of its previous one, so resubmitting never counts an amount twice
+    function _replaceInTotal(euint128 total, euint128 previous, euint128 amount) internal returns (euint128 updated) {
+        updated = FHE.add(FHE.isInitialized(previous) ? FHE.sub(total, previous) : total, amount);
+        _allowAggregate(updated);
+    }
+
+    // Totals and hedge checks are what the dashboard decrypts: the contract keeps computing on them and governance reads them
+    function _allowAggregate(euint128 value) internal {
+        FHE.allowThis(value);
+        FHE.allow(value, governance);
+    }
+
+    function _allowAggregate(ebool value) internal {
+        FHE.allowThis(value);
+        FHE.allow(value, governance);
+    }
+
+    function _batchCiphertexts(uint256 batchId) internal view returns (bytes32[] memory cts) {
+        address[] storage assets = batchAssets[batchId];
+        cts = new bytes32[](assets.length * 2); // 2 ciphertexts per asset (amount + hedge)
+        uint256 ctsIdx = 0;
+        for (uint256 i = 0; i < assets.length; i++) {
+            cts[ctsIdx++] = FHE.toBytes32(encryptedAssetAmounts[batchId][assets[i]]);
+            cts[ctsIdx++] = FHE.toBytes32(encryptedHedgeAmounts[batchId][assets[i]]);
+        }
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
-    function _initIfNeeded(euint32 value) internal {
+    function _initIfNeeded(euint128 value) internal {
         if (!FHE.isInitialized(value)) {
             revert NotInitialized();
         }
     }
 
-    function _requireInitialized(euint32 value) internal pure {
+    function _requireInitialized(euint128 value) internal pure {
         if (!FHE.isInitialized(value)) {
             revert NotInitialized();
         }
@@ -0,0 +1,27 @@
+pragma solidity ^0.8.24;
+
+import { FHE, euint128, externalEuint128 } from "@fhevm/solidity/lib/FHE.sol";
+import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+
+
+// Holds the encrypted amounts behind the frontend's adapter records. The adapter stores plain bytes, so a handle
+// kept there was never ingested by a contract and the ACL grants it to nobody. Here each amount is verified
+// against its input proof and granted to the member who stored it, who can then decrypt it through the relayer.
+contract EncryptedAmountVault is SepoliaConfig {
+    mapping(address => mapping(bytes32 => euint128)) private amounts; // member => record key => amount in token base units
+
+    event AmountStored(address indexed owner, bytes32 indexed key, euint128 amount);
+
+    // `key` is chosen by the caller, e.g. the hash of the adapter record key; storing again under it replaces the amount
+    function store(bytes32 key, externalEuint128 encryptedAmount, bytes calldata inputProof) external returns (euint128 amount) {
+        amount = FHE.fromExternal(encryptedAmount, inputProof);
+        FHE.allowThis(amount);
+        FHE.allow(amount, msg.sender);
+        amounts[msg.sender][key] = amount;
+        emit AmountStored(msg.sender, key, amount);
+    }
+
+    function amountOf(address owner, bytes32 key) external view returns (euint128) {
+        return amounts[owner][key];
+    }
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+import { ERC20 } from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import { ERC20Permit } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+import { ERC20Votes } from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+import { Nonces } from "@openzeppelin/contracts/utils/Nonces.sol";
+
+/// Fixed-supply voting token for the treasury Governor. Holders must delegate
+/// (to themselves or others) before their balance counts as voting power.
+contract TreasuryVotesToken is ERC20, ERC20Permit, ERC20Votes {
+    constructor(address holder, uint256 supply) ERC20("Treasury Governance", "TGOV") ERC20Permit("Treasury Governance") {
+        _mint(holder, supply);
+    }
+
+    function _update(address from, address to, uint256 value) internal override(ERC20, ERC20Votes) {
+        super._update(from, to, value);
+    }
+
+    function nonces(address owner) public view override(ERC20Permit, Nonces) returns (uint256) {
+        return super.nonces(owner);
+    }
+}
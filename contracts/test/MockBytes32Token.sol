@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/// Pre-standard token metadata, as MKR and SAI expose it: symbol and name as bytes32 rather than string.
+contract MockBytes32Token {
+    bytes32 public constant symbol = "MKR";
+    bytes32 public constant name = "Maker";
+    uint256 public constant decimals = 18;
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/// Settable stand-in for a Chainlink AggregatorV3 price feed, for tests and local networks.
+contract MockPriceFeed {
+    uint8 public immutable decimals;
+    string public description;
+
+    uint80 private roundId;
+    int256 private answer;
+    uint256 private updatedAt;
+
+    constructor(uint8 _decimals, string memory _description, int256 initialAnswer) {
+        decimals = _decimals;
+        description = _description;
+        setAnswer(initialAnswer, block.timestamp);
+    }
+
+    function setAnswer(int256 _answer, uint256 _updatedAt) public {
+        roundId++;
+        answer = _answer;
+        updatedAt = _updatedAt;
+    }
+
+    function latestRoundData() external view returns (uint80, int256, uint256, uint256, uint80) {
+        return (roundId, answer, updatedAt, updatedAt, roundId);
+    }
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/// Key/value stand-in for the UniversalAdapter the frontend stores asset and hedge records in,
+/// for tests and local networks.
+contract MockUniversalAdapter {
+    mapping(string => bytes) private data;
+
+    event DataStored(address indexed sender, string key, bytes value);
+
+    function setData(string calldata key, bytes calldata value) external {
+        data[key] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return data[key];
+    }
+
+    function isAvailable() external pure returns (bool) {
+        return true;
+    }
+}
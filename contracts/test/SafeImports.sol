@@ -0,0 +1,6 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity ^0.8.24;
+
+// Compiles the Safe singleton and proxy factory so tests can deploy a local Safe
+import { Safe } from "@safe-global/safe-smart-account/contracts/Safe.sol";
+import { SafeProxyFactory } from "@safe-global/safe-smart-account/contracts/proxies/SafeProxyFactory.sol";
@@ -0,0 +1,25 @@
+// deploy/01_deploy_contracts.ts
+import type { DeployFunction } from "hardhat-deploy/types";
+
+import adapterArtifact from "../frontend/web/src/abi/UniversalAdapter.json";
+
+// The adapter and the vault have no owner or constructor arguments, so they go through the CREATE2 factory and
+// land at the same address on every chain. The treasury makes msg.sender its owner, which under CREATE2 would be the
+// factory, so it is sent from the deployer; hardhat-deploy still skips it while its bytecode is unchanged.
+const func: DeployFunction = async function (hre) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy } = hre.deployments;
+
+  await deploy("UniversalAdapter", {
+    from: deployer,
+    contract: { abi: adapterArtifact.abi, bytecode: adapterArtifact.bytecode },
+    deterministicDeployment: true,
+    log: true,
+  });
+  await deploy("EncryptedAmountVault", { from: deployer, deterministicDeployment: true, log: true });
+  await deploy("DAO_Treasury_Hedge_FHE", { from: deployer, log: true });
+};
+
+func.tags = ["Contracts"];
+
+export default func;
@@ -0,0 +1,35 @@
+// deploy/02_setup_treasury.ts
+import type { DeployFunction } from "hardhat-deploy/types";
+
+// Registers the initial providers and sets the submission cooldown. Safe to rerun: settings that already
+// match are skipped. Providers come from TREASURY_PROVIDERS (comma-separated), or the local demo accounts;
+// the cooldown from TREASURY_COOLDOWN_SECONDS, or 0 on local networks.
+const func: DeployFunction = async function (hre) {
+  const { deployer, assetProvider, hedgeProvider } = await hre.getNamedAccounts();
+  const { execute, read, log } = hre.deployments;
+  const treasury = "DAO_Treasury_Hedge_FHE";
+
+  const owner: string = await read(treasury, "owner");
+  if (owner.toLowerCase() !== deployer.toLowerCase()) {
+    log(`Treasury is owned by ${owner}, not the deployer; skipping provider and cooldown setup`);
+    return;
+  }
+
+  const providers = process.env.TREASURY_PROVIDERS
+    ? process.env.TREASURY_PROVIDERS.split(",").map((provider) => provider.trim()).filter(Boolean)
+    : [assetProvider, hedgeProvider].filter(Boolean);
+  for (const provider of providers) {
+    if (await read(treasury, "isProvider", provider)) continue;
+    await execute(treasury, { from: deployer, log: true }, "addProvider", provider);
+  }
+
+  const cooldown = process.env.TREASURY_COOLDOWN_SECONDS ?? (hre.network.live ? undefined : "0");
+  if (cooldown !== undefined && (await read(treasury, "cooldownSeconds")).toString() !== cooldown) {
+    await execute(treasury, { from: deployer, log: true }, "setCooldownSeconds", cooldown);
+  }
+};
+
+func.tags = ["Setup"];
+func.dependencies = ["Contracts"];
+
+export default func;
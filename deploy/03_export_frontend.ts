@@ -0,0 +1,16 @@
+// deploy/03_export_frontend.ts
+import type { DeployFunction } from "hardhat-deploy/types";
+
+import { exportDeployments } from "../tasks/frontend-config";
+
+// Writes the deployed addresses and treasury ABI into the frontend for the network just deployed to
+const func: DeployFunction = async function (hre) {
+  await exportDeployments(hre);
+};
+
+func.tags = ["Frontend"];
+func.dependencies = ["Contracts"];
+// The in-process chain disappears with the process (`local:node` exports from localhost once the node is up)
+func.skip = async (hre) => hre.network.name === "hardhat";
+
+export default func;
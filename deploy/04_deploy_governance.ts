@@ -0,0 +1,78 @@
+// deploy/04_deploy_governance.ts
+import type { DeployFunction } from "hardhat-deploy/types";
+
+import { writeContractAddress } from "../tasks/frontend-config";
+
+// Deploys the voting token, timelock and Governor for treasury governance. Safe to rerun: unchanged contracts are
+// not redeployed and roles already in place are skipped. Settings come from GOVERNANCE_TOKEN_SUPPLY (whole tokens,
+// minted to the deployer), GOVERNANCE_MIN_DELAY (seconds), GOVERNANCE_VOTING_DELAY and GOVERNANCE_VOTING_PERIOD
+// (blocks) and GOVERNANCE_QUORUM (percent of supply). GOVERNANCE_HANDOVER=true makes the timelock the treasury's
+// governance address.
+const func: DeployFunction = async function (hre) {
+  const { deployer } = await hre.getNamedAccounts();
+  const { deploy, execute, read, log } = hre.deployments;
+  const { ethers } = hre;
+  const env = process.env;
+
+  const token = await deploy("TreasuryVotesToken", {
+    from: deployer,
+    args: [deployer, ethers.parseEther(env.GOVERNANCE_TOKEN_SUPPLY ?? "1000000")],
+    log: true,
+  });
+  const timelock = await deploy("TimelockController", {
+    from: deployer,
+    args: [env.GOVERNANCE_MIN_DELAY ?? 2 * 24 * 60 * 60, [], [], deployer],
+    log: true,
+  });
+  const governor = await deploy("TreasuryGovernor", {
+    from: deployer,
+    args: [
+      token.address,
+      timelock.address,
+      env.GOVERNANCE_VOTING_DELAY ?? 1,
+      env.GOVERNANCE_VOTING_PERIOD ?? 50_400,
+      env.GOVERNANCE_QUORUM ?? 4,
+    ],
+    log: true,
+  });
+
+  // Only the Governor may queue or cancel; anyone may execute once the delay has passed.
+  // The deployer gives up timelock admin so the DAO alone controls it afterwards.
+  const roles: [string, string][] = [
+    [await read("TimelockController", "PROPOSER_ROLE"), governor.address],
+    [await read("TimelockController", "CANCELLER_ROLE"), governor.address],
+    [await read("TimelockController", "EXECUTOR_ROLE"), ethers.ZeroAddress],
+  ];
+  const adminRole: string = await read("TimelockController", "DEFAULT_ADMIN_ROLE");
+  const isAdmin: boolean = await read("TimelockController", "hasRole", adminRole, deployer);
+  for (const [role, account] of roles) {
+    if (await read("TimelockController", "hasRole", role, account)) continue;
+    if (!isAdmin) throw new Error(`The deployer no longer administers the timelock at ${timelock.address}; grant role ${role} to ${account} by proposal`);
+    await execute("TimelockController", { from: deployer, log: true }, "grantRole", role, account);
+  }
+  if (isAdmin) await execute("TimelockController", { from: deployer, log: true }, "renounceRole", adminRole, deployer);
+
+  // Votes only count once delegated
+  if ((await read("TreasuryVotesToken", "delegates", deployer)) === ethers.ZeroAddress) {
+    await execute("TreasuryVotesToken", { from: deployer, log: true }, "delegate", deployer);
+  }
+
+  if (env.GOVERNANCE_HANDOVER === "true") {
+    const governance: string = await read("DAO_Treasury_Hedge_FHE", "governance");
+    if (governance.toLowerCase() === timelock.address.toLowerCase()) {
+      log("Treasury governance is already the timelock");
+    } else if (governance.toLowerCase() !== deployer.toLowerCase()) {
+      log(`Treasury governance is ${governance}, not the deployer; skipping the handover`);
+    } else {
+      await execute("DAO_Treasury_Hedge_FHE", { from: deployer, log: true }, "setGovernance", timelock.address);
+    }
+  }
+
+  // As in 03_export_frontend.ts, the in-process chain is not written; `local:node` exports the Governor with the rest
+  if (hre.network.name !== "hardhat") await writeContractAddress(hre, "governor", governor.address);
+};
+
+func.tags = ["Governance"];
+func.dependencies = ["Contracts"];
+
+export default func;
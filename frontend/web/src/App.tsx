@@ -1,151 +1,282 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
+import { Doughnut } from "react-chartjs-2";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import { NavLink, Route, Routes } from "react-router-dom";
+import { getContractReadOnly, getContractWithSigner, getReadProvider, getSigner, network, tokenRegistry } from "./contract";
+import { amountToNumber, formatAmount, parseAmount, requireEncryptableAmount } from "./amounts";
+import { ASSET_KEYS, ASSET_KEY_PREFIX, ASSET_RECORDS, AssetRecord, assetCodec } from "./assets";
+import { colorFor } from "./chart-setup";
+import { encryptAmount, forgetDecryptionPermit, userDecryptHandles } from "./fhe";
+import { latestDataRecords } from "./event-indexer";
+import { getAppIndexer, indexerStartBlock } from "./indexer";
+import { AssetPrice, createPriceSource, formatAge, isPriceStale, priceAgeSeconds, valuePortfolio } from "./prices";
+import { HEDGE_KEY_PREFIX, HedgePosition, HedgeStatus, closeHedgePosition, hedgeCoverage, hedgeStatusFor, hedgesFromRecords, isOpenHedge, loadHedgePositions, ownedVaultAmounts, saveHedgePosition } from "./hedges";
+import { BatchAggregate, batchAggregateHandles, decodeBatchAggregates, getBatchAggregates, getLatestClosedBatchId, getTreasuryAddress, getTreasuryReadOnly, hedgeRatioPercent } from "./treasury";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
+import { useAccount, useAccountEffect } from 'wagmi';
+import AdminPanel from "./components/AdminPanel";
+import BatchTimeline from "./components/BatchTimeline";
+import SafeProposals from "./components/SafeProposals";
+import GovernancePanel from "./components/GovernancePanel";
+import HedgeStrategy from "./components/HedgeStrategy";
+import HedgeForm, { HedgeFormValues } from "./components/HedgeForm";
+import HedgePositions from "./components/HedgePositions";
+import HedgeCharts from "./components/HedgeCharts";
+import RiskPanel from "./components/RiskPanel";
+import { RiskPosition } from "./risk";
+import { appendToKeyList } from "./key-index";
+import { decodeRecord, encodeRecord, loadCollection } from "./records";
+import { SnapshotCache } from "./snapshot-cache";
+import { CATEGORY_LABELS, TokenInfo } from "./tokens";
+import { getVaultAddress, getVaultWithSigner, isVaultAmount, storeEncryptedAmount } from "./vault";
 
-interface TreasuryAsset {
+interface TreasuryAsset extends AssetRecord {
   id: string;
-  encryptedAmount: string;
-  assetType: string;
-  timestamp: number;
-  owner: string;
-  hedgeStatus: "unhedged" | "partial" | "full";
 }
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
+interface BatchTotals {
+  batchId: bigint;
+  aggregates: BatchAggregate[];
+}
+
+const priceSettings = network.prices;
+const priceSource = createPriceSource(priceSettings, getReadProvider);
+
+// Last loaded asset list, rendered while loadAssets revalidates it
+const assetCache = new SnapshotCache<TreasuryAsset[]>(
+  typeof localStorage === "undefined" ? undefined : localStorage,
+  `treasury-assets:${network.chainId}:${network.contracts.adapter.toLowerCase()}`,
+  assetCodec.version
+);
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
+// Older records are migrated to the current schema on read; see records.ts
+const parseAssetRecord = (id: string, assetBytes: ethers.BytesLike): TreasuryAsset => ({ id, ...decodeRecord(assetCodec, assetBytes) });
+
+const loadAssetsFromIndex = async (): Promise<TreasuryAsset[]> => {
+  const indexer = await getAppIndexer();
+  await indexer.sync();
+  const records = latestDataRecords(await indexer.getEvents("DataStored"), ASSET_KEY_PREFIX);
+  records.delete(ASSET_KEYS);
+
+  const list: TreasuryAsset[] = [];
+  records.forEach((value, key) => {
+    if (ethers.dataLength(value) === 0) return;
+    try {
+      list.push(parseAssetRecord(key.substring(ASSET_KEY_PREFIX.length), value));
+    } catch (e) { console.error(`Error parsing indexed asset ${key}:`, e); }
+  });
+  return list;
 };
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+const loadHedgesFromIndex = async (): Promise<HedgePosition[]> => {
+  const indexer = await getAppIndexer();
+  await indexer.sync();
+  return hedgesFromRecords(latestDataRecords(await indexer.getEvents("DataStored"), HEDGE_KEY_PREFIX));
+};
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
   const [loading, setLoading] = useState(true);
   const [assets, setAssets] = useState<TreasuryAsset[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
   const [addingAsset, setAddingAsset] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newAssetData, setNewAssetData] = useState({ assetType: "", amount: 0 });
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
+  const [newAssetData, setNewAssetData] = useState({ address: "", amount: "" });
+  const [customToken, setCustomToken] = useState(false);
+  const [newAssetToken, setNewAssetToken] = useState<TokenInfo | null>(null);
+  const [tokenLookup, setTokenLookup] = useState<string | null>(null);
+  // Lower-cased token address => metadata, for the tokens held in the treasury
+  const [tokens, setTokens] = useState<Record<string, TokenInfo>>({});
   const [selectedAsset, setSelectedAsset] = useState<TreasuryAsset | null>(null);
-  const [decryptedAmount, setDecryptedAmount] = useState<number | null>(null);
+  const [decryptedAmount, setDecryptedAmount] = useState<string | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
+  const [decryptedAmounts, setDecryptedAmounts] = useState<Record<string, number>>({});
+  const [batchTotals, setBatchTotals] = useState<BatchTotals | null>(null);
   const [totalValue, setTotalValue] = useState<number>(0);
   const [hedgeRatio, setHedgeRatio] = useState<number>(0);
+  const [prices, setPrices] = useState<Record<string, AssetPrice>>({});
+  const [unpricedTypes, setUnpricedTypes] = useState<string[]>([]);
+  const [riskPositions, setRiskPositions] = useState<RiskPosition[]>([]);
+  const [assetsCachedAt, setAssetsCachedAt] = useState<number | null>(null);
+  const [hedges, setHedges] = useState<HedgePosition[]>([]);
+  const [decryptedNotionals, setDecryptedNotionals] = useState<Record<string, number>>({});
+  const [hedgeFormAsset, setHedgeFormAsset] = useState<TreasuryAsset | null>(null);
+
+  // Tokens offered when adding an asset; any other ERC-20 can be added by address
+  const listedTokens = tokenRegistry.list().filter(token => token.source === "list");
 
-  // Asset types for the DAO treasury
-  const assetTypes = [
-    "ETH",
-    "BTC",
-    "USDC",
-    "DAI",
-    "WBTC",
-    "UNI",
-    "LINK",
-    "Other"
-  ];
+  // A decryption permit is signed once per session; disconnecting ends the session for that account
+  const permitAccount = useRef<string | undefined>(undefined);
+  useEffect(() => { permitAccount.current = address; }, [address]);
+  useAccountEffect({
+    onDisconnect() {
+      if (permitAccount.current) forgetDecryptionPermit(permitAccount.current);
+    }
+  });
 
   useEffect(() => {
+    const cached = assetCache.read();
+    if (cached) {
+      setAssets(cached.value);
+      setAssetsCachedAt(cached.savedAt);
+      setLoading(false);
+    }
     loadAssets().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
-    };
-    initSignatureParams();
+    loadHedges();
+    loadPrices();
   }, []);
 
   useEffect(() => {
-    // Calculate total value and hedge ratio whenever assets change
-    if (assets.length > 0) {
-      let total = 0;
-      let hedgedValue = 0;
-      
-      assets.forEach(asset => {
-        try {
-          const amount = FHEDecryptNumber(asset.encryptedAmount);
-          total += amount;
-          if (asset.hedgeStatus === "full") {
-            hedgedValue += amount;
-          } else if (asset.hedgeStatus === "partial") {
-            hedgedValue += amount * 0.5;
-          }
-        } catch (e) {
-          console.error("Error decrypting asset value:", e);
-        }
-      });
-      
-      setTotalValue(total);
-      setHedgeRatio(total > 0 ? (hedgedValue / total) * 100 : 0);
-    } else {
-      setTotalValue(0);
-      setHedgeRatio(0);
-    }
+    // Overview totals come only from the decrypted per-asset totals of the latest closed batch, each priced in its
+    // own token; individual positions never feed them
+    if (!batchTotals) return;
+    const holdings = batchTotals.aggregates.map(aggregate => {
+      const token = tokens[aggregate.asset.toLowerCase()];
+      return {
+        symbol: token?.symbol ?? aggregate.asset,
+        amount: token ? amountToNumber(aggregate.assetTotal, token.decimals) : 0,
+        hedgedFraction: Math.min(hedgeRatioPercent(aggregate.assetTotal, aggregate.hedgeTotal) / 100, 1)
+      };
+    });
+    const valuation = valuePortfolio(holdings, prices);
+
+    setTotalValue(valuation.totalUsd);
+    setHedgeRatio(valuation.totalUsd > 0 ? (valuation.hedgedUsd / valuation.totalUsd) * 100 : 0);
+    setUnpricedTypes(valuation.unpriced);
+  }, [batchTotals, prices, tokens]);
+
+  useEffect(() => {
+    // Risk analysis covers the amounts the connected member has decrypted, in USD.
+    // Hedged fractions come from decrypted open notionals; a hedge still encrypted counts as unhedged
+    const holdings = assets
+      .filter(asset => decryptedAmounts[asset.id] !== undefined)
+      .map(asset => ({ symbol: symbolFor(asset), amount: decryptedAmounts[asset.id], hedgedFraction: coverageFor(asset) ?? 0 }));
+    setRiskPositions(holdings
+      .filter(holding => prices[holding.symbol])
+      .map(holding => ({ symbol: holding.symbol, valueUsd: holding.amount * prices[holding.symbol].usd, hedgedFraction: holding.hedgedFraction })));
+  }, [assets, decryptedAmounts, prices, hedges, decryptedNotionals, tokens]);
+
+  useEffect(() => {
+    const addresses = assets.map(asset => asset.asset).filter((asset): asset is string => !!asset);
+    if (addresses.length === 0) return;
+    tokenRegistry.resolveAll(addresses).then(resolved => setTokens(prev => ({ ...prev, ...resolved })));
   }, [assets]);
 
+  useEffect(() => {
+    if (Object.keys(tokens).length > 0) loadPrices();
+  }, [tokens]);
+
+  useEffect(() => {
+    setNewAssetToken(null);
+    setTokenLookup(null);
+    if (!ethers.isAddress(newAssetData.address)) return;
+    let current = true;
+    setTokenLookup("Reading token metadata...");
+    tokenRegistry.resolve(newAssetData.address)
+      .then(token => { if (current) { setNewAssetToken(token); setTokenLookup(null); } })
+      .catch(e => { if (current) setTokenLookup(e.message || "Not an ERC-20 token"); });
+    return () => { current = false; };
+  }, [newAssetData.address]);
+
+  // Records written before the token registry only have a symbol
+  const tokenFor = (asset: TreasuryAsset): TokenInfo | undefined => asset.asset
+    ? tokens[asset.asset.toLowerCase()] ?? tokenRegistry.get(asset.asset)
+    : tokenRegistry.bySymbol(asset.assetType);
+
+  const symbolFor = (asset: TreasuryAsset) => tokenFor(asset)?.symbol ?? asset.assetType;
+
+  const renderToken = (asset: TreasuryAsset) => {
+    const token = tokenFor(asset);
+    return (
+      <span className="token-label" title={token?.address}>
+        {token?.logoURI && <img className="token-logo" src={token.logoURI} alt="" />}
+        {symbolFor(asset)}
+        {token && <span className="token-category">{CATEGORY_LABELS[token.category]}</span>}
+      </span>
+    );
+  };
+
+  // The typed amount in base units of the selected token, or why it cannot be encrypted
+  const newAssetPreview = ((): { baseUnits?: string; error?: string } => {
+    if (!newAssetData.amount.trim()) return {};
+    try {
+      if (!newAssetToken) return {};
+      const raw = requireEncryptableAmount(parseAmount(newAssetData.amount, newAssetToken.decimals));
+      return raw > 0n ? { baseUnits: raw.toString() } : {};
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : String(e) };
+    }
+  })();
+
+  const hedgesFor = (asset: TreasuryAsset) => hedges.filter(h => h.assetId === asset.id);
+
+  const coverageFor = (asset: TreasuryAsset) => hedgeCoverage(decryptedAmounts[asset.id], hedgesFor(asset), decryptedNotionals);
+
+  const statusFor = (asset: TreasuryAsset): HedgeStatus | null => {
+    const coverage = coverageFor(asset);
+    return coverage === null ? null : hedgeStatusFor(coverage);
+  };
+
+  const renderHedgeBadge = (asset: TreasuryAsset) => {
+    const status = statusFor(asset);
+    if (status) return <span className={`status-badge ${status}`}>{status}</span>;
+    const open = hedgesFor(asset).filter(h => isOpenHedge(h)).length;
+    return <span className="status-badge partial">{open} open · encrypted</span>;
+  };
+
+  const loadPrices = async () => {
+    try {
+      const symbols = new Set([...tokenRegistry.list(), ...Object.values(tokens)].map(token => token.symbol));
+      assets.forEach(asset => symbols.add(symbolFor(asset)));
+      setPrices(await priceSource.getPrices([...symbols]));
+    } catch (e) { console.error("Error loading prices:", e); }
+  };
+
+  const loadHedges = async () => {
+    try {
+      if (indexerStartBlock !== undefined) {
+        try {
+          setHedges(await loadHedgesFromIndex());
+          return;
+        } catch (e) { console.error("Event index unavailable, falling back to getData:", e); }
+      }
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      setHedges(await loadHedgePositions(contract));
+    } catch (e) { console.error("Error loading hedges:", e); }
+  };
+
+  const showAssets = (list: TreasuryAsset[]) => {
+    list.sort((a, b) => b.timestamp - a.timestamp);
+    setAssets(list);
+    assetCache.write(list);
+    setAssetsCachedAt(null);
+  };
+
   const loadAssets = async () => {
     setIsRefreshing(true);
     try {
+      // Event index is only used once the active network records the block to replay from
+      if (indexerStartBlock !== undefined) {
+        try {
+          showAssets(await loadAssetsFromIndex());
+          return;
+        } catch (e) { console.error("Event index unavailable, falling back to getData:", e); }
+      }
+
       const contract = await getContractReadOnly();
       if (!contract) return;
       
       const isAvailable = await contract.isAvailable();
       if (!isAvailable) return;
       
-      const keysBytes = await contract.getData("asset_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing asset keys:", e); }
-      }
-      
-      const list: TreasuryAsset[] = [];
-      for (const key of keys) {
-        try {
-          const assetBytes = await contract.getData(`asset_${key}`);
-          if (assetBytes.length > 0) {
-            try {
-              const assetData = JSON.parse(ethers.toUtf8String(assetBytes));
-              list.push({ 
-                id: key, 
-                encryptedAmount: assetData.amount, 
-                assetType: assetData.assetType, 
-                timestamp: assetData.timestamp, 
-                owner: assetData.owner, 
-                hedgeStatus: assetData.hedgeStatus || "unhedged" 
-              });
-            } catch (e) { console.error(`Error parsing asset data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading asset ${key}:`, e); }
-      }
-      
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setAssets(list);
+      // Batched through Multicall3 where deployed; one bad record does not hide the rest
+      const loaded = await loadCollection(contract, ASSET_RECORDS);
+      showAssets(loaded.map(({ id, record }) => ({ id, ...record })));
     } catch (e) { console.error("Error loading assets:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
@@ -156,30 +287,32 @@ const App: React.FC = () => {
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting asset data with Zama FHE..." });
     
     try {
-      const encryptedAmount = FHEEncryptNumber(newAssetData.amount);
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
+      const token = newAssetToken;
+      if (!token) throw new Error("Select a token");
+      const vault = await getVaultWithSigner();
+      const encrypted = await encryptAmount(getVaultAddress(), address!, parseAmount(newAssetData.amount, token.decimals));
       
       const assetId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-      const assetData = { 
-        amount: encryptedAmount, 
-        assetType: newAssetData.assetType, 
+      const assetKey = `${ASSET_KEY_PREFIX}${assetId}`;
+      // The vault verifies the proof and grants the amount to the member; the record keeps the resulting handle
+      const encryptedAmount = await storeEncryptedAmount(vault, assetKey, encrypted);
+      const assetData: AssetRecord = { 
+        encryptedAmount, 
+        vault: getVaultAddress(), 
+        asset: token.address,
+        assetType: token.symbol, 
+        decimals: token.decimals,
         timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        hedgeStatus: "unhedged" 
+        owner: address!
       };
       
-      await contract.setData(`asset_${assetId}`, ethers.toUtf8Bytes(JSON.stringify(assetData)));
-      
-      const keysBytes = await contract.getData("asset_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
+      await (await contract.setData(assetKey, encodeRecord(assetCodec, assetData))).wait();
       
-      keys.push(assetId);
-      await contract.setData("asset_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      // The asset is stored and indexed from its DataStored event; asset_keys is only a cache for list readers
+      await appendToKeyList(contract, ASSET_RECORDS, assetId)
+        .catch(e => console.error(`asset_keys not updated for ${assetId}; run records:reconcile:`, e));
       
       setTransactionStatus({ visible: true, status: "success", message: "Asset added with FHE encryption!" });
       await loadAssets();
@@ -187,58 +320,102 @@ const App: React.FC = () => {
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowAddModal(false);
-        setNewAssetData({ assetType: "", amount: 0 });
+        setNewAssetData({ address: "", amount: "" });
+        setCustomToken(false);
       }, 2000);
-    } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (e.message || "Unknown error");
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "";
+      const errorMessage = message.includes("user rejected transaction") ? "Transaction rejected by user" : "Submission failed: " + (message || "Unknown error");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { setAddingAsset(false); }
   };
 
-  const hedgeAsset = async (assetId: string, hedgeType: "partial" | "full") => {
+  const openHedge = async (asset: TreasuryAsset, values: HedgeFormValues) => {
     if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing hedge with FHE encrypted data..." });
-    
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting hedge notional with Zama FHE..." });
+
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const assetBytes = await contract.getData(`asset_${assetId}`);
-      if (assetBytes.length === 0) throw new Error("Asset not found");
-      
-      const assetData = JSON.parse(ethers.toUtf8String(assetBytes));
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedAsset = { ...assetData, hedgeStatus: hedgeType };
-      await contractWithSigner.setData(`asset_${assetId}`, ethers.toUtf8Bytes(JSON.stringify(updatedAsset)));
-      
-      setTransactionStatus({ 
-        visible: true, 
-        status: "success", 
-        message: hedgeType === "full" 
-          ? "Full hedge applied successfully!" 
-          : "Partial hedge applied successfully!" 
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+      const vault = await getVaultWithSigner();
+      const encrypted = await encryptAmount(getVaultAddress(), address!, values.notional);
+      const id = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+      await saveHedgePosition(contract, {
+        id,
+        assetId: asset.id,
+        assetType: symbolFor(asset),
+        instrument: values.instrument,
+        notional: await storeEncryptedAmount(vault, `${HEDGE_KEY_PREFIX}${id}`, encrypted),
+        vault: getVaultAddress(),
+        decimals: asset.decimals,
+        entryPrice: values.entryPrice,
+        optionType: values.optionType,
+        expiry: values.expiry,
+        venue: values.venue,
+        cost: values.cost,
+        openedAt: Math.floor(Date.now() / 1000),
+        owner: address!
       });
-      
-      await loadAssets();
+
+      setTransactionStatus({ visible: true, status: "success", message: "Hedge position recorded with encrypted notional!" });
+      setHedgeFormAsset(null);
+      await loadHedges();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-    } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Hedge failed: " + (e.message || "Unknown error") });
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "";
+      const errorMessage = message.includes("user rejected transaction") ? "Transaction rejected by user" : "Hedge failed: " + (message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const closeHedge = async (position: HedgePosition) => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: "Closing hedge position..." });
+
+    try {
+      const contract = await getContractWithSigner();
+      if (!contract) throw new Error("Failed to get contract with signer");
+      await closeHedgePosition(contract, position);
+
+      setTransactionStatus({ visible: true, status: "success", message: "Hedge position closed" });
+      await loadHedges();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e) {
+      setTransactionStatus({ visible: true, status: "error", message: "Close failed: " + ((e instanceof Error && e.message) || "Unknown error") });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  // Resolves to the cleartexts in base units; state keeps whole-token numbers for pricing and coverage
+  const decryptWithSignature = async (targets: TreasuryAsset[]): Promise<Record<string, bigint> | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
+    // Only amounts stored through the vault are granted, and only to their owners; hedge notionals on the same
+    // assets are decrypted under the same signature
+    const { assets: encrypted, notionals } = ownedVaultAmounts(address ?? "", targets, hedges, isVaultAmount);
+    if (encrypted.length === 0) { alert("No vault-held amounts of yours to decrypt"); return null; }
     setIsDecrypting(true);
     
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
+      const signer = await getSigner();
+      const cleartexts = await userDecryptHandles(
+        [...encrypted.map(a => a.encryptedAmount), ...notionals.map(h => h.notional)],
+        getVaultAddress(),
+        signer
+      );
+      const decrypted: Record<string, bigint> = {};
+      const amounts: Record<string, number> = {};
+      encrypted.forEach(asset => {
+        decrypted[asset.id] = cleartexts[asset.encryptedAmount];
+        amounts[asset.id] = amountToNumber(cleartexts[asset.encryptedAmount], asset.decimals);
+      });
+      const decryptedHedges: Record<string, number> = {};
+      notionals.forEach(h => { decryptedHedges[h.id] = amountToNumber(cleartexts[h.notional], h.decimals); });
+      setDecryptedAmounts(prev => ({ ...prev, ...amounts }));
+      setDecryptedNotionals(prev => ({ ...prev, ...decryptedHedges }));
+      return decrypted;
     } catch (e) { 
       console.error("Decryption failed:", e); 
       return null; 
@@ -247,34 +424,66 @@ const App: React.FC = () => {
     }
   };
 
+  // Totals and hedge checks are granted to governance; no single submission is decrypted here
+  const decryptBatchTotals = async () => {
+    if (!isConnected) { alert("Please connect wallet first"); return; }
+    setIsDecrypting(true);
+
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) throw new Error("Treasury contract is not available");
+      const batchId = await getLatestClosedBatchId(treasury);
+      if (batchId === null) { alert("No closed batch to aggregate yet"); return; }
+
+      const handles = await getBatchAggregates(treasury, batchId);
+      const cleartexts = await userDecryptHandles(batchAggregateHandles(handles), getTreasuryAddress(), await getSigner());
+      const resolved = await tokenRegistry.resolveAll(handles.assets);
+      setTokens(prev => ({ ...prev, ...resolved }));
+      setBatchTotals({ batchId, aggregates: decodeBatchAggregates(handles, cleartexts) });
+    } catch (e) {
+      console.error("Aggregate decryption failed:", e);
+      alert(`Could not decrypt the batch totals: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const formatAggregate = (asset: string, amount: bigint) => {
+    const token = tokens[asset.toLowerCase()];
+    return token ? `${formatAmount(amount, token.decimals)} ${token.symbol}` : `${amount.toString()} base units`;
+  };
+
   const isOwner = (assetAddress: string) => address?.toLowerCase() === assetAddress.toLowerCase();
 
+  const decryptedExposures = () => assets
+    .filter(asset => decryptedAmounts[asset.id] !== undefined)
+    .map(asset => ({ symbol: symbolFor(asset), amount: decryptedAmounts[asset.id] }));
+
   const renderAssetChart = () => {
-    const assetDistribution = assetTypes.map(type => ({
+    const symbols = [...new Set(assets.map(symbolFor))];
+    const assetDistribution = symbols.filter(type => prices[type]).map(type => ({
       type,
-      value: assets.filter(a => a.assetType === type).reduce((sum, asset) => {
-        try {
-          return sum + FHEDecryptNumber(asset.encryptedAmount);
-        } catch (e) {
-          return sum;
-        }
-      }, 0)
+      value: assets.filter(a => symbolFor(a) === type).reduce((sum, asset) => sum + (decryptedAmounts[asset.id] ?? 0), 0) * prices[type].usd
     })).filter(item => item.value > 0);
 
     return (
       <div className="asset-chart">
-        {assetDistribution.map((asset, index) => (
-          <div key={index} className="asset-bar">
-            <div className="bar-label">{asset.type}</div>
-            <div className="bar-container">
-              <div 
-                className="bar-fill" 
-                style={{ width: `${(asset.value / totalValue) * 100}%` }}
-              ></div>
-            </div>
-            <div className="bar-value">${asset.value.toLocaleString()}</div>
-          </div>
-        ))}
+        <Doughnut
+          data={{
+            labels: assetDistribution.map(asset => asset.type),
+            datasets: [{
+              data: assetDistribution.map(asset => asset.value),
+              backgroundColor: assetDistribution.map(asset => colorFor(asset.type)),
+              borderWidth: 0
+            }]
+          }}
+          options={{
+            plugins: {
+              legend: { position: "right" },
+              tooltip: { callbacks: { label: item => `${item.label}: $${Number(item.raw).toLocaleString(undefined, { maximumFractionDigits: 0 })}` } }
+            }
+          }}
+        />
       </div>
     );
   };
@@ -291,22 +500,211 @@ const App: React.FC = () => {
         </div>
         <div className="hedge-stats">
           <div className="stat-item">
-            <div className="stat-value">${totalValue.toLocaleString()}</div>
-            <div className="stat-label">Total Value</div>
+            <div className="stat-value">${totalValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+            <div className="stat-label">Total Value (USD)</div>
           </div>
           <div className="stat-item">
-            <div className="stat-value">{assets.filter(a => a.hedgeStatus === "full").length}</div>
-            <div className="stat-label">Fully Hedged</div>
+            <div className="stat-value">{batchTotals ? batchTotals.aggregates.filter(a => !a.underHedged).length : "-"}</div>
+            <div className="stat-label">On Target</div>
           </div>
           <div className="stat-item">
-            <div className="stat-value">{assets.filter(a => a.hedgeStatus === "partial").length}</div>
-            <div className="stat-label">Partially Hedged</div>
+            <div className="stat-value">{batchTotals ? batchTotals.aggregates.filter(a => a.underHedged).length : "-"}</div>
+            <div className="stat-label">Under Target</div>
           </div>
         </div>
       </div>
     );
   };
 
+  // Under-hedged flags are the contract's encrypted checks against each asset's target, not recomputed here
+  const renderBatchTotals = () => {
+    if (!batchTotals) return <p className="price-note">Decrypt the totals of the latest closed batch to value the treasury</p>;
+    return (
+      <div className="price-sources">
+        <div className="price-sources-header">
+          <span>Batch #{batchTotals.batchId.toString()} totals</span>
+        </div>
+        {batchTotals.aggregates.map(aggregate => (
+          <div className="price-row" key={aggregate.asset}>
+            <span>{formatAggregate(aggregate.asset, aggregate.assetTotal)}</span>
+            <span>{formatAggregate(aggregate.asset, aggregate.hedgeTotal)} hedged</span>
+            <span className={aggregate.underHedged ? "price-stale" : ""}>{aggregate.underHedged ? "under target" : "on target"}</span>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderPriceSources = () => {
+    const quoted = Object.values(prices);
+    return (
+      <div className="price-sources">
+        <div className="price-sources-header">
+          <span>Prices: {priceSource.name}</span>
+          <button className="action-btn metal-button" onClick={loadPrices}>Refresh Prices</button>
+        </div>
+        {quoted.map(price => {
+          const stale = isPriceStale(price, priceSettings.maxAgeSeconds);
+          return (
+            <div className="price-row" key={price.symbol}>
+              <span>{price.symbol}</span>
+              <span>${price.usd.toLocaleString()}</span>
+              <span className={stale ? "price-stale" : ""}>{formatAge(priceAgeSeconds(price))} old{stale ? " · stale" : ""}</span>
+            </div>
+          );
+        })}
+        {unpricedTypes.length > 0 && (
+          <p className="price-note">No price for {unpricedTypes.join(", ")}; excluded from totals</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderDashboard = () => (
+    <div className="dashboard-panels">
+      {/* Panel 1: Treasury Overview */}
+      <div className="panel metal-card">
+        <div className="panel-header">
+          <h2>Treasury Overview</h2>
+          <button onClick={decryptBatchTotals} className="refresh-btn metal-button" disabled={isDecrypting}>
+            {isDecrypting ? "Decrypting..." : "Decrypt Totals"}
+          </button>
+        </div>
+        <div className="panel-content">
+          <div className="overview-stats">
+            <div className="stat-card">
+              <div className="stat-title">Total Value</div>
+              <div className="stat-value">${totalValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-title">Assets</div>
+              <div className="stat-value">{assets.length}</div>
+            </div>
+            <div className="stat-card">
+              <div className="stat-title">Hedge Ratio</div>
+              <div className="stat-value">{hedgeRatio.toFixed(1)}%</div>
+            </div>
+          </div>
+          {renderHedgeStatus()}
+          {renderBatchTotals()}
+          {renderPriceSources()}
+        </div>
+      </div>
+
+      {/* Panel 2: Asset Distribution */}
+      <div className="panel metal-card">
+        <div className="panel-header">
+          <h2>Asset Distribution</h2>
+          <button onClick={() => decryptWithSignature(assets)} className="refresh-btn metal-button" disabled={isDecrypting || assets.length === 0}>
+            {isDecrypting ? "Decrypting..." : "Decrypt Holdings"}
+          </button>
+        </div>
+        <div className="panel-content">
+          {assets.length === 0 ? (
+            <div className="no-data">
+              <p>No assets added yet</p>
+            </div>
+          ) : Object.keys(decryptedAmounts).length > 0 ? renderAssetChart() : (
+            <div className="no-data">
+              <p>Decrypt holdings to view the distribution</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Panel 3: Feature Showcase */}
+      <div className="panel metal-card">
+        <h2>FHE-Powered Features</h2>
+        <div className="panel-content features">
+          <div className="feature">
+            <div className="feature-icon fhe-icon"></div>
+            <h3>Encrypted Holdings</h3>
+            <p>All treasury assets are encrypted with Zama FHE, protecting your financial strategy.</p>
+          </div>
+          <div className="feature">
+            <div className="feature-icon hedge-icon"></div>
+            <h3>Hedge Positions</h3>
+            <p>Track perps, options and stablecoin swaps with encrypted notionals and live PnL.</p>
+          </div>
+          <div className="feature">
+            <div className="feature-icon analytics-icon"></div>
+            <h3>Private Analytics</h3>
+            <p>Get insights into your treasury composition without exposing sensitive data.</p>
+          </div>
+        </div>
+      </div>
+
+      {/* Panel 4: Risk Analysis */}
+      <RiskPanel positions={riskPositions} />
+
+      {/* Panel 5: Hedge Positions */}
+      <HedgePositions
+        positions={hedges}
+        notionals={decryptedNotionals}
+        prices={prices}
+        canClose={position => isOwner(position.owner)}
+        onClosePosition={closeHedge}
+      />
+
+      {/* Panel 6: Hedge Performance */}
+      <HedgeCharts exposures={decryptedExposures()} hedges={hedges} notionals={decryptedNotionals} prices={prices} />
+
+      {/* Panel 7: Asset List */}
+      <div className="panel metal-card full-width">
+        <div className="panel-header">
+          <h2>Treasury Assets</h2>
+          <button onClick={loadAssets} className="refresh-btn metal-button" disabled={isRefreshing}>
+            {isRefreshing ? "Refreshing..." : "Refresh"}
+          </button>
+        </div>
+        <div className="panel-content">
+          {assetsCachedAt !== null && (
+            <p className="price-note">
+              Cached list from {formatAge(Math.max(Math.floor(Date.now() / 1000) - assetsCachedAt, 0))} ago{isRefreshing ? "; refreshing from chain..." : "; chain refresh failed"}
+            </p>
+          )}
+          <div className="assets-table">
+            <div className="table-header">
+              <div className="header-cell">Asset</div>
+              <div className="header-cell">Type</div>
+              <div className="header-cell">Added</div>
+              <div className="header-cell">Hedge Status</div>
+              <div className="header-cell">Actions</div>
+            </div>
+            {assets.length === 0 ? (
+              <div className="no-assets">
+                <div className="no-assets-icon"></div>
+                <p>No assets in treasury</p>
+                <button className="metal-button primary" onClick={() => setShowAddModal(true)}>Add First Asset</button>
+              </div>
+            ) : assets.map(asset => (
+              <div className="table-row" key={asset.id} onClick={() => setSelectedAsset(asset)}>
+                <div className="table-cell">
+                  <div className="asset-id">#{asset.id.substring(0, 6)}</div>
+                </div>
+                <div className="table-cell">{renderToken(asset)}</div>
+                <div className="table-cell">{new Date(asset.timestamp * 1000).toLocaleDateString()}</div>
+                <div className="table-cell">{renderHedgeBadge(asset)}</div>
+                <div className="table-cell actions">
+                  {isOwner(asset.owner) && (
+                    <div className="action-buttons">
+                      <button 
+                        className="action-btn metal-button success" 
+                        onClick={(e) => { e.stopPropagation(); setHedgeFormAsset(asset); }}
+                      >
+                        Add Hedge
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
   if (loading) return (
     <div className="loading-screen">
       <div className="metal-spinner"></div>
@@ -321,6 +719,14 @@ const App: React.FC = () => {
           <div className="logo-icon"><div className="shield-icon"></div></div>
           <h1>DAO<span>Treasury</span>Hedge</h1>
         </div>
+        <nav className="app-nav">
+          <NavLink to="/" end className="nav-link">Dashboard</NavLink>
+          <NavLink to="/batches" className="nav-link">Batches</NavLink>
+          <NavLink to="/strategy" className="nav-link">Strategy</NavLink>
+          <NavLink to="/admin" className="nav-link">Admin</NavLink>
+          <NavLink to="/safe" className="nav-link">Safe</NavLink>
+          <NavLink to="/governance" className="nav-link">Governance</NavLink>
+        </nav>
         <div className="header-actions">
           <button onClick={() => setShowAddModal(true)} className="add-asset-btn metal-button">
             <div className="add-icon"></div>Add Asset
@@ -332,124 +738,14 @@ const App: React.FC = () => {
       </header>
 
       <div className="main-content">
-        <div className="dashboard-panels">
-          {/* Panel 1: Treasury Overview */}
-          <div className="panel metal-card">
-            <h2>Treasury Overview</h2>
-            <div className="panel-content">
-              <div className="overview-stats">
-                <div className="stat-card">
-                  <div className="stat-title">Total Value</div>
-                  <div className="stat-value">${totalValue.toLocaleString()}</div>
-                </div>
-                <div className="stat-card">
-                  <div className="stat-title">Assets</div>
-                  <div className="stat-value">{assets.length}</div>
-                </div>
-                <div className="stat-card">
-                  <div className="stat-title">Hedge Ratio</div>
-                  <div className="stat-value">{hedgeRatio.toFixed(1)}%</div>
-                </div>
-              </div>
-              {renderHedgeStatus()}
-            </div>
-          </div>
-
-          {/* Panel 2: Asset Distribution */}
-          <div className="panel metal-card">
-            <h2>Asset Distribution</h2>
-            <div className="panel-content">
-              {assets.length > 0 ? renderAssetChart() : (
-                <div className="no-data">
-                  <p>No assets added yet</p>
-                </div>
-              )}
-            </div>
-          </div>
-
-          {/* Panel 3: Feature Showcase */}
-          <div className="panel metal-card">
-            <h2>FHE-Powered Features</h2>
-            <div className="panel-content features">
-              <div className="feature">
-                <div className="feature-icon fhe-icon"></div>
-                <h3>Encrypted Holdings</h3>
-                <p>All treasury assets are encrypted with Zama FHE, protecting your financial strategy.</p>
-              </div>
-              <div className="feature">
-                <div className="feature-icon hedge-icon"></div>
-                <h3>One-Click Hedging</h3>
-                <p>Apply risk mitigation strategies directly on encrypted data without decryption.</p>
-              </div>
-              <div className="feature">
-                <div className="feature-icon analytics-icon"></div>
-                <h3>Private Analytics</h3>
-                <p>Get insights into your treasury composition without exposing sensitive data.</p>
-              </div>
-            </div>
-          </div>
-
-          {/* Panel 4: Asset List */}
-          <div className="panel metal-card full-width">
-            <div className="panel-header">
-              <h2>Treasury Assets</h2>
-              <button onClick={loadAssets} className="refresh-btn metal-button" disabled={isRefreshing}>
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
-            </div>
-            <div className="panel-content">
-              <div className="assets-table">
-                <div className="table-header">
-                  <div className="header-cell">Asset</div>
-                  <div className="header-cell">Type</div>
-                  <div className="header-cell">Added</div>
-                  <div className="header-cell">Hedge Status</div>
-                  <div className="header-cell">Actions</div>
-                </div>
-                {assets.length === 0 ? (
-                  <div className="no-assets">
-                    <div className="no-assets-icon"></div>
-                    <p>No assets in treasury</p>
-                    <button className="metal-button primary" onClick={() => setShowAddModal(true)}>Add First Asset</button>
-                  </div>
-                ) : assets.map(asset => (
-                  <div className="table-row" key={asset.id} onClick={() => setSelectedAsset(asset)}>
-                    <div className="table-cell">
-                      <div className="asset-id">#{asset.id.substring(0, 6)}</div>
-                    </div>
-                    <div className="table-cell">{asset.assetType}</div>
-                    <div className="table-cell">{new Date(asset.timestamp * 1000).toLocaleDateString()}</div>
-                    <div className="table-cell">
-                      <span className={`status-badge ${asset.hedgeStatus}`}>
-                        {asset.hedgeStatus}
-                      </span>
-                    </div>
-                    <div className="table-cell actions">
-                      {isOwner(asset.owner) && (
-                        <div className="action-buttons">
-                          <button 
-                            className="action-btn metal-button success" 
-                            onClick={(e) => { e.stopPropagation(); hedgeAsset(asset.id, "full"); }}
-                            disabled={asset.hedgeStatus === "full"}
-                          >
-                            Full Hedge
-                          </button>
-                          <button 
-                            className="action-btn metal-button warning" 
-                            onClick={(e) => { e.stopPropagation(); hedgeAsset(asset.id, "partial"); }}
-                            disabled={asset.hedgeStatus !== "unhedged"}
-                          >
-                            Partial Hedge
-                          </button>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
-        </div>
+        <Routes>
+          <Route path="/batches" element={<BatchTimeline />} />
+          <Route path="/strategy" element={<HedgeStrategy />} />
+          <Route path="/admin" element={<AdminPanel />} />
+          <Route path="/safe" element={<SafeProposals />} />
+          <Route path="/governance" element={<GovernancePanel />} />
+          <Route path="*" element={renderDashboard()} />
+        </Routes>
       </div>
 
       {/* Add Asset Modal */}
@@ -466,40 +762,63 @@ const App: React.FC = () => {
                 <p>This data will be encrypted with Zama FHE before storage</p>
               </div>
               <div className="form-group">
-                <label>Asset Type *</label>
+                <label>Token *</label>
                 <select 
-                  name="assetType" 
-                  value={newAssetData.assetType} 
-                  onChange={(e) => setNewAssetData({...newAssetData, assetType: e.target.value})}
+                  name="token" 
+                  value={customToken ? "custom" : newAssetData.address} 
+                  onChange={(e) => {
+                    const custom = e.target.value === "custom";
+                    setCustomToken(custom);
+                    setNewAssetData({...newAssetData, address: custom ? "" : e.target.value});
+                  }}
                   className="metal-select"
                 >
-                  <option value="">Select asset type</option>
-                  {assetTypes.map((type, index) => (
-                    <option key={index} value={type}>{type}</option>
+                  <option value="">Select token</option>
+                  {listedTokens.map(token => (
+                    <option key={token.address} value={token.address}>{token.symbol}{token.name ? ` · ${token.name}` : ""}</option>
                   ))}
+                  <option value="custom">Other ERC-20 by address...</option>
                 </select>
               </div>
+              {customToken && (
+                <div className="form-group">
+                  <label>Token Address *</label>
+                  <input 
+                    type="text" 
+                    name="address" 
+                    value={newAssetData.address} 
+                    onChange={(e) => setNewAssetData({...newAssetData, address: e.target.value.trim()})}
+                    placeholder="0x..."
+                    className="metal-input"
+                  />
+                </div>
+              )}
+              {(tokenLookup || newAssetToken) && (
+                <p className="price-note">
+                  {tokenLookup ?? `${newAssetToken!.symbol}: ${newAssetToken!.decimals} decimals, ${CATEGORY_LABELS[newAssetToken!.category].toLowerCase()}${newAssetToken!.source === "chain" ? ", read from the token contract" : ""}`}
+                </p>
+              )}
               <div className="form-group">
                 <label>Amount *</label>
                 <input 
-                  type="number" 
+                  type="text" 
+                  inputMode="decimal"
                   name="amount" 
                   value={newAssetData.amount} 
-                  onChange={(e) => setNewAssetData({...newAssetData, amount: parseFloat(e.target.value)})}
+                  onChange={(e) => setNewAssetData({...newAssetData, amount: e.target.value})}
                   placeholder="Enter amount..."
                   className="metal-input"
-                  step="0.0001"
                 />
               </div>
               <div className="encryption-preview">
                 <div className="preview-row">
-                  <span>Plain Value:</span>
-                  <div>{newAssetData.amount || 0}</div>
+                  <span>Base Units:</span>
+                  <div>{newAssetPreview.baseUnits ?? newAssetPreview.error ?? 0}</div>
                 </div>
                 <div className="preview-arrow">↓</div>
                 <div className="preview-row">
                   <span>Encrypted Value:</span>
-                  <div>{newAssetData.amount ? FHEEncryptNumber(newAssetData.amount).substring(0, 30) + '...' : 'N/A'}</div>
+                  <div>{newAssetPreview.baseUnits ? "euint128 handle + input proof" : 'N/A'}</div>
                 </div>
               </div>
             </div>
@@ -507,7 +826,7 @@ const App: React.FC = () => {
               <button onClick={() => setShowAddModal(false)} className="metal-button">Cancel</button>
               <button 
                 onClick={addAsset} 
-                disabled={addingAsset || !newAssetData.assetType || !newAssetData.amount}
+                disabled={addingAsset || !newAssetToken || !newAssetPreview.baseUnits}
                 className="metal-button primary"
               >
                 {addingAsset ? "Encrypting..." : "Add Asset"}
@@ -529,7 +848,7 @@ const App: React.FC = () => {
               <div className="asset-info">
                 <div className="info-row">
                   <span>Type:</span>
-                  <strong>{selectedAsset.assetType}</strong>
+                  <strong>{renderToken(selectedAsset)}</strong>
                 </div>
                 <div className="info-row">
                   <span>Added:</span>
@@ -537,7 +856,7 @@ const App: React.FC = () => {
                 </div>
                 <div className="info-row">
                   <span>Hedge Status:</span>
-                  <strong className={`status-badge ${selectedAsset.hedgeStatus}`}>{selectedAsset.hedgeStatus}</strong>
+                  <strong>{renderHedgeBadge(selectedAsset)}</strong>
                 </div>
               </div>
               <div className="encrypted-section">
@@ -549,8 +868,9 @@ const App: React.FC = () => {
                   className="metal-button" 
                   onClick={async () => {
                     if (decryptedAmount === null) {
-                      const decrypted = await decryptWithSignature(selectedAsset.encryptedAmount);
-                      setDecryptedAmount(decrypted);
+                      const decrypted = await decryptWithSignature([selectedAsset]);
+                      const raw = decrypted?.[selectedAsset.id];
+                      setDecryptedAmount(raw === undefined ? null : formatAmount(raw, selectedAsset.decimals));
                     } else {
                       setDecryptedAmount(null);
                     }
@@ -564,7 +884,7 @@ const App: React.FC = () => {
                 <div className="decrypted-section">
                   <h3>Decrypted Amount</h3>
                   <div className="decrypted-value">
-                    {decryptedAmount.toLocaleString()} {selectedAsset.assetType}
+                    {decryptedAmount} {symbolFor(selectedAsset)}
                   </div>
                   <div className="decryption-note">
                     <div className="warning-icon"></div>
@@ -575,24 +895,27 @@ const App: React.FC = () => {
             </div>
             <div className="modal-footer">
               <button 
-                onClick={() => hedgeAsset(selectedAsset.id, "full")}
-                disabled={selectedAsset.hedgeStatus === "full"}
+                onClick={() => { setHedgeFormAsset(selectedAsset); setSelectedAsset(null); setDecryptedAmount(null); }}
                 className="metal-button success"
               >
-                Apply Full Hedge
-              </button>
-              <button 
-                onClick={() => hedgeAsset(selectedAsset.id, "partial")}
-                disabled={selectedAsset.hedgeStatus !== "unhedged"}
-                className="metal-button warning"
-              >
-                Apply Partial Hedge
+                Add Hedge Position
               </button>
             </div>
           </div>
         </div>
       )}
 
+      {/* Hedge Position Modal */}
+      {hedgeFormAsset && (
+        <HedgeForm
+          assetType={symbolFor(hedgeFormAsset)}
+          decimals={hedgeFormAsset.decimals}
+          currentPrice={prices[symbolFor(hedgeFormAsset)]?.usd}
+          onCancel={() => setHedgeFormAsset(null)}
+          onSubmit={values => openHedge(hedgeFormAsset, values)}
+        />
+      )}
+
       {/* Transaction Status Modal */}
       {transactionStatus.visible && (
         <div className="transaction-modal">
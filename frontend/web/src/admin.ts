@@ -0,0 +1,60 @@
+// admin.ts
+import { IndexedEvent } from "./event-indexer";
+
+export const ADMIN_EVENTS = [
+  "OwnershipTransferred",
+  "GovernanceTransferred",
+  "ProviderAdded",
+  "ProviderRemoved",
+  "PauseToggled",
+  "CooldownSecondsChanged",
+  "TargetHedgeRatioChanged",
+  "AssetTargetHedgeRatioChanged",
+  "AssetTargetHedgeRatioCleared"
+];
+
+// Current provider set, replayed from ProviderAdded/ProviderRemoved in the order providers were first added
+export function replayProviders(events: IndexedEvent[]): string[] {
+  const providers = new Map<string, string>();
+  for (const event of events) {
+    if (event.source !== "treasury") continue;
+    const provider = event.args.provider as string;
+    if (event.name === "ProviderAdded") {
+      if (!providers.has(provider.toLowerCase())) providers.set(provider.toLowerCase(), provider);
+    } else if (event.name === "ProviderRemoved") {
+      providers.delete(provider.toLowerCase());
+    }
+  }
+  return [...providers.values()];
+}
+
+export function adminHistory(events: IndexedEvent[]): IndexedEvent[] {
+  return events
+    .filter(e => e.source === "treasury" && ADMIN_EVENTS.includes(e.name))
+    .sort((a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex);
+}
+
+export function describeAdminEvent(name: string, args: Record<string, unknown>): string {
+  switch (name) {
+    case "OwnershipTransferred":
+      return `Ownership ${args.previousOwner} → ${args.newOwner}`;
+    case "GovernanceTransferred":
+      return `Governance ${args.previousGovernance} → ${args.newGovernance}`;
+    case "ProviderAdded":
+      return `Provider added ${args.provider}`;
+    case "ProviderRemoved":
+      return `Provider removed ${args.provider}`;
+    case "PauseToggled":
+      return String(args.paused) === "true" ? "Treasury paused" : "Treasury unpaused";
+    case "CooldownSecondsChanged":
+      return `Cooldown ${args.oldCooldownSeconds}s → ${args.newCooldownSeconds}s`;
+    case "TargetHedgeRatioChanged":
+      return `Target hedge ratio ${args.oldRatioBps} → ${args.newRatioBps} bps`;
+    case "AssetTargetHedgeRatioChanged":
+      return `Target hedge ratio for ${args.asset} ${args.oldRatioBps} → ${args.newRatioBps} bps`;
+    case "AssetTargetHedgeRatioCleared":
+      return `Target hedge ratio for ${args.asset} reset to default`;
+    default:
+      return name;
+  }
+}
@@ -0,0 +1,86 @@
+// amounts.ts
+// Token quantities are bigints in the token's base units (wei for 18-decimal tokens), never floats:
+// a float cannot hold 1.000000000000000001 ETH, and the encrypted amounts round-trip exactly.
+
+export const MAX_UINT128 = 2n ** 128n - 1n;
+// The treasury's hedge check multiplies amounts by up to 10,000 bps inside euint128; anything larger
+// would wrap, so nothing above this is encrypted (MAX_SUBMITTED_AMOUNT on the contract)
+export const MAX_ENCRYPTED_AMOUNT = MAX_UINT128 / 10_000n;
+export const MAX_TOKEN_DECIMALS = 36;
+
+export type Rounding = "exact" | "floor" | "ceil";
+
+export class AmountError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+const DECIMAL_PATTERN = /^(\d*)(?:\.(\d*))?$/;
+
+const requireDecimals = (decimals: number) => {
+  if (!Number.isInteger(decimals) || decimals < 0 || decimals > MAX_TOKEN_DECIMALS) {
+    throw new AmountError(`Invalid token decimals: ${decimals}`);
+  }
+};
+
+// "1.5" with 18 decimals => 1500000000000000000n. Rejects signs, exponents and more fractional
+// digits than the token has, rather than rounding what the user typed.
+export function parseAmount(input: string, decimals: number): bigint {
+  requireDecimals(decimals);
+  const match = DECIMAL_PATTERN.exec(input.trim().replace(/_/g, ""));
+  if (!match || (match[1] === "" && !match[2])) throw new AmountError(`Not a decimal amount: "${input}"`);
+  const [, whole, fraction = ""] = match;
+  const significant = fraction.replace(/0+$/, "");
+  if (significant.length > decimals) {
+    throw new AmountError(`"${input}" has more than ${decimals} decimal place${decimals === 1 ? "" : "s"}`);
+  }
+  return BigInt(whole || "0") * 10n ** BigInt(decimals) + BigInt(significant.padEnd(decimals, "0") || "0");
+}
+
+// 1500000000000000000n with 18 decimals => "1.5"; trailing zeros are dropped and anything past
+// maxFractionDigits is truncated toward zero
+export function formatAmount(raw: bigint, decimals: number, maxFractionDigits = decimals): string {
+  requireDecimals(decimals);
+  const sign = raw < 0n ? "-" : "";
+  const abs = raw < 0n ? -raw : raw;
+  const unit = 10n ** BigInt(decimals);
+  const fraction = (abs % unit).toString().padStart(decimals, "0").slice(0, Math.max(maxFractionDigits, 0)).replace(/0+$/, "");
+  const whole = (abs / unit).toString();
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+// Moves an amount between decimal scales. Scaling up is always exact; scaling down throws on a
+// remainder unless a rounding direction is given.
+export function rescaleAmount(raw: bigint, fromDecimals: number, toDecimals: number, rounding: Rounding = "exact"): bigint {
+  requireDecimals(fromDecimals);
+  requireDecimals(toDecimals);
+  if (toDecimals >= fromDecimals) return raw * 10n ** BigInt(toDecimals - fromDecimals);
+  const divisor = 10n ** BigInt(fromDecimals - toDecimals);
+  const quotient = raw / divisor;
+  const remainder = raw % divisor;
+  if (remainder === 0n) return quotient;
+  switch (rounding) {
+    case "exact":
+      throw new AmountError(`${formatAmount(raw, fromDecimals)} is not representable with ${toDecimals} decimals`);
+    case "floor":
+      return raw < 0n ? quotient - 1n : quotient;
+    case "ceil":
+      return raw < 0n ? quotient : quotient + 1n;
+  }
+}
+
+// Whole-token float for pricing and charts only; precision beyond ~15 significant digits is lost
+export function amountToNumber(raw: bigint, decimals: number): number {
+  return Number(formatAmount(raw, decimals));
+}
+
+// Guards every value on its way into an encrypted input
+export function requireEncryptableAmount(raw: bigint): bigint {
+  if (raw < 0n) throw new AmountError(`Amount ${raw} is negative`);
+  if (raw > MAX_ENCRYPTED_AMOUNT) {
+    throw new AmountError(`Amount ${raw} exceeds the largest encrypted amount (${MAX_ENCRYPTED_AMOUNT})`);
+  }
+  return raw;
+}
@@ -0,0 +1,47 @@
+// assets.ts
+import { RecordCodec, RecordCollection, optionalString, requireNumber, requireString } from "./records";
+
+// Stored as JSON under asset_<id> in the UniversalAdapter
+export interface AssetRecord {
+  // Encrypted euint128 handle of the held quantity, in base units of the token
+  encryptedAmount: string;
+  // Input proof of records written before the vault; vault amounts were verified when they were stored
+  inputProof?: string;
+  // EncryptedAmountVault holding encryptedAmount and its ACL grant to the owner. Earlier records kept a handle no
+  // contract had ingested, which nobody can decrypt.
+  vault?: string;
+  // Token address, as the treasury keys its batches; absent on records written before the token registry
+  asset?: string;
+  // Token symbol when the record was written
+  assetType: string;
+  // Token decimals the amount was scaled by when it was encrypted
+  decimals: number;
+  timestamp: number;
+  owner: string;
+}
+
+export const ASSET_KEY_PREFIX = "asset_";
+export const ASSET_KEYS = "asset_keys";
+
+export const assetCodec: RecordCodec<AssetRecord> = {
+  kind: "Asset",
+  version: 3,
+  migrations: {
+    // v2 renamed amount to encryptedAmount and dropped hedgeStatus, which hedge_<id> positions replaced
+    1: ({ amount, hedgeStatus, ...rest }) => ({ ...rest, encryptedAmount: amount }),
+    // v3 amounts are in token base units; earlier ones were encrypted as whole units
+    2: record => ({ ...record, decimals: 0 })
+  },
+  validate: record => ({
+    encryptedAmount: requireString(record, "encryptedAmount"),
+    inputProof: optionalString(record, "inputProof"),
+    vault: optionalString(record, "vault"),
+    asset: optionalString(record, "asset"),
+    assetType: requireString(record, "assetType"),
+    decimals: requireNumber(record, "decimals"),
+    timestamp: requireNumber(record, "timestamp"),
+    owner: requireString(record, "owner")
+  })
+};
+
+export const ASSET_RECORDS: RecordCollection<AssetRecord> = { keyPrefix: ASSET_KEY_PREFIX, keysKey: ASSET_KEYS, codec: assetCodec };
@@ -0,0 +1,90 @@
+// batch-decryption.ts
+import { ethers } from "ethers";
+
+export interface DecryptionRequest {
+  requestId: bigint;
+  batchId: bigint;
+  stateHash: string;
+  txHash: string;
+  blockNumber: number;
+}
+
+export interface DecryptionResult {
+  requestId: bigint;
+  batchId: bigint;
+  assetAmounts: bigint[];
+  hedgeAmounts: bigint[];
+}
+
+export interface LabelledBatchAmount {
+  asset: string;
+  assetAmount: bigint;
+  hedgeAmount: bigint;
+}
+
+const toDecryptionResult = (args: ethers.Result): DecryptionResult => ({
+  requestId: args.requestId,
+  batchId: args.batchId,
+  assetAmounts: [...args.assetAmounts],
+  hedgeAmounts: [...args.hedgeAmounts]
+});
+
+// DecryptionCompleted arrays follow the batch asset registry order
+export function labelDecryptionResult(assets: string[], result: DecryptionResult): LabelledBatchAmount[] {
+  if (assets.length !== result.assetAmounts.length || assets.length !== result.hedgeAmounts.length) {
+    throw new Error(`Batch ${result.batchId} has ${assets.length} assets but decryption returned ${result.assetAmounts.length}`);
+  }
+  return assets.map((asset, i) => ({
+    asset,
+    assetAmount: result.assetAmounts[i],
+    hedgeAmount: result.hedgeAmounts[i]
+  }));
+}
+
+export async function getLabelledDecryption(contract: ethers.Contract, result: DecryptionResult): Promise<LabelledBatchAmount[]> {
+  const assets: string[] = await contract.getBatchAssets(result.batchId);
+  return labelDecryptionResult([...assets], result);
+}
+
+// Subscribes before searching past events, so an answer mined in between is not missed; whichever sees it first
+// settles. The answer cannot land before the request, so past events are only searched from the request's block.
+export function waitForDecryption(
+  contract: ethers.Contract,
+  request: Pick<DecryptionRequest, "requestId" | "blockNumber">,
+  options: { timeoutMs?: number; signal?: AbortSignal } = {}
+): Promise<DecryptionResult> {
+  const { requestId } = request;
+  const filter = contract.filters.DecryptionCompleted(requestId);
+
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const settle = (outcome: () => void) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+      // Unsubscribed before the caller hears back
+      subscribed.then(() => contract.off(filter, listener)).catch(() => {}).then(outcome);
+    };
+    // Contracts pass the event payload last. Not checked with instanceof: Hardhat tasks load a second copy of ethers.
+    const listener = (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ethers.ContractEventPayload;
+      settle(() => resolve(toDecryptionResult(payload.args)));
+    };
+    const onAbort = () => settle(() => reject(new Error(`Stopped waiting for DecryptionCompleted(${requestId})`)));
+    const timer = setTimeout(
+      () => settle(() => reject(new Error(`Timed out waiting for DecryptionCompleted(${requestId})`))),
+      options.timeoutMs ?? 10 * 60 * 1000
+    );
+    const subscribed = contract.on(filter, listener);
+    if (options.signal?.aborted) return onAbort();
+    options.signal?.addEventListener("abort", onAbort);
+
+    subscribed
+      .then(() => contract.queryFilter(filter, request.blockNumber))
+      .then(past => {
+        if (past.length > 0) settle(() => resolve(toDecryptionResult((past[0] as ethers.EventLog).args)));
+      })
+      .catch(e => settle(() => reject(e)));
+  });
+}
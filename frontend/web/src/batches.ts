@@ -0,0 +1,102 @@
+// batches.ts
+import { IndexedEvent } from "./event-indexer";
+
+export type BatchStatus = "open" | "closed" | "decryption-pending" | "decrypted";
+
+export interface BatchSubmissionEntry {
+  kind: "asset" | "hedge";
+  provider: string;
+  asset: string;
+  blockNumber: number;
+  txHash: string;
+}
+
+export interface BatchSnapshotEntry {
+  asset: string;
+  assetAmount: bigint;
+  hedgeAmount: bigint;
+}
+
+export interface BatchSummary {
+  batchId: bigint;
+  status: BatchStatus;
+  openedBlock: number | null;
+  closedBlock: number | null;
+  assets: string[];
+  submissions: BatchSubmissionEntry[];
+  decryptionRequestId: bigint | null;
+  // Block of the latest DecryptionRequested; its answer cannot land earlier
+  decryptionRequestBlock: number | null;
+  snapshot: BatchSnapshotEntry[] | null;
+}
+
+const getBatch = (batches: Map<string, BatchSummary>, batchId: string): BatchSummary => {
+  let batch = batches.get(batchId);
+  if (!batch) {
+    batch = {
+      batchId: BigInt(batchId),
+      status: "open",
+      openedBlock: null,
+      closedBlock: null,
+      assets: [],
+      submissions: [],
+      decryptionRequestId: null,
+      decryptionRequestBlock: null,
+      snapshot: null
+    };
+    batches.set(batchId, batch);
+  }
+  return batch;
+};
+
+// Replays indexed treasury events into per-batch summaries, newest batch first.
+// Asset order mirrors the contract registry: first successful submission wins.
+export function buildBatchTimeline(events: IndexedEvent[]): BatchSummary[] {
+  const batches = new Map<string, BatchSummary>();
+
+  for (const event of events) {
+    if (event.source !== "treasury" || event.args.batchId === undefined) continue;
+    const batch = getBatch(batches, event.args.batchId as string);
+
+    switch (event.name) {
+      case "BatchOpened":
+        batch.openedBlock = event.blockNumber;
+        break;
+      case "BatchClosed":
+        batch.closedBlock = event.blockNumber;
+        if (batch.status === "open") batch.status = "closed";
+        break;
+      case "AssetSubmitted":
+      case "HedgeSubmitted": {
+        const asset = event.args.asset as string;
+        if (!batch.assets.some(a => a.toLowerCase() === asset.toLowerCase())) batch.assets.push(asset);
+        batch.submissions.push({
+          kind: event.name === "AssetSubmitted" ? "asset" : "hedge",
+          provider: event.args.provider as string,
+          asset,
+          blockNumber: event.blockNumber,
+          txHash: event.txHash
+        });
+        break;
+      }
+      case "DecryptionRequested":
+        batch.decryptionRequestId = BigInt(event.args.requestId as string);
+        batch.decryptionRequestBlock = event.blockNumber;
+        if (batch.status !== "decrypted") batch.status = "decryption-pending";
+        break;
+      case "DecryptionCompleted": {
+        const assetAmounts = event.args.assetAmounts as string[];
+        const hedgeAmounts = event.args.hedgeAmounts as string[];
+        batch.status = "decrypted";
+        batch.snapshot = batch.assets.map((asset, i) => ({
+          asset,
+          assetAmount: BigInt(assetAmounts[i] ?? 0),
+          hedgeAmount: BigInt(hedgeAmounts[i] ?? 0)
+        }));
+        break;
+      }
+    }
+  }
+
+  return [...batches.values()].sort((a, b) => (a.batchId < b.batchId ? 1 : -1));
+}
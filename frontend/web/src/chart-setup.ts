@@ -0,0 +1,40 @@
+// chart-setup.ts
+import {
+  ArcElement,
+  CategoryScale,
+  Chart as ChartJS,
+  Filler,
+  Legend,
+  LinearScale,
+  LineElement,
+  PointElement,
+  Tooltip
+} from "chart.js";
+
+// Tree-shaken Chart.js: every chart type used by the dashboard needs its elements registered once
+ChartJS.register(ArcElement, CategoryScale, Filler, Legend, LinearScale, LineElement, PointElement, Tooltip);
+
+ChartJS.defaults.color = "#bdc3c7";
+ChartJS.defaults.borderColor = "rgba(189, 195, 199, 0.15)";
+
+// One colour per asset type, in the dashboard's gold/silver/copper theme
+export const SYMBOL_COLORS: Record<string, string> = {
+  ETH: "#f1c40f",
+  BTC: "#d35400",
+  WBTC: "#e67e22",
+  USDC: "#3498db",
+  DAI: "#27ae60",
+  UNI: "#e84393",
+  LINK: "#2e86de",
+  Other: "#bdc3c7"
+};
+
+export const colorFor = (symbol: string) => SYMBOL_COLORS[symbol] ?? SYMBOL_COLORS.Other;
+
+export const formatUsdTick = (value: number | string) => {
+  const usd = Math.abs(Number(value));
+  const sign = Number(value) < 0 ? "-" : "";
+  if (usd >= 1_000_000) return `${sign}$${(usd / 1_000_000).toFixed(1)}M`;
+  if (usd >= 1_000) return `${sign}$${(usd / 1_000).toFixed(0)}k`;
+  return `${sign}$${usd.toFixed(0)}`;
+};
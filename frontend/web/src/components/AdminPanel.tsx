@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { useAccount } from 'wagmi';
+import { adminHistory, describeAdminEvent, replayProviders } from '../admin';
+import { IndexedEvent } from '../event-indexer';
+import { getAppIndexer } from '../indexer';
+import {
+  AdminSettings,
+  TreasuryEventLog,
+  addProvider,
+  getAdminSettings,
+  getTreasuryReadOnly,
+  getTreasuryWithSigner,
+  removeProvider,
+  setCooldownSeconds,
+  setPaused,
+  transferOwnership
+} from '../treasury';
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+const AdminPanel: React.FC = () => {
+  const { address, isConnected } = useAccount();
+  const [settings, setSettings] = useState<AdminSettings | null>(null);
+  const [providers, setProviders] = useState<string[]>([]);
+  const [history, setHistory] = useState<IndexedEvent[]>([]);
+  const [lastEvents, setLastEvents] = useState<TreasuryEventLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newProvider, setNewProvider] = useState("");
+  const [cooldownInput, setCooldownInput] = useState("");
+  const [newOwner, setNewOwner] = useState("");
+
+  const isOwner = !!settings && !!address && settings.owner.toLowerCase() === address.toLowerCase();
+  const isGovernance = !!settings && !!address && settings.governance.toLowerCase() === address.toLowerCase();
+
+  const loadAdminState = async () => {
+    setLoading(true);
+    try {
+      const contract = await getTreasuryReadOnly();
+      if (!contract) throw new Error("Treasury contract is not available");
+      const current = await getAdminSettings(contract);
+      setSettings(current);
+      setCooldownInput(current.cooldownSeconds.toString());
+
+      const indexer = await getAppIndexer();
+      await indexer.sync();
+      const events = await indexer.getEvents();
+      setProviders(replayProviders(events));
+      setHistory(adminHistory(events));
+    } catch (e) {
+      console.error("Error loading admin state:", e);
+      setError(e instanceof Error ? e.message : "Failed to load admin state");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadAdminState();
+  }, []);
+
+  const runAdminAction = async (action: (contract: ethers.Contract) => Promise<TreasuryEventLog[]>): Promise<boolean> => {
+    setBusy(true);
+    setError(null);
+    try {
+      const contract = await getTreasuryWithSigner();
+      setLastEvents(await action(contract));
+      await loadAdminState();
+      return true;
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Transaction failed");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddProvider = () => {
+    if (!ethers.isAddress(newProvider)) {
+      setError("Enter a valid provider address");
+      return;
+    }
+    runAdminAction(contract => addProvider(contract, newProvider)).then(ok => ok && setNewProvider(""));
+  };
+
+  const handleCooldown = () => {
+    if (!/^\d+$/.test(cooldownInput)) {
+      setError("Cooldown must be a whole number of seconds");
+      return;
+    }
+    runAdminAction(contract => setCooldownSeconds(contract, BigInt(cooldownInput)));
+  };
+
+  const handleTransferOwnership = () => {
+    if (!window.confirm(`Transfer treasury ownership to ${newOwner}? You will lose access to this console.`)) return;
+    runAdminAction(contract => transferOwnership(contract, newOwner)).then(ok => ok && setNewOwner(""));
+  };
+
+  if (loading && !settings) return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card full-width">
+        <div className="panel-content"><div className="no-data"><p>Loading admin state...</p></div></div>
+      </div>
+    </div>
+  );
+
+  if (!isConnected || !isOwner) return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card full-width">
+        <div className="panel-header"><h2>Admin Console</h2></div>
+        <div className="panel-content">
+          <div className="no-data">
+            <p>{!isConnected ? "Connect the owner wallet to manage the treasury" : "Only the treasury owner can use the admin console"}</p>
+            {settings && <p className="asset-id">Owner: {settings.owner}</p>}
+            {error && <p>{error}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card">
+        <div className="panel-header">
+          <h2>Contract Settings</h2>
+          <button onClick={loadAdminState} className="refresh-btn metal-button" disabled={loading || busy}>
+            {loading ? "Syncing..." : "Refresh"}
+          </button>
+        </div>
+        <div className="panel-content">
+          {error && <div className="admin-error">{error}</div>}
+          <div className="admin-row">
+            <span>Status: <span className={`status-badge ${settings!.paused ? "unhedged" : "full"}`}>{settings!.paused ? "Paused" : "Active"}</span></span>
+            <button className="metal-button" disabled={busy} onClick={() => runAdminAction(contract => setPaused(contract, !settings!.paused))}>
+              {settings!.paused ? "Unpause" : "Pause"}
+            </button>
+          </div>
+          <div className="form-group">
+            <label>Cooldown (seconds)</label>
+            <div className="admin-row">
+              <input className="metal-input" value={cooldownInput} onChange={e => setCooldownInput(e.target.value)} />
+              <button className="metal-button" disabled={busy} onClick={handleCooldown}>Save</button>
+            </div>
+          </div>
+          <div className="admin-row"><span>Governance</span><span className="asset-id">{settings!.governance}</span></div>
+          {isGovernance ? (
+            <div className="form-group">
+              <label>Transfer Ownership</label>
+              <div className="admin-row">
+                <input className="metal-input" placeholder="0x..." value={newOwner} onChange={e => setNewOwner(e.target.value)} />
+                <button className="metal-button" disabled={busy || !newOwner} onClick={handleTransferOwnership}>Transfer</button>
+              </div>
+            </div>
+          ) : (
+            <p className="admin-note">Ownership changes and decryption requests go through governance proposals.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="panel metal-card">
+        <div className="panel-header"><h2>Providers</h2></div>
+        <div className="panel-content">
+          <div className="admin-row">
+            <input className="metal-input" placeholder="Provider address" value={newProvider} onChange={e => setNewProvider(e.target.value)} />
+            <button className="metal-button" disabled={busy} onClick={handleAddProvider}>Add</button>
+          </div>
+          {providers.length === 0 ? (
+            <div className="no-data"><p>No providers registered</p></div>
+          ) : providers.map(provider => (
+            <div className="admin-row" key={provider}>
+              <span className="asset-id">{provider}</span>
+              <button className="metal-button" disabled={busy} onClick={() => runAdminAction(contract => removeProvider(contract, provider))}>Remove</button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="panel metal-card full-width">
+        <div className="panel-header"><h2>Admin Events</h2></div>
+        <div className="panel-content">
+          {lastEvents.length > 0 && (
+            <div className="admin-last-events">
+              <h3>Last transaction</h3>
+              {lastEvents.map((event, i) => (
+                <div className="admin-event" key={`${event.txHash}-${i}`}>
+                  {describeAdminEvent(event.name, event.args)}
+                  <span className="asset-id"> · {shortAddress(event.txHash)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+          {history.length === 0 ? (
+            <div className="no-data"><p>No admin events indexed yet</p></div>
+          ) : history.map(event => (
+            <div className="admin-event" key={event.id}>
+              {describeAdminEvent(event.name, event.args)}
+              <span className="asset-id"> · block {event.blockNumber}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminPanel;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { formatAmount } from '../amounts';
+import { tokenRegistry } from '../contract';
+import { getAppIndexer } from '../indexer';
+import { getLabelledDecryption, waitForDecryption } from '../batch-decryption';
+import { BatchStatus, BatchSummary, buildBatchTimeline } from '../batches';
+import { TokenInfo } from '../tokens';
+import { getTreasuryReadOnly, hedgeRatioPercent } from '../treasury';
+
+const STATUS_LABELS: Record<BatchStatus, string> = {
+  'open': 'Open',
+  'closed': 'Closed',
+  'decryption-pending': 'Decryption Pending',
+  'decrypted': 'Decrypted'
+};
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+const BatchTimeline: React.FC = () => {
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [tokens, setTokens] = useState<Record<string, TokenInfo>>({});
+
+  const assetLabel = (asset: string) => tokens[asset.toLowerCase()]?.symbol ?? shortAddress(asset);
+
+  // Snapshot amounts are in base units; shown in whole tokens once the token's decimals are known
+  const formatSnapshotAmount = (asset: string, amount: bigint) => {
+    const token = tokens[asset.toLowerCase()];
+    return token ? formatAmount(amount, token.decimals, 6) : amount.toLocaleString();
+  };
+
+  const loadBatches = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const indexer = await getAppIndexer();
+      await indexer.sync();
+      const timeline = buildBatchTimeline(await indexer.getEvents());
+      setBatches(timeline);
+      const assets = timeline.flatMap(batch => [...batch.submissions.map(s => s.asset), ...(batch.snapshot ?? []).map(entry => entry.asset)]);
+      tokenRegistry.resolveAll(assets).then(setTokens);
+    } catch (e) {
+      console.error("Error loading batch history:", e);
+      setError(e instanceof Error ? e.message : "Failed to load batch history");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
+  // Pending requests are answered by the oracle while the page is open; each answer is labelled against the
+  // treasury's asset registry as it lands, without waiting for the next index sync
+  const pending = batches.filter(batch => batch.status === "decryption-pending");
+  const pendingKey = pending.map(batch => `${batch.batchId}:${batch.decryptionRequestId}`).join(",");
+  useEffect(() => {
+    if (pending.length === 0) return;
+    const controller = new AbortController();
+    const watch = async (batch: BatchSummary) => {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury || batch.decryptionRequestId === null || batch.decryptionRequestBlock === null) return;
+      const request = { requestId: batch.decryptionRequestId, blockNumber: batch.decryptionRequestBlock };
+      const result = await waitForDecryption(treasury, request, { signal: controller.signal });
+      const snapshot = await getLabelledDecryption(treasury, result);
+      if (controller.signal.aborted) return;
+      setBatches(prev => prev.map(b => (b.batchId === batch.batchId ? { ...b, status: "decrypted", snapshot } : b)));
+    };
+    pending.forEach(batch => watch(batch).catch(e => {
+      if (!controller.signal.aborted) console.error(`Error waiting for batch ${batch.batchId} decryption:`, e);
+    }));
+    return () => controller.abort();
+  }, [pendingKey]);
+
+  return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card full-width">
+        <div className="panel-header">
+          <h2>Batch Timeline</h2>
+          <button onClick={loadBatches} className="refresh-btn metal-button" disabled={loading}>
+            {loading ? "Syncing..." : "Refresh"}
+          </button>
+        </div>
+        <div className="panel-content">
+          {error && <div className="no-data"><p>{error}</p></div>}
+          {!error && !loading && batches.length === 0 && (
+            <div className="no-data"><p>No batches indexed yet</p></div>
+          )}
+          <div className="batch-timeline">
+            {batches.map(batch => {
+              const key = batch.batchId.toString();
+              const isExpanded = expanded === key;
+              return (
+                <div className="batch-entry" key={key}>
+                  <div className="batch-summary" onClick={() => setExpanded(isExpanded ? null : key)}>
+                    <div className="batch-id">Batch #{key}</div>
+                    <span className={`status-badge batch-${batch.status}`}>{STATUS_LABELS[batch.status]}</span>
+                    <div className="batch-meta">
+                      {batch.assets.length} assets · {batch.submissions.length} submissions
+                      {batch.openedBlock !== null && ` · opened at block ${batch.openedBlock}`}
+                      {batch.closedBlock !== null && ` · closed at block ${batch.closedBlock}`}
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="batch-details">
+                      <h3>Submissions</h3>
+                      <div className="assets-table batch-table">
+                        <div className="table-header">
+                          <div className="header-cell">Type</div>
+                          <div className="header-cell">Asset</div>
+                          <div className="header-cell">Provider</div>
+                          <div className="header-cell">Block</div>
+                        </div>
+                        {batch.submissions.length === 0 ? (
+                          <div className="no-data"><p>No submissions in this batch</p></div>
+                        ) : batch.submissions.map(submission => (
+                          <div className="table-row" key={`${submission.txHash}-${submission.kind}`}>
+                            <div className="table-cell">{submission.kind === "asset" ? "Asset" : "Hedge"}</div>
+                            <div className="table-cell asset-id" title={submission.asset}>{assetLabel(submission.asset)}</div>
+                            <div className="table-cell asset-id">{shortAddress(submission.provider)}</div>
+                            <div className="table-cell">{submission.blockNumber}</div>
+                          </div>
+                        ))}
+                      </div>
+
+                      {batch.snapshot && (
+                        <>
+                          <h3>Decrypted Snapshot</h3>
+                          <div className="assets-table batch-table">
+                            <div className="table-header">
+                              <div className="header-cell">Asset</div>
+                              <div className="header-cell">Amount</div>
+                              <div className="header-cell">Hedged</div>
+                              <div className="header-cell">Hedge Ratio</div>
+                            </div>
+                            {batch.snapshot.map(entry => (
+                              <div className="table-row" key={entry.asset}>
+                                <div className="table-cell asset-id" title={entry.asset}>{assetLabel(entry.asset)}</div>
+                                <div className="table-cell">{formatSnapshotAmount(entry.asset, entry.assetAmount)}</div>
+                                <div className="table-cell">{formatSnapshotAmount(entry.asset, entry.hedgeAmount)}</div>
+                                <div className="table-cell">
+                                  {entry.assetAmount > 0n ? `${hedgeRatioPercent(entry.assetAmount, entry.hedgeAmount).toFixed(2)}%` : "-"}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchTimeline;
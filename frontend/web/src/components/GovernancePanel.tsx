@@ -0,0 +1,296 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { useAccount } from 'wagmi';
+import {
+  GovernanceCall,
+  GovernanceProposal,
+  VoteSupport,
+  VotingPower,
+  castVote,
+  delegateVotes,
+  describeCall,
+  executeProposal,
+  getGovernorReadOnly,
+  getGovernorWithSigner,
+  getVotingPower,
+  hasVoted,
+  listProposals,
+  proposeTreasuryCalls,
+  queueProposal
+} from '../governance';
+import { GovernanceAction } from '../treasury';
+
+type WizardStep = "actions" | "describe" | "review";
+
+const ACTION_LABELS: Record<GovernanceAction, string> = {
+  requestBatchDecryption: "Request batch decryption",
+  transferOwnership: "Transfer ownership",
+  setGovernance: "Set governance"
+};
+
+const STATE_BADGES: Record<string, string> = {
+  Pending: "partial",
+  Active: "partial",
+  Succeeded: "full",
+  Queued: "full",
+  Executed: "full",
+  Defeated: "unhedged",
+  Canceled: "unhedged",
+  Expired: "unhedged"
+};
+
+const describeGovernanceCall = (call: GovernanceCall) => `${ACTION_LABELS[call.action]} ${call.args.map(String).join(", ")}`;
+
+const GovernancePanel: React.FC = () => {
+  const { address } = useAccount();
+  const [proposals, setProposals] = useState<GovernanceProposal[]>([]);
+  const [voted, setVoted] = useState<Record<string, boolean>>({});
+  const [power, setPower] = useState<VotingPower | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [step, setStep] = useState<WizardStep>("actions");
+  const [calls, setCalls] = useState<GovernanceCall[]>([]);
+  const [action, setAction] = useState<GovernanceAction>("requestBatchDecryption");
+  const [argument, setArgument] = useState("");
+  const [description, setDescription] = useState("");
+
+  const loadGovernance = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const governor = await getGovernorReadOnly();
+      const list = await listProposals(governor);
+      setProposals(list);
+      if (address) {
+        setPower(await getVotingPower(governor, address));
+        const flags = await Promise.all(list.map(p => hasVoted(governor, p.proposalId, address)));
+        setVoted(Object.fromEntries(list.map((p, i) => [p.proposalId.toString(), flags[i]])));
+      }
+    } catch (e) {
+      console.error("Error loading governance:", e);
+      setError(e instanceof Error ? e.message : "Failed to load governance");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadGovernance();
+  }, [address]);
+
+  const withBusy = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await work();
+      await loadGovernance();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Governance transaction failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAddCall = () => {
+    setError(null);
+    if (action === "requestBatchDecryption") {
+      if (!/^\d+$/.test(argument)) return setError("Enter a batch id");
+      setCalls([...calls, { action, args: [BigInt(argument)] }]);
+    } else {
+      if (!ethers.isAddress(argument) || argument === ethers.ZeroAddress) return setError("Enter a valid address");
+      setCalls([...calls, { action, args: [argument] }]);
+    }
+    setArgument("");
+  };
+
+  const handlePropose = () => withBusy(async () => {
+    await proposeTreasuryCalls(await getGovernorWithSigner(), calls, description.trim());
+    setCalls([]);
+    setDescription("");
+    setStep("actions");
+  });
+
+  const handleVote = (proposal: GovernanceProposal, support: VoteSupport) => withBusy(async () => {
+    await castVote(await getGovernorWithSigner(), proposal.proposalId, support);
+  });
+
+  const handleDelegate = () => withBusy(async () => {
+    if (!address) return;
+    await delegateVotes(await getGovernorReadOnly(), address);
+  });
+
+  const handleQueue = (proposal: GovernanceProposal) => withBusy(async () => {
+    await queueProposal(await getGovernorWithSigner(), proposal);
+  });
+
+  const handleExecute = (proposal: GovernanceProposal) => withBusy(async () => {
+    await executeProposal(await getGovernorWithSigner(), proposal);
+  });
+
+  const voting = proposals.filter(p => p.state === "Pending" || p.state === "Active");
+  const settled = proposals.filter(p => p.state !== "Pending" && p.state !== "Active");
+  const now = BigInt(Math.floor(Date.now() / 1000));
+
+  const renderHeader = (proposal: GovernanceProposal) => (
+    <div className="batch-summary">
+      <div className="batch-id">#{proposal.proposalId.toString().substring(0, 8)}</div>
+      <span>{proposal.description}</span>
+      <span className={`status-badge ${STATE_BADGES[proposal.state]}`}>{proposal.state}</span>
+      <div className="batch-meta">
+        {proposal.targets.map((target, i) => describeCall(target, proposal.calldatas[i])).join("; ")}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card">
+        <div className="panel-header">
+          <h2>Voting Power</h2>
+          <button onClick={loadGovernance} className="refresh-btn metal-button" disabled={loading || busy}>
+            {loading ? "Syncing..." : "Refresh"}
+          </button>
+        </div>
+        <div className="panel-content">
+          {error && <div className="admin-error">{error}</div>}
+          {!address ? (
+            <div className="no-data"><p>Connect a wallet to vote</p></div>
+          ) : power && (
+            <>
+              <div className="admin-row"><span>Balance</span><span>{ethers.formatEther(power.balance)} {power.symbol}</span></div>
+              <div className="admin-row"><span>Votes</span><span>{ethers.formatEther(power.votes)} {power.symbol}</span></div>
+              <div className="admin-row"><span>Delegate</span><span className="asset-id">{power.delegate}</span></div>
+              {power.delegate.toLowerCase() !== address.toLowerCase() && (
+                <>
+                  <p className="admin-note">Tokens only count towards votes once delegated.</p>
+                  <button className="metal-button" disabled={busy} onClick={handleDelegate}>Delegate to Self</button>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="panel metal-card">
+        <div className="panel-header"><h2>New Proposal</h2></div>
+        <div className="panel-content">
+          {step === "actions" && (
+            <>
+              <div className="form-group">
+                <label>Action</label>
+                <select className="metal-select" value={action} onChange={e => setAction(e.target.value as GovernanceAction)}>
+                  {(Object.keys(ACTION_LABELS) as GovernanceAction[]).map(key => (
+                    <option key={key} value={key}>{ACTION_LABELS[key]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label>{action === "requestBatchDecryption" ? "Batch id" : "Address"}</label>
+                <input className="metal-input" value={argument} onChange={e => setArgument(e.target.value)} />
+              </div>
+              <div className="action-buttons">
+                <button className="metal-button" onClick={handleAddCall}>Add Action</button>
+                <button className="metal-button" disabled={calls.length === 0} onClick={() => setStep("describe")}>Next</button>
+              </div>
+              {calls.map((call, i) => (
+                <div className="admin-row" key={i}>
+                  <span>{describeGovernanceCall(call)}</span>
+                  <button className="metal-button" onClick={() => setCalls(calls.filter((_, j) => j !== i))}>Remove</button>
+                </div>
+              ))}
+            </>
+          )}
+          {step === "describe" && (
+            <>
+              <div className="form-group">
+                <label>Description</label>
+                <textarea className="metal-input" rows={4} value={description} onChange={e => setDescription(e.target.value)} />
+              </div>
+              <div className="action-buttons">
+                <button className="metal-button" onClick={() => setStep("actions")}>Back</button>
+                <button className="metal-button" disabled={!description.trim()} onClick={() => setStep("review")}>Review</button>
+              </div>
+            </>
+          )}
+          {step === "review" && (
+            <>
+              <p>{description.trim()}</p>
+              {calls.map((call, i) => <div className="admin-event" key={i}>{describeGovernanceCall(call)}</div>)}
+              <p className="admin-note">Once it passes, the proposal is queued in the timelock before it can be executed.</p>
+              <div className="action-buttons">
+                <button className="metal-button" disabled={busy} onClick={() => setStep("describe")}>Back</button>
+                <button className="metal-button" disabled={busy || !address} onClick={handlePropose}>Submit Proposal</button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="panel metal-card full-width">
+        <div className="panel-header"><h2>Open Votes</h2></div>
+        <div className="panel-content">
+          {voting.length === 0 ? (
+            <div className="no-data"><p>No proposals are open for voting</p></div>
+          ) : voting.map(proposal => {
+            const id = proposal.proposalId.toString();
+            const canVote = proposal.state === "Active" && !!address && !voted[id];
+            return (
+              <div className="batch-entry" key={id}>
+                {renderHeader(proposal)}
+                <div className="batch-details">
+                  <div className="admin-row"><span>For</span><span>{ethers.formatEther(proposal.votes.for)}</span></div>
+                  <div className="admin-row"><span>Against</span><span>{ethers.formatEther(proposal.votes.against)}</span></div>
+                  <div className="admin-row"><span>Abstain</span><span>{ethers.formatEther(proposal.votes.abstain)}</span></div>
+                  <div className="admin-row"><span>Quorum</span><span>{proposal.state === "Pending" ? "—" : ethers.formatEther(proposal.quorum)}</span></div>
+                  <div className="admin-row"><span>Voting blocks</span><span>{proposal.voteStart.toString()} – {proposal.voteEnd.toString()}</span></div>
+                </div>
+                <div className="action-buttons safe-actions">
+                  {canVote ? (
+                    <>
+                      <button className="metal-button" disabled={busy} onClick={() => handleVote(proposal, VoteSupport.For)}>For</button>
+                      <button className="metal-button" disabled={busy} onClick={() => handleVote(proposal, VoteSupport.Against)}>Against</button>
+                      <button className="metal-button" disabled={busy} onClick={() => handleVote(proposal, VoteSupport.Abstain)}>Abstain</button>
+                    </>
+                  ) : (
+                    <span className="admin-note">{voted[id] ? "You have voted" : "Voting has not started"}</span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="panel metal-card full-width">
+        <div className="panel-header"><h2>Queue &amp; Execute</h2></div>
+        <div className="panel-content">
+          {settled.length === 0 ? (
+            <div className="no-data"><p>No settled proposals</p></div>
+          ) : settled.map(proposal => {
+            const ready = proposal.state === "Queued" && now >= proposal.eta;
+            return (
+              <div className="batch-entry" key={proposal.proposalId.toString()}>
+                {renderHeader(proposal)}
+                <div className="action-buttons safe-actions">
+                  {proposal.state === "Succeeded" && (
+                    <button className="metal-button" disabled={busy} onClick={() => handleQueue(proposal)}>Queue</button>
+                  )}
+                  {proposal.state === "Queued" && (
+                    <>
+                      <span className="admin-note">Executable after {new Date(Number(proposal.eta) * 1000).toLocaleString()}</span>
+                      <button className="metal-button" disabled={busy || !ready} onClick={() => handleExecute(proposal)}>Execute</button>
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GovernancePanel;
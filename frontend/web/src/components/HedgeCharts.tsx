@@ -0,0 +1,112 @@
+import React, { useMemo, useState } from 'react';
+import { Line } from 'react-chartjs-2';
+import { colorFor, formatUsdTick } from '../chart-setup';
+import historyJson from '../price-history.json';
+import { HedgePosition } from '../hedges';
+import { Exposure, compositionSeries, hedgePnlSeries, payoffCurve } from '../payoff';
+import { AssetPrice } from '../prices';
+import { PriceHistory } from '../risk';
+
+interface HedgeChartsProps {
+  exposures: Exposure[];
+  hedges: HedgePosition[];
+  notionals: Record<string, number>;
+  prices: Record<string, AssetPrice>;
+}
+
+const history: PriceHistory = historyJson;
+
+const usdAxis = { ticks: { callback: formatUsdTick } };
+
+const HedgeCharts: React.FC<HedgeChartsProps> = ({ exposures, hedges, notionals, prices }) => {
+  const [movedSymbol, setMovedSymbol] = useState("all");
+
+  const symbols = useMemo(() => [...new Set(exposures.map(e => e.symbol))], [exposures]);
+
+  const payoff = useMemo(
+    () => payoffCurve(exposures, hedges, notionals, prices, undefined, movedSymbol === "all" ? undefined : [movedSymbol]),
+    [exposures, hedges, notionals, prices, movedSymbol]
+  );
+  const composition = useMemo(() => compositionSeries(exposures, history, prices), [exposures, prices]);
+  const pnl = useMemo(() => hedgePnlSeries(hedges, notionals, history, prices), [hedges, notionals, prices]);
+
+  if (exposures.length === 0) {
+    return (
+      <div className="panel metal-card full-width">
+        <h2>Hedge Performance</h2>
+        <div className="panel-content">
+          <div className="no-data"><p>Decrypt holdings to chart composition, payoffs and hedge PnL</p></div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="panel metal-card full-width">
+      <div className="panel-header">
+        <h2>Hedge Performance</h2>
+        <select className="metal-select risk-confidence" value={movedSymbol} onChange={e => setMovedSymbol(e.target.value)}>
+          <option value="all">Move all assets</option>
+          {symbols.map(symbol => <option key={symbol} value={symbol}>Move {symbol} only</option>)}
+        </select>
+      </div>
+      <div className="panel-content">
+        <div className="hedge-charts">
+          <div className="hedge-chart">
+            <h3>Payoff: Value vs Price Move</h3>
+            <Line
+              data={{
+                labels: payoff.map(point => `${Math.round(point.move * 100)}%`),
+                datasets: [
+                  { label: "Unhedged", data: payoff.map(point => point.unhedgedUsd), borderColor: "#bdc3c7", pointRadius: 0 },
+                  { label: "With hedges", data: payoff.map(point => point.hedgedUsd), borderColor: "#f1c40f", pointRadius: 0 }
+                ]
+              }}
+              options={{ responsive: true, interaction: { mode: "index", intersect: false }, scales: { y: usdAxis } }}
+            />
+          </div>
+          <div className="hedge-chart">
+            <h3>Cumulative Hedge PnL</h3>
+            <Line
+              data={{
+                labels: pnl.labels,
+                datasets: [{
+                  label: "Open hedges, net of cost",
+                  data: pnl.values,
+                  borderColor: "#27ae60",
+                  backgroundColor: "rgba(39, 174, 96, 0.15)",
+                  fill: "origin",
+                  pointRadius: 0
+                }]
+              }}
+              options={{ responsive: true, interaction: { mode: "index", intersect: false }, scales: { y: usdAxis } }}
+            />
+          </div>
+          <div className="hedge-chart full-width">
+            <h3>Composition Over Time</h3>
+            <Line
+              data={{
+                labels: composition.labels,
+                datasets: Object.entries(composition.bySymbol).map(([symbol, values], i) => ({
+                  label: symbol,
+                  data: values,
+                  borderColor: colorFor(symbol),
+                  backgroundColor: colorFor(symbol),
+                  // Stacked areas: each symbol fills down to the one below it
+                  fill: i === 0 ? "origin" : "-1",
+                  pointRadius: 0
+                }))
+              }}
+              options={{ responsive: true, interaction: { mode: "index", intersect: false }, scales: { y: { ...usdAxis, stacked: true } } }}
+            />
+          </div>
+        </div>
+        <p className="price-note">
+          Today's decrypted holdings and open hedges replayed over {history.dates.length} days of sample prices, ending at the current {Object.values(prices)[0]?.source ?? "price source"} quotes. Hedges with encrypted notionals are left out.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default HedgeCharts;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { parseAmount, requireEncryptableAmount } from '../amounts';
+import { HedgeInstrument, INSTRUMENT_LABELS, OptionType } from '../hedges';
+
+export interface HedgeFormValues {
+  instrument: HedgeInstrument;
+  // In base units of the asset
+  notional: bigint;
+  entryPrice: number;
+  optionType?: OptionType;
+  expiry?: number;
+  venue: string;
+  cost: number;
+}
+
+interface HedgeFormProps {
+  assetType: string;
+  decimals: number;
+  currentPrice?: number;
+  onCancel: () => void;
+  onSubmit: (values: HedgeFormValues) => Promise<void>;
+}
+
+const HedgeForm: React.FC<HedgeFormProps> = ({ assetType, decimals, currentPrice, onCancel, onSubmit }) => {
+  const [instrument, setInstrument] = useState<HedgeInstrument>("perp");
+  const [notional, setNotional] = useState("");
+  const [entryPrice, setEntryPrice] = useState(currentPrice !== undefined ? String(currentPrice) : "");
+  const [optionType, setOptionType] = useState<OptionType>("put");
+  const [expiry, setExpiry] = useState("");
+  const [venue, setVenue] = useState("");
+  const [cost, setCost] = useState("0");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async () => {
+    setError(null);
+    let amount: bigint;
+    try {
+      amount = requireEncryptableAmount(parseAmount(notional, decimals));
+    } catch (e) {
+      setError(`Notional: ${e instanceof Error ? e.message : String(e)}`);
+      return;
+    }
+    if (amount <= 0n) { setError("Notional must be positive"); return; }
+    const price = Number(entryPrice);
+    if (!Number.isFinite(price) || price <= 0) { setError(`${instrument === "option" ? "Strike" : "Entry price"} must be a positive USD price`); return; }
+    if (instrument === "option" && !expiry) { setError("Options need an expiry date"); return; }
+
+    setBusy(true);
+    try {
+      await onSubmit({
+        instrument,
+        notional: amount,
+        entryPrice: price,
+        optionType: instrument === "option" ? optionType : undefined,
+        expiry: expiry ? Math.floor(new Date(expiry).getTime() / 1000) : undefined,
+        venue: venue.trim(),
+        cost: Number(cost) || 0
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="add-modal metal-card">
+        <div className="modal-header">
+          <h2>New {assetType} Hedge</h2>
+          <button onClick={onCancel} className="close-modal">&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="fhe-notice">
+            <div className="lock-icon"></div>
+            <p>The notional is encrypted with Zama FHE; prices, venue and cost are stored in the clear</p>
+          </div>
+          <div className="form-group">
+            <label>Instrument *</label>
+            <select className="metal-select" value={instrument} onChange={e => setInstrument(e.target.value as HedgeInstrument)}>
+              {(Object.keys(INSTRUMENT_LABELS) as HedgeInstrument[]).map(kind => (
+                <option key={kind} value={kind}>{INSTRUMENT_LABELS[kind]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Notional ({assetType}) *</label>
+            <input className="metal-input" inputMode="decimal" value={notional} onChange={e => setNotional(e.target.value)} placeholder={`Up to ${decimals} decimals`} />
+          </div>
+          {instrument === "option" && (
+            <div className="form-group">
+              <label>Option Type *</label>
+              <select className="metal-select" value={optionType} onChange={e => setOptionType(e.target.value as OptionType)}>
+                <option value="put">Put</option>
+                <option value="call">Call</option>
+              </select>
+            </div>
+          )}
+          <div className="form-group">
+            <label>{instrument === "option" ? "Strike" : "Entry Price"} (USD) *</label>
+            <input className="metal-input" type="number" step="0.01" value={entryPrice} onChange={e => setEntryPrice(e.target.value)} />
+          </div>
+          <div className="form-group">
+            <label>Expiry{instrument === "option" ? " *" : ""}</label>
+            <input className="metal-input" type="date" value={expiry} onChange={e => setExpiry(e.target.value)} />
+          </div>
+          <div className="form-group">
+            <label>Venue</label>
+            <input className="metal-input" value={venue} onChange={e => setVenue(e.target.value)} placeholder="e.g. dYdX, Deribit, Uniswap" />
+          </div>
+          <div className="form-group">
+            <label>Cost (USD)</label>
+            <input className="metal-input" type="number" step="0.01" value={cost} onChange={e => setCost(e.target.value)} />
+          </div>
+          {error && <div className="admin-error">{error}</div>}
+        </div>
+        <div className="modal-footer">
+          <button onClick={onCancel} className="metal-button">Cancel</button>
+          <button onClick={submit} disabled={busy} className="metal-button primary">
+            {busy ? "Encrypting..." : "Open Hedge"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HedgeForm;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { HedgePosition, INSTRUMENT_LABELS, hedgePnl, isOpenHedge } from '../hedges';
+import { AssetPrice } from '../prices';
+
+interface HedgePositionsProps {
+  positions: HedgePosition[];
+  notionals: Record<string, number>;
+  prices: Record<string, AssetPrice>;
+  canClose: (position: HedgePosition) => boolean;
+  onClosePosition: (position: HedgePosition) => Promise<void>;
+}
+
+const formatUsd = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const describeInstrument = (position: HedgePosition) =>
+  position.instrument === "option" ? `${position.optionType === "call" ? "Call" : "Put"} option` : INSTRUMENT_LABELS[position.instrument];
+
+const HedgePositions: React.FC<HedgePositionsProps> = ({ positions, notionals, prices, canClose, onClosePosition }) => {
+  const [showClosed, setShowClosed] = useState(false);
+  const [closing, setClosing] = useState<string | null>(null);
+
+  const visible = positions
+    .filter(position => showClosed || isOpenHedge(position))
+    .sort((a, b) => b.openedAt - a.openedAt);
+
+  const pnlFor = (position: HedgePosition): number | null => {
+    const notional = notionals[position.id];
+    const price = prices[position.assetType];
+    return notional === undefined || !price ? null : hedgePnl(position, notional, price.usd);
+  };
+
+  const totalPnl = visible.reduce((sum, position) => sum + (pnlFor(position) ?? 0), 0);
+
+  const close = async (position: HedgePosition) => {
+    setClosing(position.id);
+    try {
+      await onClosePosition(position);
+    } finally {
+      setClosing(null);
+    }
+  };
+
+  return (
+    <div className="panel metal-card full-width">
+      <div className="panel-header">
+        <h2>Hedge Positions</h2>
+        <label className="hedge-show-closed">
+          <input type="checkbox" checked={showClosed} onChange={e => setShowClosed(e.target.checked)} /> Show closed and expired
+        </label>
+      </div>
+      <div className="panel-content">
+        {visible.length === 0 ? (
+          <div className="no-data"><p>No hedge positions yet</p></div>
+        ) : (
+          <>
+            <div className="batch-table hedge-table">
+              <div className="table-header">
+                <div>Asset</div><div>Instrument</div><div>Notional</div><div>Entry / Strike</div>
+                <div>Expiry</div><div>Venue</div><div>Cost</div><div>PnL</div><div></div>
+              </div>
+              {visible.map(position => {
+                const pnl = pnlFor(position);
+                const open = isOpenHedge(position);
+                return (
+                  <div className="table-row" key={position.id}>
+                    <div>{position.assetType} <span className="asset-id">#{position.assetId.substring(0, 6)}</span></div>
+                    <div>{describeInstrument(position)}</div>
+                    <div>{notionals[position.id] !== undefined ? notionals[position.id].toLocaleString() : "Encrypted"}</div>
+                    <div>${position.entryPrice.toLocaleString()}</div>
+                    <div>{position.expiry ? new Date(position.expiry * 1000).toLocaleDateString() : "—"}</div>
+                    <div>{position.venue || "—"}</div>
+                    <div>{formatUsd(position.cost)}</div>
+                    <div className={pnl !== null && pnl < 0 ? "price-stale" : ""}>{pnl === null ? "—" : formatUsd(pnl)}</div>
+                    <div>
+                      {open && canClose(position) ? (
+                        <button className="action-btn metal-button warning" disabled={closing !== null} onClick={() => close(position)}>
+                          {closing === position.id ? "Closing..." : "Close"}
+                        </button>
+                      ) : !open && <span className="status-badge unhedged">{position.closedAt ? "Closed" : "Expired"}</span>}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <p className="price-note">
+              PnL is marked to the current price source and net of cost; total {formatUsd(totalPnl)}. Decrypt holdings to reveal notionals.
+            </p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HedgePositions;
@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { useAccount } from 'wagmi';
+import { formatAmount, parseAmount } from '../amounts';
+import { buildBatchTimeline } from '../batches';
+import { tokenRegistry } from '../contract';
+import { encryptAmount } from '../fhe';
+import { getAppIndexer } from '../indexer';
+import { AssetPosition, HedgePlan, HedgeTargets, buildHedgePlan } from '../strategy';
+import { TokenInfo } from '../tokens';
+import {
+  BatchSubmission,
+  clearAssetTargetHedgeRatio,
+  getCurrentBatch,
+  getHedgeTargets,
+  getTreasuryAddress,
+  getTreasuryReadOnly,
+  getTreasuryWithSigner,
+  setAssetTargetHedgeRatio,
+  submitHedgePlan
+} from '../treasury';
+
+// Amounts are typed in whole tokens and scaled by the token's decimals when the plan is built
+interface PositionInput {
+  asset: string;
+  assetAmount: string;
+  hedgeAmount: string;
+}
+
+interface StrategyState {
+  owner: string;
+  isProvider: boolean;
+  batchId: bigint;
+  batchClosed: boolean;
+  cooldownSeconds: number;
+  targets: HedgeTargets;
+}
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+const formatBps = (bps: number) => `${(bps / 100).toFixed(2)}%`;
+
+const HedgeStrategy: React.FC = () => {
+  const { address } = useAccount();
+  const [state, setState] = useState<StrategyState | null>(null);
+  const [positions, setPositions] = useState<PositionInput[]>([]);
+  const [plan, setPlan] = useState<HedgePlan | null>(null);
+  const [submitted, setSubmitted] = useState<BatchSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [targetAsset, setTargetAsset] = useState("");
+  const [targetPercent, setTargetPercent] = useState("");
+  const [tokens, setTokens] = useState<Record<string, TokenInfo>>({});
+
+  const assetLabel = (asset: string) => tokens[asset.toLowerCase()]?.symbol ?? shortAddress(asset);
+
+  // Base units until the token's decimals are known
+  const formatFor = (asset: string, amount: bigint) => {
+    const token = tokens[asset.toLowerCase()];
+    return token ? `${formatAmount(amount, token.decimals)} ${token.symbol}` : `${amount.toString()} base units`;
+  };
+
+  const isOwner = !!state && !!address && state.owner.toLowerCase() === address.toLowerCase();
+
+  const loadStrategy = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const contract = await getTreasuryReadOnly();
+      if (!contract) throw new Error("Treasury contract is not available");
+      const [{ batchId, closed }, targets, owner, cooldownSeconds] = await Promise.all([
+        getCurrentBatch(contract),
+        getHedgeTargets(contract),
+        contract.owner(),
+        contract.cooldownSeconds()
+      ]);
+      const isProvider: boolean = address ? await contract.isProvider(address) : false;
+      setState({ owner, isProvider, batchId, batchClosed: closed, cooldownSeconds: Number(cooldownSeconds), targets });
+
+      // Start from the most recent decrypted snapshot; amounts stay editable for positions that moved since
+      if (positions.length === 0) {
+        const indexer = await getAppIndexer();
+        await indexer.sync();
+        const snapshot = buildBatchTimeline(await indexer.getEvents()).find(batch => batch.snapshot)?.snapshot ?? [];
+        const resolved = await tokenRegistry.resolveAll(snapshot.map(entry => entry.asset));
+        setTokens(prev => ({ ...prev, ...resolved }));
+        // Amounts of tokens whose decimals cannot be read are left for the user to fill in
+        const format = (asset: string, amount: bigint) => {
+          const token = resolved[asset.toLowerCase()];
+          return token ? formatAmount(amount, token.decimals) : "";
+        };
+        setPositions(snapshot.map(entry => ({
+          asset: entry.asset,
+          assetAmount: format(entry.asset, entry.assetAmount),
+          hedgeAmount: format(entry.asset, entry.hedgeAmount)
+        })));
+      }
+    } catch (e) {
+      console.error("Error loading hedge strategy:", e);
+      setError(e instanceof Error ? e.message : "Failed to load hedge strategy");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadStrategy();
+  }, [address]);
+
+  useEffect(() => {
+    const assets = [...positions.map(p => p.asset), ...Object.keys(state?.targets.perAsset ?? {})].filter(asset => ethers.isAddress(asset));
+    if (assets.length > 0) tokenRegistry.resolveAll(assets).then(resolved => setTokens(prev => ({ ...prev, ...resolved })));
+  }, [positions, state]);
+
+  const withBusy = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await work();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Strategy operation failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const updatePosition = (index: number, field: keyof PositionInput, value: string) => {
+    setPositions(positions.map((p, i) => (i === index ? { ...p, [field]: value } : p)));
+    setPlan(null);
+  };
+
+  const handleSetTarget = () => withBusy(async () => {
+    if (!ethers.isAddress(targetAsset)) throw new Error("Enter a valid asset address");
+    const percent = Number(targetPercent);
+    if (targetPercent === "" || !Number.isFinite(percent) || percent < 0 || percent > 100) throw new Error("Target must be between 0 and 100%");
+    await setAssetTargetHedgeRatio(await getTreasuryWithSigner(), targetAsset, Math.round(percent * 100));
+    setTargetAsset("");
+    setTargetPercent("");
+    setPlan(null);
+    await loadStrategy();
+  });
+
+  const handleClearTarget = (asset: string) => withBusy(async () => {
+    await clearAssetTargetHedgeRatio(await getTreasuryWithSigner(), asset);
+    setPlan(null);
+    await loadStrategy();
+  });
+
+  const handlePreview = () => withBusy(async () => {
+    if (!state) return;
+    const parsed: AssetPosition[] = [];
+    for (const p of positions) {
+      if (!ethers.isAddress(p.asset)) throw new Error(`Invalid asset address: ${p.asset || "(empty)"}`);
+      const token = await tokenRegistry.resolve(p.asset);
+      setTokens(prev => ({ ...prev, [p.asset.toLowerCase()]: token }));
+      try {
+        parsed.push({ asset: p.asset, assetAmount: parseAmount(p.assetAmount, token.decimals), hedgeAmount: parseAmount(p.hedgeAmount, token.decimals) });
+      } catch (e) {
+        throw new Error(`${token.symbol}: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+    setSubmitted([]);
+    setPlan(buildHedgePlan(state.batchId, parsed, state.targets, state.cooldownSeconds));
+  });
+
+  const handleExecute = () => withBusy(async () => {
+    if (!plan || !address) return;
+    const treasuryAddress = getTreasuryAddress();
+    await submitHedgePlan(
+      await getTreasuryWithSigner(),
+      plan,
+      amount => encryptAmount(treasuryAddress, address, amount),
+      { cooldownSeconds: state?.cooldownSeconds, onSubmitted: submission => setSubmitted(prev => [...prev, submission]) }
+    );
+  });
+
+  if (loading && !state) return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card full-width">
+        <div className="panel-content"><div className="no-data"><p>Loading hedge strategy...</p></div></div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card">
+        <div className="panel-header">
+          <h2>Target Hedge Ratios</h2>
+          <button onClick={loadStrategy} className="refresh-btn metal-button" disabled={loading || busy}>
+            {loading ? "Syncing..." : "Refresh"}
+          </button>
+        </div>
+        <div className="panel-content">
+          {error && <div className="admin-error">{error}</div>}
+          {state && (
+            <>
+              <div className="admin-row"><span>Default</span><span>{formatBps(state.targets.defaultBps)}</span></div>
+              {Object.entries(state.targets.perAsset).map(([asset, bps]) => (
+                <div className="admin-row" key={asset}>
+                  <span className="asset-id">{asset}</span>
+                  <span>{formatBps(bps)}</span>
+                  {isOwner && <button className="metal-button" disabled={busy} onClick={() => handleClearTarget(asset)}>Reset</button>}
+                </div>
+              ))}
+            </>
+          )}
+          {isOwner ? (
+            <div className="admin-row">
+              <input className="metal-input" placeholder="Asset address" value={targetAsset} onChange={e => setTargetAsset(e.target.value)} />
+              <input className="metal-input strategy-percent" placeholder="%" value={targetPercent} onChange={e => setTargetPercent(e.target.value)} />
+              <button className="metal-button" disabled={busy} onClick={handleSetTarget}>Set</button>
+            </div>
+          ) : (
+            <p className="admin-note">Only the treasury owner can change targets.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="panel metal-card">
+        <div className="panel-header"><h2>Positions</h2></div>
+        <div className="panel-content">
+          {state && <p className="admin-note">Hedges are submitted to batch #{state.batchId.toString()}{state.batchClosed ? " (closed)" : ""}.</p>}
+          {positions.map((position, i) => (
+            <div className="admin-row" key={i}>
+              <input className="metal-input" placeholder="Asset address" value={position.asset} onChange={e => updatePosition(i, "asset", e.target.value)} />
+              <input className="metal-input" inputMode="decimal" placeholder={`Amount (${tokens[position.asset.toLowerCase()]?.symbol ?? "tokens"})`} value={position.assetAmount} onChange={e => updatePosition(i, "assetAmount", e.target.value)} />
+              <input className="metal-input" inputMode="decimal" placeholder={`Hedged (${tokens[position.asset.toLowerCase()]?.symbol ?? "tokens"})`} value={position.hedgeAmount} onChange={e => updatePosition(i, "hedgeAmount", e.target.value)} />
+              <button className="metal-button" onClick={() => { setPositions(positions.filter((_, j) => j !== i)); setPlan(null); }}>×</button>
+            </div>
+          ))}
+          <div className="action-buttons">
+            <button className="metal-button" onClick={() => setPositions([...positions, { asset: "", assetAmount: "0", hedgeAmount: "0" }])}>Add Position</button>
+            <button className="metal-button" disabled={busy || positions.length === 0} onClick={handlePreview}>Preview Plan</button>
+          </div>
+        </div>
+      </div>
+
+      <div className="panel metal-card full-width">
+        <div className="panel-header"><h2>Dry Run</h2></div>
+        <div className="panel-content">
+          {!plan ? (
+            <div className="no-data"><p>Preview a plan to see the hedge submissions it needs</p></div>
+          ) : (
+            <>
+              <div className="batch-table strategy-table">
+                <div className="table-header">
+                  <div>Asset</div><div>Amount</div><div>Target</div><div>Current Hedge</div><div>Required Hedge</div><div>Change</div>
+                </div>
+                {plan.steps.map(step => (
+                  <div className="table-row" key={step.asset}>
+                    <div className="asset-id" title={step.asset}>{assetLabel(step.asset)}</div>
+                    <div>{formatFor(step.asset, step.assetAmount)}</div>
+                    <div>{formatBps(step.targetBps)}</div>
+                    <div>{formatFor(step.asset, step.currentHedge)}</div>
+                    <div>{formatFor(step.asset, step.requiredHedge)}</div>
+                    <div><span className={`status-badge ${step.status === "on-target" ? "full" : "partial"}`}>
+                      {step.status === "on-target" ? "On target" : `${step.delta > 0n ? "+" : ""}${formatFor(step.asset, step.delta)}`}
+                    </span></div>
+                  </div>
+                ))}
+              </div>
+              <h3>Calls</h3>
+              {plan.calls.length === 0 ? (
+                <p className="admin-note">Every position is already on target.</p>
+              ) : plan.calls.map(call => {
+                const done = submitted.some(s => s.asset.toLowerCase() === call.asset.toLowerCase());
+                return (
+                  <div className="admin-event" key={call.asset}>
+                    submitEncryptedHedgeAmount({call.batchId.toString()}, {assetLabel(call.asset)}, encrypt({call.amount.toString()}))
+                    {done && <span className="status-badge full"> Submitted</span>}
+                  </div>
+                );
+              })}
+              {plan.calls.length > 1 && (
+                <p className="admin-note">Submission cooldown: about {plan.estimatedSeconds}s to send every call.</p>
+              )}
+              {state?.isProvider ? (
+                <button className="metal-button" disabled={busy || plan.calls.length === 0 || state.batchClosed} onClick={handleExecute}>
+                  {busy ? "Submitting..." : "Submit Hedges"}
+                </button>
+              ) : (
+                <p className="admin-note">Connect a registered provider wallet to submit this plan.</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HedgeStrategy;
@@ -0,0 +1,116 @@
+import React, { useMemo, useState } from 'react';
+import historyJson from '../price-history.json';
+import { PriceHistory, RiskMetrics, RiskPosition, analyzeRisk, parsePriceHistoryCsv, parsePriceHistoryJson } from '../risk';
+
+interface RiskPanelProps {
+  positions: RiskPosition[];
+}
+
+const METRIC_LABELS: [keyof RiskMetrics, string][] = [
+  ["historicalVaR", "Historical VaR (1d)"],
+  ["parametricVaR", "Parametric VaR (1d)"],
+  ["expectedShortfall", "Expected Shortfall (1d)"],
+  ["annualizedVolatility", "Volatility (annualized)"]
+];
+
+const formatUsd = (value: number) => `${value < 0 ? "-" : ""}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const formatMetric = (key: keyof RiskMetrics, value: number) =>
+  key === "annualizedVolatility" || key === "dailyVolatility" ? `${(value * 100).toFixed(1)}%` : formatUsd(value);
+
+const RiskPanel: React.FC<RiskPanelProps> = ({ positions }) => {
+  const [history, setHistory] = useState<PriceHistory>(historyJson);
+  const [datasetName, setDatasetName] = useState("price-history.json (bundled sample)");
+  const [confidence, setConfidence] = useState(0.95);
+  const [error, setError] = useState<string | null>(null);
+
+  const report = useMemo(
+    () => (positions.length > 0 ? analyzeRisk(positions, history, confidence) : null),
+    [positions, history, confidence]
+  );
+
+  const handleDataset = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const text = await file.text();
+      setHistory(file.name.toLowerCase().endsWith(".csv") ? parsePriceHistoryCsv(text) : parsePriceHistoryJson(text));
+      setDatasetName(file.name);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not read the price dataset");
+    }
+  };
+
+  return (
+    <div className="panel metal-card full-width">
+      <div className="panel-header">
+        <h2>Risk Analysis</h2>
+        <select className="metal-select risk-confidence" value={confidence} onChange={e => setConfidence(Number(e.target.value))}>
+          <option value={0.95}>95% confidence</option>
+          <option value={0.99}>99% confidence</option>
+        </select>
+      </div>
+      <div className="panel-content">
+        <div className="price-sources-header">
+          <span>Dataset: {datasetName} · {history.dates.length} days</span>
+          <label className="action-btn metal-button">
+            Load CSV/JSON
+            <input type="file" accept=".csv,.json" hidden onChange={e => handleDataset(e.target.files?.[0])} />
+          </label>
+        </div>
+        {error && <div className="admin-error">{error}</div>}
+        {!report ? (
+          <div className="no-data"><p>Decrypt priced holdings to run the risk analysis</p></div>
+        ) : (
+          <div className="risk-grid">
+            <div>
+              <h3>Value at Risk</h3>
+              <div className="batch-table risk-table">
+                <div className="table-header"><div>Metric</div><div>Unhedged</div><div>With Hedges</div></div>
+                {METRIC_LABELS.map(([key, label]) => (
+                  <div className="table-row" key={key}>
+                    <div>{label}</div>
+                    <div>{formatMetric(key, report.unhedged[key])}</div>
+                    <div>{formatMetric(key, report.hedged[key])}</div>
+                  </div>
+                ))}
+              </div>
+              <h3>Stress Tests</h3>
+              <div className="batch-table risk-table">
+                <div className="table-header"><div>Scenario</div><div>Unhedged</div><div>With Hedges</div></div>
+                {report.stress.map(result => (
+                  <div className="table-row" key={result.scenario}>
+                    <div>{result.scenario}</div>
+                    <div className={result.unhedgedPnl < 0 ? "price-stale" : ""}>{formatUsd(result.unhedgedPnl)}</div>
+                    <div className={result.hedgedPnl < 0 ? "price-stale" : ""}>{formatUsd(result.hedgedPnl)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <h3>Correlation</h3>
+              <div className="risk-correlation" style={{ gridTemplateColumns: `repeat(${report.correlation.symbols.length + 1}, 1fr)` }}>
+                <div></div>
+                {report.correlation.symbols.map(symbol => <div key={symbol} className="risk-correlation-label">{symbol}</div>)}
+                {report.correlation.symbols.map((symbol, i) => (
+                  <React.Fragment key={symbol}>
+                    <div className="risk-correlation-label">{symbol}</div>
+                    {report.correlation.values[i].map((value, j) => (
+                      <div key={j} style={{ backgroundColor: `rgba(241, 196, 15, ${Math.abs(value) * 0.5})` }}>{value.toFixed(2)}</div>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+              <p className="price-note">{report.observations} daily returns; today's USD exposures replayed over each day.</p>
+              {report.missingHistory.length > 0 && (
+                <p className="price-note">No price history for {report.missingHistory.join(", ")}; excluded from the analysis</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RiskPanel;
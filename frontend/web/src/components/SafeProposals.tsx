@@ -0,0 +1,288 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { useAccount } from 'wagmi';
+import { getReadProvider, getSigner } from '../contract';
+import {
+  SafeProposal,
+  addSafeSignature,
+  createSafeProposal,
+  executeSafeProposal,
+  exportSafeProposal,
+  getSafe,
+  getSafeInfo,
+  importSafeProposal,
+  isSafeContract,
+  signSafeProposal
+} from '../safe';
+import { OwnerAction, encodeTreasuryCall, getTreasuryAddress, getTreasuryReadOnly } from '../treasury';
+
+interface SafeState {
+  address: string;
+  chainId: bigint;
+  owners: string[];
+  threshold: number;
+  nonce: bigint;
+}
+
+// requestBatchDecryption only succeeds while the Safe is also the treasury's governance
+type SafeAction = OwnerAction | "requestBatchDecryption";
+
+const ACTION_LABELS: Record<SafeAction, string> = {
+  openNewBatch: "Open new batch",
+  closeCurrentBatch: "Close current batch",
+  requestBatchDecryption: "Request batch decryption",
+  addProvider: "Add provider"
+};
+
+const PROPOSALS_STORE_KEY = "safe-proposals";
+
+const loadSafeProposals = (): SafeProposal[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PROPOSALS_STORE_KEY) || "[]");
+  } catch (e) {
+    return [];
+  }
+};
+
+const saveSafeProposals = (proposals: SafeProposal[]) => {
+  localStorage.setItem(PROPOSALS_STORE_KEY, JSON.stringify(proposals));
+};
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+const SafeProposals: React.FC = () => {
+  const { address } = useAccount();
+  const [safeState, setSafeState] = useState<SafeState | null>(null);
+  const [treasuryOwner, setTreasuryOwner] = useState<string | null>(null);
+  const [proposals, setProposals] = useState<SafeProposal[]>(loadSafeProposals());
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [action, setAction] = useState<SafeAction>("openNewBatch");
+  const [argument, setArgument] = useState("");
+  const [importJson, setImportJson] = useState("");
+
+  const isSafeOwner = !!safeState && !!address && safeState.owners.some(o => o.toLowerCase() === address.toLowerCase());
+
+  const updateProposals = (next: SafeProposal[]) => {
+    setProposals(next);
+    saveSafeProposals(next);
+  };
+
+  const loadSafeState = async () => {
+    setLoading(true);
+    try {
+      const treasury = await getTreasuryReadOnly();
+      if (!treasury) throw new Error("Treasury contract is not available");
+      const owner: string = await treasury.owner();
+      setTreasuryOwner(owner);
+
+      const provider = await getReadProvider();
+      if (!(await isSafeContract(provider, owner))) {
+        setSafeState(null);
+        return;
+      }
+      const { chainId } = await provider.getNetwork();
+      const info = await getSafeInfo(getSafe(owner, provider));
+      setSafeState({ address: owner, chainId, ...info });
+    } catch (e) {
+      console.error("Error loading Safe state:", e);
+      setError(e instanceof Error ? e.message : "Failed to load Safe state");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadSafeState();
+  }, []);
+
+  const withBusy = async (work: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await work();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Safe operation failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => withBusy(async () => {
+    if (!safeState) return;
+    let args: unknown[] = [];
+    let description = ACTION_LABELS[action];
+    if (action === "addProvider") {
+      if (!ethers.isAddress(argument)) throw new Error("Enter a valid provider address");
+      args = [argument];
+      description += ` ${argument}`;
+    } else if (action === "requestBatchDecryption") {
+      if (!/^\d+$/.test(argument)) throw new Error("Enter a batch id");
+      args = [BigInt(argument)];
+      description += ` #${argument}`;
+    }
+
+    // Queue behind proposals that are still waiting so each gets its own nonce
+    const pending = proposals.filter(p => p.safeAddress === safeState.address && BigInt(p.transaction.nonce) >= safeState.nonce);
+    const nonce = pending.reduce((next, p) => {
+      const after = BigInt(p.transaction.nonce) + 1n;
+      return after > next ? after : next;
+    }, safeState.nonce);
+    const safe = getSafe(safeState.address, await getReadProvider());
+    const proposal = await createSafeProposal(safe, safeState.chainId, getTreasuryAddress(), encodeTreasuryCall(action, args), description, nonce);
+    updateProposals([...proposals, proposal]);
+    setArgument("");
+  });
+
+  const handleSign = (proposal: SafeProposal) => withBusy(async () => {
+    const signed = await signSafeProposal(proposal, await getSigner());
+    updateProposals(proposals.map(p => (p.safeTxHash === proposal.safeTxHash ? signed : p)));
+  });
+
+  const handleExecute = (proposal: SafeProposal) => withBusy(async () => {
+    const safe = getSafe(proposal.safeAddress, await getSigner());
+    await executeSafeProposal(safe, proposal);
+    updateProposals(proposals.filter(p => p.safeTxHash !== proposal.safeTxHash));
+    await loadSafeState();
+  });
+
+  const handleExport = (proposal: SafeProposal) => {
+    const blob = new Blob([exportSafeProposal(proposal)], { type: "application/json" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `safe-proposal-${proposal.transaction.nonce}-${proposal.safeTxHash.substring(2, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
+  // An imported copy of a known proposal contributes its signatures to ours
+  const handleImport = () => withBusy(async () => {
+    const imported = importSafeProposal(importJson);
+    const existing = proposals.find(p => p.safeTxHash === imported.safeTxHash);
+    if (!existing) {
+      updateProposals([...proposals, imported]);
+    } else {
+      const merged = imported.signatures.reduce(addSafeSignature, existing);
+      updateProposals(proposals.map(p => (p.safeTxHash === merged.safeTxHash ? merged : p)));
+    }
+    setImportJson("");
+  });
+
+  if (loading && !safeState) return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card full-width">
+        <div className="panel-content"><div className="no-data"><p>Loading Safe state...</p></div></div>
+      </div>
+    </div>
+  );
+
+  if (!safeState) return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card full-width">
+        <div className="panel-header"><h2>Safe Proposals</h2></div>
+        <div className="panel-content">
+          <div className="no-data">
+            <p>The treasury owner is not a Safe. Transfer ownership to a Safe from the admin console to enable proposal mode.</p>
+            {treasuryOwner && <p className="asset-id">Owner: {treasuryOwner}</p>}
+            {error && <p>{error}</p>}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+
+  const visible = proposals.filter(p => p.safeAddress === safeState.address);
+
+  return (
+    <div className="dashboard-panels">
+      <div className="panel metal-card">
+        <div className="panel-header">
+          <h2>Safe</h2>
+          <button onClick={loadSafeState} className="refresh-btn metal-button" disabled={loading || busy}>
+            {loading ? "Syncing..." : "Refresh"}
+          </button>
+        </div>
+        <div className="panel-content">
+          {error && <div className="admin-error">{error}</div>}
+          <div className="admin-row"><span>Address</span><span className="asset-id">{safeState.address}</span></div>
+          <div className="admin-row"><span>Threshold</span><span>{safeState.threshold} of {safeState.owners.length}</span></div>
+          <div className="admin-row"><span>Nonce</span><span>{safeState.nonce.toString()}</span></div>
+          {safeState.owners.map(owner => (
+            <div className="admin-row" key={owner}>
+              <span className="asset-id">{owner}</span>
+              {address && owner.toLowerCase() === address.toLowerCase() && <span className="status-badge full">You</span>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="panel metal-card">
+        <div className="panel-header"><h2>New Proposal</h2></div>
+        <div className="panel-content">
+          <div className="form-group">
+            <label>Action</label>
+            <select className="metal-select" value={action} onChange={e => setAction(e.target.value as SafeAction)}>
+              {(Object.keys(ACTION_LABELS) as SafeAction[]).map(key => (
+                <option key={key} value={key}>{ACTION_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          {(action === "addProvider" || action === "requestBatchDecryption") && (
+            <div className="form-group">
+              <label>{action === "addProvider" ? "Provider address" : "Batch id"}</label>
+              <input className="metal-input" value={argument} onChange={e => setArgument(e.target.value)} />
+            </div>
+          )}
+          <button className="metal-button" disabled={busy} onClick={handleCreate}>Create Proposal</button>
+
+          <div className="form-group">
+            <label>Import proposal JSON</label>
+            <textarea className="metal-input" rows={4} value={importJson} onChange={e => setImportJson(e.target.value)} />
+          </div>
+          <button className="metal-button" disabled={busy || !importJson} onClick={handleImport}>Import</button>
+        </div>
+      </div>
+
+      <div className="panel metal-card full-width">
+        <div className="panel-header"><h2>Pending Proposals</h2></div>
+        <div className="panel-content">
+          {visible.length === 0 ? (
+            <div className="no-data"><p>No pending proposals</p></div>
+          ) : visible.map(proposal => {
+            const signedByMe = !!address && proposal.signatures.some(s => s.signer.toLowerCase() === address.toLowerCase());
+            const stale = BigInt(proposal.transaction.nonce) < safeState.nonce;
+            return (
+              <div className="batch-entry safe-proposal" key={proposal.safeTxHash}>
+                <div className="batch-summary">
+                  <div className="batch-id">#{proposal.transaction.nonce}</div>
+                  <span>{proposal.description}</span>
+                  <span className={`status-badge ${stale ? "unhedged" : proposal.signatures.length >= safeState.threshold ? "full" : "partial"}`}>
+                    {stale ? "Stale" : `${proposal.signatures.length}/${safeState.threshold} signatures`}
+                  </span>
+                  <div className="batch-meta">
+                    {proposal.signatures.map(s => shortAddress(s.signer)).join(", ")}
+                  </div>
+                </div>
+                <div className="action-buttons safe-actions">
+                  {isSafeOwner && !signedByMe && !stale && (
+                    <button className="metal-button" disabled={busy} onClick={() => handleSign(proposal)}>Sign</button>
+                  )}
+                  <button className="metal-button" onClick={() => handleExport(proposal)}>Export</button>
+                  {!stale && proposal.signatures.length >= safeState.threshold && (
+                    <button className="metal-button" disabled={busy} onClick={() => handleExecute(proposal)}>Execute</button>
+                  )}
+                  <button className="metal-button" disabled={busy} onClick={() => updateProposals(proposals.filter(p => p.safeTxHash !== proposal.safeTxHash))}>
+                    Discard
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SafeProposals;
@@ -2,9 +2,14 @@
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
 import configJson from "./config.json";
+import { NetworkConfig, NetworkRegistry, NetworkRegistryOverlay, applyRegistryOverlay, getNetwork } from "./networks";
+import { createTokenRegistry } from "./tokens";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+
+// config.local.json is git-ignored and only exists where `local:node` or a local deploy wrote it
+const localOverlays = import.meta.glob<NetworkRegistryOverlay>("./config.local.json", { eager: true, import: "default" });
+export const registry = applyRegistryOverlay(configJson as NetworkRegistry, Object.values(localOverlays)[0]);
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,23 +23,16 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
+// Chain the app reads from and writes to, selected by activeNetwork in config.json
+export const network: NetworkConfig = getNetwork(registry);
+
+// First RPC of the active network that answers within 10s
+export const getReadProvider = async () => {
+  for (const url of network.rpcUrls) {
     try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
+      const provider = new ethers.JsonRpcProvider(url, network.chainId, { staticNetwork: true });
       
-      const blockNumber = await Promise.race([
+      await Promise.race([
         provider.getBlockNumber(),
         new Promise((_, reject) => 
           setTimeout(() => reject(new Error("RPC timeout")), 10000)
@@ -46,15 +44,19 @@ const getTestnetProvider = async () => {
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`All ${network.name} RPC providers failed`);
 };
 
+// Tokens of the active network: token-list.json first, then ERC-20 metadata read from the chain
+export const tokenRegistry = createTokenRegistry(network.chainId, getReadProvider);
+
 export async function getContractReadOnly() {
+  if (!network.contracts.adapter) return null;
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = await getReadProvider();
+    const contract = new ethers.Contract(network.contracts.adapter, ABI, provider);
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(network.contracts.adapter));
     if (code === "0x") {
       return null;
     }
@@ -66,14 +68,19 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getSigner() {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  const provider = new ethers.BrowserProvider((window as any).ethereum);
+  return provider.getSigner();
+}
+
+export async function getContractWithSigner() {
+  if (!network.contracts.adapter) throw new Error(`No adapter address is configured for ${network.name}`);
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const signer = await getSigner();
+    const contract = new ethers.Contract(network.contracts.adapter, ABI, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -0,0 +1,215 @@
+// event-indexer.ts
+import { ethers } from "ethers";
+import adapterAbiJson from "./abi/UniversalAdapter.json";
+import treasuryAbiJson from "./abi/DAO_Treasury_Hedge_FHE.json";
+
+const ADAPTER_ABI = (adapterAbiJson as any).abi || adapterAbiJson;
+const TREASURY_ABI = (treasuryAbiJson as any).abi || treasuryAbiJson;
+
+export type IndexedSource = "treasury" | "adapter";
+
+export type IndexedValue = string | boolean | IndexedValue[];
+
+export interface IndexedEvent {
+  id: string;
+  source: IndexedSource;
+  name: string;
+  blockNumber: number;
+  blockHash: string;
+  txHash: string;
+  logIndex: number;
+  args: Record<string, IndexedValue>;
+}
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+export interface IndexerState {
+  lastBlock: number;
+  recentBlocks: IndexedBlock[];
+}
+
+export interface IndexerStore {
+  load(): Promise<IndexerState | null>;
+  getEvents(): Promise<IndexedEvent[]>;
+  // Appends events and moves the cursor in one step so a crash never skips blocks
+  commit(events: IndexedEvent[], state: IndexerState): Promise<void>;
+  // Drops every event above `block` after a reorg
+  rewind(block: number, state: IndexerState): Promise<void>;
+}
+
+export interface EventIndexerOptions {
+  provider: ethers.Provider;
+  treasuryAddress?: string;
+  adapterAddress?: string;
+  store: IndexerStore;
+  startBlock: number;
+  chunkSize?: number;
+  confirmations?: number;
+  onProgress?: (lastBlock: number, headBlock: number) => void;
+}
+
+export const TREASURY_EVENTS = [
+  "OwnershipTransferred",
+  "GovernanceTransferred",
+  "ProviderAdded",
+  "ProviderRemoved",
+  "PauseToggled",
+  "CooldownSecondsChanged",
+  "TargetHedgeRatioChanged",
+  "AssetTargetHedgeRatioChanged",
+  "AssetTargetHedgeRatioCleared",
+  "BatchOpened",
+  "BatchClosed",
+  "AssetSubmitted",
+  "HedgeSubmitted",
+  "DecryptionRequested",
+  "DecryptionCompleted"
+];
+
+export const ADAPTER_EVENTS = ["DataStored"];
+
+const REORG_WINDOW = 12;
+
+const toIndexedValue = (value: unknown): IndexedValue => {
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "boolean") return value;
+  if (value instanceof Uint8Array) return ethers.hexlify(value);
+  if (Array.isArray(value)) return Array.from(value, toIndexedValue);
+  return String(value);
+};
+
+export class EventIndexer {
+  private readonly sources: { source: IndexedSource; address: string; iface: ethers.Interface; events: string[] }[] = [];
+  private readonly chunkSize: number;
+  private readonly confirmations: number;
+
+  constructor(private readonly options: EventIndexerOptions) {
+    if (options.treasuryAddress) {
+      this.sources.push({ source: "treasury", address: options.treasuryAddress, iface: new ethers.Interface(TREASURY_ABI), events: TREASURY_EVENTS });
+    }
+    if (options.adapterAddress) {
+      this.sources.push({ source: "adapter", address: options.adapterAddress, iface: new ethers.Interface(ADAPTER_ABI), events: ADAPTER_EVENTS });
+    }
+    this.chunkSize = options.chunkSize ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+  }
+
+  async getEvents(name?: string): Promise<IndexedEvent[]> {
+    const events = await this.options.store.getEvents();
+    return name ? events.filter(e => e.name === name) : events;
+  }
+
+  async sync(): Promise<IndexerState> {
+    const { provider, store } = this.options;
+    let state = await store.load() ?? { lastBlock: this.options.startBlock - 1, recentBlocks: [] };
+    state = await this.handleReorg(state);
+
+    const head = (await provider.getBlockNumber()) - this.confirmations;
+    for (let from = state.lastBlock + 1; from <= head; from += this.chunkSize) {
+      const to = Math.min(from + this.chunkSize - 1, head);
+      const events = await this.fetchEvents(from, to);
+      const block = await provider.getBlock(to);
+      if (!block?.hash) throw new Error(`Block ${to} is not available`);
+      state = {
+        lastBlock: to,
+        recentBlocks: [...state.recentBlocks, { number: to, hash: block.hash }].slice(-REORG_WINDOW)
+      };
+      await store.commit(events, state);
+      this.options.onProgress?.(to, head);
+    }
+    return state;
+  }
+
+  private async handleReorg(state: IndexerState): Promise<IndexerState> {
+    const recent = [...state.recentBlocks];
+    while (recent.length > 0) {
+      const checkpoint = recent[recent.length - 1];
+      const block = await this.options.provider.getBlock(checkpoint.number);
+      if (block?.hash === checkpoint.hash) break;
+      recent.pop();
+    }
+    if (recent.length === state.recentBlocks.length) return state;
+
+    // Resume from the newest checkpoint that is still canonical, or replay the whole window
+    const lastBlock = recent.length > 0
+      ? recent[recent.length - 1].number
+      : Math.max(state.recentBlocks[0].number - this.chunkSize, this.options.startBlock - 1);
+    const rewound = { lastBlock, recentBlocks: recent };
+    await this.options.store.rewind(lastBlock, rewound);
+    return rewound;
+  }
+
+  private async fetchEvents(fromBlock: number, toBlock: number): Promise<IndexedEvent[]> {
+    if (this.sources.length === 0) return [];
+    const logs = await this.options.provider.getLogs({
+      address: this.sources.map(s => s.address),
+      fromBlock,
+      toBlock
+    });
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const source = this.sources.find(s => s.address.toLowerCase() === log.address.toLowerCase());
+      if (!source) continue;
+      let parsed: ethers.LogDescription | null = null;
+      try {
+        parsed = source.iface.parseLog(log);
+      } catch (e) {
+        continue;
+      }
+      if (!parsed || !source.events.includes(parsed.name)) continue;
+
+      const args: Record<string, IndexedValue> = {};
+      parsed.fragment.inputs.forEach((input, i) => { args[input.name] = toIndexedValue(parsed!.args[i]); });
+      events.push({
+        id: `${log.transactionHash}:${log.index}`,
+        source: source.source,
+        name: parsed.name,
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        args
+      });
+    }
+    return events;
+  }
+}
+
+// Latest UniversalAdapter value per key, replayed from DataStored events
+export function latestDataRecords(events: IndexedEvent[], keyPrefix = ""): Map<string, string> {
+  const records = new Map<string, string>();
+  for (const event of events) {
+    if (event.name !== "DataStored") continue;
+    const key = event.args.key as string;
+    if (key.startsWith(keyPrefix)) records.set(key, event.args.value as string);
+  }
+  return records;
+}
+
+export class MemoryIndexerStore implements IndexerStore {
+  protected state: IndexerState | null = null;
+  protected events: IndexedEvent[] = [];
+
+  async load() {
+    return this.state;
+  }
+
+  async getEvents() {
+    return [...this.events];
+  }
+
+  async commit(events: IndexedEvent[], state: IndexerState) {
+    const known = new Set(this.events.map(e => e.id));
+    this.events.push(...events.filter(e => !known.has(e.id)));
+    this.state = state;
+  }
+
+  async rewind(block: number, state: IndexerState) {
+    this.events = this.events.filter(e => e.blockNumber <= block);
+    this.state = state;
+  }
+}
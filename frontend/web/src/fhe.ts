@@ -0,0 +1,107 @@
+// fhe.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/web";
+import { requireEncryptableAmount } from "./amounts";
+import { network } from "./contract";
+import type { FheGatewayConfig, FheMode } from "./networks";
+import { PermitCache } from "./permits";
+
+export interface EncryptedAmount {
+  handle: string;
+  inputProof: string;
+}
+
+export const fheMode: FheMode = network.fhe.mode;
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// Mock mode points at the local Hardhat node, whose FHE plugin answers the relayer's input-proof and
+// user-decrypt calls itself. @fhevm/mock-utils talks to it through the same FhevmInstance interface, so
+// input proofs and ACL checks work exactly as they do against the Zama relayer.
+const createMockInstance = async (gateway: FheGatewayConfig): Promise<FhevmInstance> => {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const node = new ethers.JsonRpcProvider(gateway.relayerUrl, network.chainId, { staticNetwork: true });
+  const instance = await MockFhevmInstance.create(node, node, { ...gateway, chainId: network.chainId });
+  return instance as unknown as FhevmInstance;
+};
+
+export function getFheInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (async () => {
+      const gateway = network.fhe.gateway;
+      if (!gateway) throw new Error(`No FHE gateway is configured for ${network.name}`);
+      if (fheMode === "mock") return createMockInstance(gateway);
+      // Loaded on first use: its wasm is several megabytes, and mock mode never needs it. The web build hashes
+      // handles with Node's global Buffer, which browsers do not have.
+      const globals = globalThis as { Buffer?: unknown };
+      globals.Buffer ??= (await import("buffer")).Buffer;
+      const { initSDK, createInstance } = await import("@zama-fhe/relayer-sdk/web");
+      if (!window.ethereum) throw new Error("The relayer needs an injected wallet to read the chain");
+      await initSDK();
+      return createInstance({ ...gateway, chainId: network.chainId, network: window.ethereum });
+    })();
+    instancePromise.catch(() => { instancePromise = null; });
+  }
+  return instancePromise;
+}
+
+// `value` is in token base units (see amounts.ts); it is encrypted as a euint128
+export async function encryptAmount(
+  contractAddress: string,
+  userAddress: string,
+  value: bigint
+): Promise<EncryptedAmount> {
+  const amount = requireEncryptableAmount(value);
+  const instance = await getFheInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  input.add128(amount);
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: ethers.hexlify(handles[0]), inputProof: ethers.hexlify(inputProof) };
+}
+
+// Signed permits last for the browser session, so the keypair never outlives the tab
+const permitCache = new PermitCache(
+  typeof sessionStorage === "undefined" ? undefined : sessionStorage,
+  `fhe-decryption-permit:${network.chainId}`
+);
+
+// Every permit covers both contracts that grant the user handles, so one signature serves records and batches
+const permitContracts = (contractAddress: string) =>
+  [contractAddress, network.contracts.vault, network.contracts.treasury].filter((address): address is string => !!address);
+
+export async function userDecryptHandles(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<Record<string, bigint>> {
+  if (handles.length === 0) return {};
+
+  const instance = await getFheInstance();
+  const permit = await permitCache.getOrSign(instance, signer, permitContracts(contractAddress));
+  const decrypted = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    permit.privateKey,
+    permit.publicKey,
+    permit.signature.replace("0x", ""),
+    permit.contractAddresses,
+    permit.userAddress,
+    permit.startTimestamp,
+    permit.durationDays
+  );
+
+  const results: Record<string, bigint> = {};
+  for (const handle of handles) {
+    results[handle] = BigInt(decrypted[handle] as bigint | string);
+  }
+  return results;
+}
+
+// Drops the cached permit, so the next decryption asks for a new signature
+export function forgetDecryptionPermit(userAddress: string) {
+  permitCache.clear(userAddress);
+}
+
+export async function userDecryptAmount(handle: string, contractAddress: string, signer: ethers.Signer): Promise<bigint> {
+  const results = await userDecryptHandles([handle], contractAddress, signer);
+  return results[handle];
+}
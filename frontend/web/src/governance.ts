@@ -0,0 +1,203 @@
+// governance.ts
+import { ethers } from "ethers";
+import { getReadProvider, getSigner, network } from "./contract";
+import { indexerStartBlock } from "./indexer";
+import { GovernanceAction, TREASURY_ABI, encodeTreasuryCall, getTreasuryAddress } from "./treasury";
+
+export const GOVERNOR_ABI = [
+  "function propose(address[] targets, uint256[] values, bytes[] calldatas, string description) returns (uint256)",
+  "function queue(address[] targets, uint256[] values, bytes[] calldatas, bytes32 descriptionHash) returns (uint256)",
+  "function execute(address[] targets, uint256[] values, bytes[] calldatas, bytes32 descriptionHash) payable returns (uint256)",
+  "function castVoteWithReason(uint256 proposalId, uint8 support, string reason) returns (uint256)",
+  "function state(uint256 proposalId) view returns (uint8)",
+  "function proposalVotes(uint256 proposalId) view returns (uint256 againstVotes, uint256 forVotes, uint256 abstainVotes)",
+  "function proposalSnapshot(uint256 proposalId) view returns (uint256)",
+  "function proposalEta(uint256 proposalId) view returns (uint256)",
+  "function hasVoted(uint256 proposalId, address account) view returns (bool)",
+  "function quorum(uint256 timepoint) view returns (uint256)",
+  "function clock() view returns (uint48)",
+  "function token() view returns (address)",
+  "function timelock() view returns (address)",
+  "event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 voteStart, uint256 voteEnd, string description)",
+  "error GovernorUnexpectedProposalState(uint256 proposalId, uint8 current, bytes32 expectedStates)",
+  "error GovernorAlreadyCastVote(address voter)",
+  "error GovernorInsufficientProposerVotes(address proposer, uint256 votes, uint256 threshold)",
+  "error TimelockUnexpectedOperationState(bytes32 operationId, bytes32 expectedStates)"
+];
+
+export const VOTES_TOKEN_ABI = [
+  "function symbol() view returns (string)",
+  "function balanceOf(address account) view returns (uint256)",
+  "function getVotes(address account) view returns (uint256)",
+  "function delegates(address account) view returns (address)",
+  "function delegate(address delegatee)"
+];
+
+// Mirrors IGovernor.ProposalState
+export const PROPOSAL_STATES = ["Pending", "Active", "Canceled", "Defeated", "Succeeded", "Queued", "Expired", "Executed"] as const;
+export type ProposalStateName = typeof PROPOSAL_STATES[number];
+
+export enum VoteSupport {
+  Against = 0,
+  For = 1,
+  Abstain = 2
+}
+
+export interface GovernanceCall {
+  action: GovernanceAction;
+  args: unknown[];
+}
+
+export interface GovernanceProposal {
+  proposalId: bigint;
+  proposer: string;
+  targets: string[];
+  values: bigint[];
+  calldatas: string[];
+  description: string;
+  descriptionHash: string;
+  voteStart: bigint;
+  voteEnd: bigint;
+  state: ProposalStateName;
+  votes: { against: bigint; for: bigint; abstain: bigint };
+  quorum: bigint;
+  eta: bigint;
+}
+
+export interface VotingPower {
+  symbol: string;
+  balance: bigint;
+  votes: bigint;
+  delegate: string;
+}
+
+const treasuryInterface = new ethers.Interface(TREASURY_ABI);
+
+export function getGovernorAddress(): string {
+  const address = network.contracts.governor;
+  if (!address) throw new Error(`No governor address is configured for ${network.name} in config.json`);
+  return address;
+}
+
+export async function getGovernorReadOnly() {
+  return new ethers.Contract(getGovernorAddress(), GOVERNOR_ABI, await getReadProvider());
+}
+
+export async function getGovernorWithSigner() {
+  return new ethers.Contract(getGovernorAddress(), GOVERNOR_ABI, await getSigner());
+}
+
+const send = async (action: () => Promise<ethers.ContractTransactionResponse>): Promise<ethers.ContractTransactionReceipt> => {
+  try {
+    const tx = await action();
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+    return receipt;
+  } catch (e) {
+    const name = ethers.isCallException(e) ? e.revert?.name : undefined;
+    throw name ? new Error(`Governor rejected the call: ${name}`) : e;
+  }
+};
+
+// Human-readable summary of a proposal action that targets the treasury
+export function describeCall(target: string, calldata: string): string {
+  try {
+    if (target.toLowerCase() !== getTreasuryAddress().toLowerCase()) return `Call to ${target}`;
+    const parsed = treasuryInterface.parseTransaction({ data: calldata });
+    if (!parsed) return `Unknown treasury call ${calldata.substring(0, 10)}`;
+    return `${parsed.name}(${parsed.args.map(String).join(", ")})`;
+  } catch (e) {
+    return `Call to ${target}`;
+  }
+}
+
+export async function proposeTreasuryCalls(
+  governor: ethers.Contract,
+  calls: GovernanceCall[],
+  description: string
+): Promise<bigint> {
+  if (calls.length === 0) throw new Error("A proposal needs at least one action");
+  const treasury = getTreasuryAddress();
+  const targets = calls.map(() => treasury);
+  const values = calls.map(() => 0n);
+  const calldatas = calls.map(call => encodeTreasuryCall(call.action, call.args));
+  const receipt = await send(() => governor.propose(targets, values, calldatas, description));
+  for (const log of receipt.logs) {
+    const parsed = governor.interface.parseLog(log);
+    if (parsed?.name === "ProposalCreated") return parsed.args.proposalId;
+  }
+  throw new Error(`ProposalCreated not found in transaction ${receipt.hash}`);
+}
+
+// Proposals are replayed from indexerStartBlock, which the exporter sets at or before the governor's deployment
+export async function listProposals(governor: ethers.Contract): Promise<GovernanceProposal[]> {
+  if (indexerStartBlock === undefined) {
+    throw new Error(`No indexerStartBlock is configured for ${network.name} in config.json, so proposals cannot be listed`);
+  }
+  const events = await governor.queryFilter(governor.filters.ProposalCreated(), indexerStartBlock);
+  const clock: bigint = await governor.clock();
+  const proposals = await Promise.all(events.map(async event => {
+    // Positional: the "values" field is shadowed by Result.values()
+    const [proposalId, proposer, targets, values, , calldatas, voteStart, voteEnd, description] = (event as ethers.EventLog).args;
+    const [state, votes, snapshot, eta] = await Promise.all([
+      governor.state(proposalId),
+      governor.proposalVotes(proposalId),
+      governor.proposalSnapshot(proposalId),
+      governor.proposalEta(proposalId)
+    ]);
+    // Quorum is only defined once the snapshot timepoint has passed
+    const quorum: bigint = snapshot < clock ? await governor.quorum(snapshot) : 0n;
+    return {
+      proposalId,
+      proposer,
+      targets: [...targets],
+      values: [...values],
+      calldatas: [...calldatas],
+      description,
+      descriptionHash: ethers.id(description),
+      voteStart,
+      voteEnd,
+      state: PROPOSAL_STATES[Number(state)],
+      votes: { against: votes.againstVotes, for: votes.forVotes, abstain: votes.abstainVotes },
+      quorum,
+      eta
+    };
+  }));
+  return proposals.sort((a, b) => (a.voteStart < b.voteStart ? 1 : -1));
+}
+
+export async function hasVoted(governor: ethers.Contract, proposalId: bigint, account: string): Promise<boolean> {
+  return governor.hasVoted(proposalId, account);
+}
+
+export async function castVote(governor: ethers.Contract, proposalId: bigint, support: VoteSupport, reason = ""): Promise<void> {
+  await send(() => governor.castVoteWithReason(proposalId, support, reason));
+}
+
+export async function queueProposal(governor: ethers.Contract, proposal: GovernanceProposal): Promise<void> {
+  await send(() => governor.queue(proposal.targets, proposal.values, proposal.calldatas, proposal.descriptionHash));
+}
+
+export async function executeProposal(governor: ethers.Contract, proposal: GovernanceProposal): Promise<void> {
+  await send(() => governor.execute(proposal.targets, proposal.values, proposal.calldatas, proposal.descriptionHash));
+}
+
+const getVotesToken = async (governor: ethers.Contract, runner: ethers.ContractRunner) =>
+  new ethers.Contract(await governor.token(), VOTES_TOKEN_ABI, runner);
+
+export async function getVotingPower(governor: ethers.Contract, account: string): Promise<VotingPower> {
+  const token = await getVotesToken(governor, governor.runner!);
+  const [symbol, balance, votes, delegate] = await Promise.all([
+    token.symbol(),
+    token.balanceOf(account),
+    token.getVotes(account),
+    token.delegates(account)
+  ]);
+  return { symbol, balance, votes, delegate };
+}
+
+// ERC20Votes balances carry no voting power until delegated
+export async function delegateVotes(governor: ethers.Contract, delegatee: string): Promise<void> {
+  const token = await getVotesToken(governor, await getSigner());
+  await send(() => token.delegate(delegatee));
+}
@@ -0,0 +1,178 @@
+// hedges.ts
+import { ethers } from "ethers";
+import {
+  RecordCodec,
+  RecordCollection,
+  decodeRecord,
+  encodeRecord,
+  loadCollection,
+  optionalNumber,
+  optionalString,
+  requireNumber,
+  requireOneOf,
+  requireString
+} from "./records";
+import { appendToKeyList } from "./key-index";
+
+export type HedgeInstrument = "perp" | "option" | "stable-swap";
+export type OptionType = "put" | "call";
+export type HedgeStatus = "unhedged" | "partial" | "full";
+
+// Stored as JSON under hedge_<id> in the UniversalAdapter, next to the asset_<id> records
+export interface HedgePosition {
+  id: string;
+  assetId: string;
+  assetType: string;
+  instrument: HedgeInstrument;
+  // Encrypted euint128 handle of the hedged quantity, in base units of the asset
+  notional: string;
+  // Input proof of positions recorded before the vault; vault notionals were verified when they were stored
+  notionalProof?: string;
+  // EncryptedAmountVault holding the notional and its ACL grant to the owner, as for asset records
+  vault?: string;
+  // Token decimals of the notional
+  decimals: number;
+  // Perp entry, swap execution price or option strike, in USD per unit
+  entryPrice: number;
+  optionType?: OptionType;
+  expiry?: number;
+  venue: string;
+  // Premium, fees and funding paid, in USD
+  cost: number;
+  openedAt: number;
+  closedAt?: number;
+  owner: string;
+}
+
+export const INSTRUMENT_LABELS: Record<HedgeInstrument, string> = {
+  perp: "Perpetual short",
+  option: "Option",
+  "stable-swap": "Stablecoin swap"
+};
+
+export const HEDGE_KEY_PREFIX = "hedge_";
+export const HEDGE_KEYS = "hedge_keys";
+
+const INSTRUMENTS = Object.keys(INSTRUMENT_LABELS) as HedgeInstrument[];
+const OPTION_TYPES: readonly OptionType[] = ["put", "call"];
+
+export const hedgeCodec: RecordCodec<HedgePosition> = {
+  kind: "Hedge",
+  version: 2,
+  migrations: {
+    // v2 notionals are in token base units; v1 ones were encrypted as whole units
+    1: record => ({ ...record, decimals: 0 })
+  },
+  validate: record => ({
+    id: requireString(record, "id"),
+    assetId: requireString(record, "assetId"),
+    assetType: requireString(record, "assetType"),
+    instrument: requireOneOf(record, "instrument", INSTRUMENTS),
+    notional: requireString(record, "notional"),
+    notionalProof: optionalString(record, "notionalProof"),
+    vault: optionalString(record, "vault"),
+    decimals: requireNumber(record, "decimals"),
+    entryPrice: requireNumber(record, "entryPrice"),
+    optionType: record.optionType === undefined ? undefined : requireOneOf(record, "optionType", OPTION_TYPES),
+    expiry: optionalNumber(record, "expiry"),
+    venue: requireString(record, "venue", true),
+    cost: requireNumber(record, "cost"),
+    openedAt: requireNumber(record, "openedAt"),
+    closedAt: optionalNumber(record, "closedAt"),
+    owner: requireString(record, "owner")
+  })
+};
+
+export const HEDGE_RECORDS: RecordCollection<HedgePosition> = { keyPrefix: HEDGE_KEY_PREFIX, keysKey: HEDGE_KEYS, codec: hedgeCodec };
+
+export function isOpenHedge(position: HedgePosition, now = Math.floor(Date.now() / 1000)): boolean {
+  if (position.closedAt !== undefined) return false;
+  return position.expiry === undefined || position.expiry > now;
+}
+
+// USD PnL of one position at `price`; notional is the decrypted quantity
+export function hedgePnl(position: HedgePosition, notional: number, price: number): number {
+  let payoff: number;
+  switch (position.instrument) {
+    case "perp":
+    case "stable-swap":
+      // Both lock in entryPrice: a perp short gains what the asset loses, a swap has already sold at entry
+      payoff = notional * (position.entryPrice - price);
+      break;
+    case "option":
+      payoff = position.optionType === "call"
+        ? notional * Math.max(price - position.entryPrice, 0)
+        : notional * Math.max(position.entryPrice - price, 0);
+      break;
+    default:
+      throw new Error(`Unknown hedge instrument: ${(position as HedgePosition).instrument}`);
+  }
+  return payoff - position.cost;
+}
+
+// Share of an asset's quantity covered by open hedges, capped at 1; null until every amount involved is decrypted
+export function hedgeCoverage(
+  assetAmount: number | undefined,
+  positions: HedgePosition[],
+  notionals: Record<string, number>
+): number | null {
+  if (assetAmount === undefined) return null;
+  const open = positions.filter(p => isOpenHedge(p));
+  if (open.length === 0) return 0;
+  if (open.some(p => notionals[p.id] === undefined)) return null;
+  if (assetAmount <= 0) return 0;
+  const hedged = open.reduce((sum, p) => sum + notionals[p.id], 0);
+  return Math.min(hedged / assetAmount, 1);
+}
+
+export function hedgeStatusFor(coverage: number): HedgeStatus {
+  if (coverage <= 0) return "unhedged";
+  return coverage >= 1 ? "full" : "partial";
+}
+
+// The amounts `account` may decrypt: a vault grants each amount to its record's owner alone. `inVault` tells whether
+// a record's amount sits in this network's vault (see isVaultAmount); notionals are kept for the returned assets only.
+export function ownedVaultAmounts<T extends { id: string; owner: string; vault?: string }>(
+  account: string,
+  assets: T[],
+  positions: HedgePosition[],
+  inVault: (record: { vault?: string }) => boolean
+): { assets: T[]; notionals: HedgePosition[] } {
+  const owns = (record: { owner: string }) => record.owner.toLowerCase() === account.toLowerCase();
+  const owned = assets.filter(asset => owns(asset) && inVault(asset));
+  const ids = new Set(owned.map(asset => asset.id));
+  return { assets: owned, notionals: positions.filter(p => ids.has(p.assetId) && owns(p) && inVault(p)) };
+}
+
+export function parseHedgePosition(value: ethers.BytesLike): HedgePosition {
+  return decodeRecord(hedgeCodec, value);
+}
+
+// Hedge records from indexed DataStored values (see latestDataRecords)
+export function hedgesFromRecords(records: Map<string, string>): HedgePosition[] {
+  const positions: HedgePosition[] = [];
+  records.forEach((value, key) => {
+    if (key === HEDGE_KEYS || ethers.dataLength(value) === 0) return;
+    try {
+      positions.push(parseHedgePosition(value));
+    } catch (e) { console.error(`Error parsing indexed hedge ${key}:`, e); }
+  });
+  return positions;
+}
+
+export async function loadHedgePositions(adapter: ethers.Contract): Promise<HedgePosition[]> {
+  return (await loadCollection(adapter, HEDGE_RECORDS)).map(({ record }) => record);
+}
+
+export async function saveHedgePosition(adapter: ethers.Contract, position: HedgePosition): Promise<void> {
+  await (await adapter.setData(`${HEDGE_KEY_PREFIX}${position.id}`, encodeRecord(hedgeCodec, position))).wait();
+  // The position is stored at this point; a missed key list update only hides it from list readers
+  await appendToKeyList(adapter, HEDGE_RECORDS, position.id)
+    .catch(e => console.error(`hedge_keys not updated for ${position.id}; run records:reconcile:`, e));
+}
+
+export async function closeHedgePosition(adapter: ethers.Contract, position: HedgePosition): Promise<HedgePosition> {
+  const closed = { ...position, closedAt: Math.floor(Date.now() / 1000) };
+  await saveHedgePosition(adapter, closed);
+  return closed;
+}
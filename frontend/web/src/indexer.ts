@@ -0,0 +1,93 @@
+// indexer.ts
+import { getReadProvider, network } from "./contract";
+import { EventIndexer, IndexedEvent, IndexerState, IndexerStore } from "./event-indexer";
+
+// Index replay starts at the active network's indexerStartBlock (the deployment block)
+export const indexerStartBlock = network.indexerStartBlock;
+
+let appIndexer: EventIndexer | null = null;
+
+export async function getAppIndexer(): Promise<EventIndexer> {
+  if (!appIndexer) {
+    appIndexer = new EventIndexer({
+      provider: await getReadProvider(),
+      adapterAddress: network.contracts.adapter,
+      treasuryAddress: network.contracts.treasury || undefined,
+      // One database per chain so switching networks never mixes cached events
+      store: new IndexedDbIndexerStore(`treasury-indexer-${network.chainId}`),
+      startBlock: indexerStartBlock ?? 0
+    });
+  }
+  return appIndexer;
+}
+
+const EVENTS_STORE = "events";
+const META_STORE = "meta";
+// Bump whenever TREASURY_EVENTS or ADAPTER_EVENTS change so cached indexes re-sync from startBlock
+const DB_VERSION = 4;
+
+export class IndexedDbIndexerStore implements IndexerStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName = "treasury-indexer") {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          Array.from(db.objectStoreNames).forEach(name => db.deleteObjectStore(name));
+          const events = db.createObjectStore(EVENTS_STORE, { keyPath: "id" });
+          events.createIndex("blockNumber", "blockNumber");
+          db.createObjectStore(META_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private async run<T>(mode: IDBTransactionMode, work: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T | undefined> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction([EVENTS_STORE, META_STORE], mode);
+      const request = work(tx);
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  }
+
+  async load() {
+    const state = await this.run<IndexerState>("readonly", tx => tx.objectStore(META_STORE).get("state"));
+    return state ?? null;
+  }
+
+  async getEvents() {
+    const events = await this.run<IndexedEvent[]>("readonly", tx => tx.objectStore(EVENTS_STORE).index("blockNumber").getAll());
+    return (events ?? []).sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  async commit(events: IndexedEvent[], state: IndexerState) {
+    await this.run("readwrite", tx => {
+      const store = tx.objectStore(EVENTS_STORE);
+      events.forEach(event => store.put(event));
+      tx.objectStore(META_STORE).put(state, "state");
+    });
+  }
+
+  async rewind(block: number, state: IndexerState) {
+    await this.run("readwrite", tx => {
+      tx.objectStore(EVENTS_STORE).index("blockNumber").openCursor(IDBKeyRange.lowerBound(block, true)).onsuccess = (e) => {
+        const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+        if (cursor) {
+          cursor.delete();
+          cursor.continue();
+        }
+      };
+      tx.objectStore(META_STORE).put(state, "state");
+    });
+  }
+}
@@ -0,0 +1,59 @@
+// key-index.ts
+import { ethers } from "ethers";
+import { RecordCollection, decodeKeyList, encodeKeyList } from "./records";
+
+// DataStored events are the source of truth for which records exist: every setData appends one, so
+// concurrent writers cannot lose each other's keys. The <prefix>keys JSON list is only a cache for
+// readers without log access; records:reconcile rebuilds it from the events.
+
+// One DataStored event, in chain order
+export interface StoredValue {
+  key: string;
+  value: string;
+}
+
+export interface KeyIndexReport {
+  // Ids with a non-empty record according to the event log
+  stored: string[];
+  listed: string[];
+  // Stored but missing from the key list, so invisible to list readers
+  orphaned: string[];
+  // Listed but never stored or since cleared
+  dangling: string[];
+}
+
+// Ids whose latest value is non-empty, in the order they were first written
+export function recordIdsFromEvents(events: StoredValue[], collection: RecordCollection<unknown>): string[] {
+  const latest = new Map<string, string>();
+  for (const { key, value } of events) {
+    if (key.startsWith(collection.keyPrefix) && key !== collection.keysKey) latest.set(key, value);
+  }
+  return [...latest]
+    .filter(([, value]) => ethers.dataLength(value) > 0)
+    .map(([key]) => key.substring(collection.keyPrefix.length));
+}
+
+export function compareKeyIndex(stored: string[], listed: string[]): KeyIndexReport {
+  const storedSet = new Set(stored);
+  const listedSet = new Set(listed);
+  return {
+    stored,
+    listed,
+    orphaned: stored.filter(id => !listedSet.has(id)),
+    dangling: listed.filter(id => !storedSet.has(id))
+  };
+}
+
+// Key list that keeps the listed order, drops dangling ids and appends orphans
+export function repairedKeyList(report: KeyIndexReport): string[] {
+  const dangling = new Set(report.dangling);
+  return [...report.listed.filter(id => !dangling.has(id)), ...report.orphaned];
+}
+
+// Call after the record itself is written. A write lost to a concurrent appender only drops the id from
+// the cache, not the record, and records:reconcile puts it back.
+export async function appendToKeyList(adapter: ethers.Contract, collection: RecordCollection<unknown>, id: string): Promise<void> {
+  const keys = decodeKeyList(await adapter.getData(collection.keysKey));
+  if (keys.includes(id)) return;
+  await (await adapter.setData(collection.keysKey, encodeKeyList([...keys, id]))).wait();
+}
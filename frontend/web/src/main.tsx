@@ -5,15 +5,32 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { defineChain, type Chain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import { network, registry } from './contract';
+import { describeMissingContracts, type NetworkConfig } from './networks';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+const toChain = (network: NetworkConfig): Chain => defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: network.nativeCurrency,
+  rpcUrls: { default: { http: network.rpcUrls } },
+  blockExplorers: network.explorerUrl ? { default: { name: network.name, url: network.explorerUrl } } : undefined,
+  testnet: network.testnet,
+});
+
+// Every registered network the wallet may connect to, with the active one first as the default
+const chains: [Chain, ...Chain[]] = [
+  toChain(network),
+  ...Object.values(registry.networks).filter(other => other.chainId !== network.chainId).map(toChain),
+];
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains,
 });
 
 const queryClient = new QueryClient();
@@ -116,16 +133,30 @@ const AdaptiveThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   );
 };
 
-createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <WagmiConfig config={config}>
-        <BrowserRouter>
-          <AdaptiveThemeProvider>
-            <App />
-          </AdaptiveThemeProvider>
-        </BrowserRouter>
-      </WagmiConfig>
-    </QueryClientProvider>
-  </React.StrictMode>
-);
\ No newline at end of file
+// Every write would fail against a network without its contracts, so the app stops here and says what is missing
+const configurationError = describeMissingContracts(registry.activeNetwork, network);
+
+const root = createRoot(document.getElementById('root')!);
+if (configurationError) {
+  console.error(configurationError);
+  root.render(
+    <div className="no-data">
+      <h2>Configuration error</h2>
+      <p>{configurationError}</p>
+    </div>
+  );
+} else {
+  root.render(
+    <React.StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <WagmiConfig config={config}>
+          <BrowserRouter>
+            <AdaptiveThemeProvider>
+              <App />
+            </AdaptiveThemeProvider>
+          </BrowserRouter>
+        </WagmiConfig>
+      </QueryClientProvider>
+    </React.StrictMode>
+  );
+}
@@ -0,0 +1,83 @@
+// multicall.ts
+import { ethers } from "ethers";
+
+// Same address on Sepolia, mainnet and most EVM chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+export const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)"
+];
+
+export type ReadResult = { ok: true; value: string } | { ok: false; error: string };
+
+export interface BatchReadOptions {
+  // Keys per aggregate3 call, or per parallel round without Multicall3
+  chunkSize?: number;
+  // null skips Multicall3 and reads each key directly
+  multicallAddress?: string | null;
+}
+
+const DEFAULT_CHUNK_SIZE = 200;
+
+const errorMessage = (e: unknown): string => {
+  if (!(e instanceof Error)) return String(e);
+  return "shortMessage" in e && typeof e.shortMessage === "string" && e.shortMessage ? e.shortMessage : e.message;
+};
+
+const readDirectly = async (adapter: ethers.Contract, keys: string[]): Promise<ReadResult[]> =>
+  (await Promise.allSettled(keys.map(key => adapter.getData(key)))).map(settled =>
+    settled.status === "fulfilled"
+      ? { ok: true, value: ethers.hexlify(settled.value) }
+      : { ok: false, error: errorMessage(settled.reason) }
+  );
+
+const readWithMulticall = async (multicall: ethers.Contract, adapter: ethers.Contract, keys: string[]): Promise<ReadResult[]> => {
+  const target = await adapter.getAddress();
+  const calls = keys.map(key => ({ target, allowFailure: true, callData: adapter.interface.encodeFunctionData("getData", [key]) }));
+  const results: { success: boolean; returnData: string }[] = await multicall.aggregate3.staticCall(calls);
+  return results.map((result, i) => {
+    if (!result.success) return { ok: false, error: `getData(${keys[i]}) reverted` };
+    try {
+      return { ok: true, value: ethers.hexlify(adapter.interface.decodeFunctionResult("getData", result.returnData)[0]) };
+    } catch (e) {
+      return { ok: false, error: errorMessage(e) };
+    }
+  });
+};
+
+// getData for many keys in chunks. A failing key only fails its own entry, and a failing aggregate3 call
+// falls back to direct reads for that chunk.
+export async function batchGetData(
+  adapter: ethers.Contract,
+  keys: string[],
+  options: BatchReadOptions = {}
+): Promise<Map<string, ReadResult>> {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const runner = adapter.runner;
+  const provider = runner?.provider ?? (runner as ethers.Provider | null);
+  if (!provider) throw new Error("Adapter contract has no provider");
+
+  let multicall: ethers.Contract | null = null;
+  const multicallAddress = options.multicallAddress === undefined ? MULTICALL3_ADDRESS : options.multicallAddress;
+  if (multicallAddress && keys.length > 1 && (await provider.getCode(multicallAddress)) !== "0x") {
+    multicall = new ethers.Contract(multicallAddress, MULTICALL3_ABI, provider);
+  }
+
+  const results = new Map<string, ReadResult>();
+  for (let start = 0; start < keys.length; start += chunkSize) {
+    const chunk = keys.slice(start, start + chunkSize);
+    let chunkResults: ReadResult[];
+    if (multicall) {
+      try {
+        chunkResults = await readWithMulticall(multicall, adapter, chunk);
+      } catch (e) {
+        console.error("Multicall3 read failed, reading keys directly:", e);
+        chunkResults = await readDirectly(adapter, chunk);
+      }
+    } else {
+      chunkResults = await readDirectly(adapter, chunk);
+    }
+    chunk.forEach((key, i) => results.set(key, chunkResults[i]));
+  }
+  return results;
+}
@@ -0,0 +1,121 @@
+// networks.ts
+import type { PriceSettings } from "./prices";
+
+export type FheMode = "relayer" | "mock";
+
+// Zama host-chain and gateway contracts handed to the relayer SDK's createInstance. In mock mode they are the
+// FHE plugin's fixed mock deployments on the Hardhat node, and relayerUrl is the node itself.
+export interface FheGatewayConfig {
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+  gatewayChainId: number;
+  relayerUrl: string;
+}
+
+export interface NetworkContracts {
+  adapter: string;
+  // Holds the encrypted amounts behind adapter records and grants them to the members who stored them
+  vault?: string;
+  treasury?: string;
+  governor?: string;
+}
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  // Tried in order for read-only calls; public endpoints only, no API keys
+  rpcUrls: string[];
+  explorerUrl?: string;
+  testnet?: boolean;
+  contracts: NetworkContracts;
+  // Block the event index replays from, usually the adapter deployment
+  indexerStartBlock?: number;
+  fhe: { mode: FheMode; gateway?: FheGatewayConfig };
+  prices: PriceSettings;
+}
+
+// Shape of config.json: every network the app knows, and the one it is pointed at
+export interface NetworkRegistry {
+  activeNetwork: string;
+  networks: Record<string, NetworkConfig>;
+}
+
+// Shape of config.local.json: machine-local changes layered over config.json, such as the contracts a local node
+// deployed. Each network entry replaces the top-level fields it sets.
+export interface NetworkRegistryOverlay {
+  activeNetwork?: string;
+  networks?: Record<string, Partial<NetworkConfig>>;
+}
+
+export function applyRegistryOverlay(registry: NetworkRegistry, overlay: NetworkRegistryOverlay = {}): NetworkRegistry {
+  const networks = { ...registry.networks };
+  for (const [key, fields] of Object.entries(overlay.networks ?? {})) {
+    networks[key] = { ...networks[key], ...fields } as NetworkConfig;
+  }
+  return { activeNetwork: overlay.activeNetwork ?? registry.activeNetwork, networks };
+}
+
+// The overlay entry that turns `base` into `updated`: the top-level fields that differ
+export function networkOverlayFields(base: NetworkConfig | undefined, updated: NetworkConfig): Partial<NetworkConfig> {
+  return Object.fromEntries(
+    Object.entries(updated).filter(([field, value]) => JSON.stringify(base?.[field as keyof NetworkConfig]) !== JSON.stringify(value))
+  ) as Partial<NetworkConfig>;
+}
+
+export class UnknownNetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// Contracts the app writes through; the governance page reports a missing governor itself
+const REQUIRED_CONTRACTS = ["adapter", "vault", "treasury"] as const;
+
+// Why the app cannot run against `network`, or null when every required contract has an address
+export function describeMissingContracts(key: string, network: NetworkConfig): string | null {
+  const missing = REQUIRED_CONTRACTS.filter(name => !network.contracts[name]);
+  if (missing.length === 0) return null;
+  return `The active network ${network.name} ("${key}") has no ${missing.join(", ")} address in config.json. ` +
+    `Deploy the contracts to it, run npm run dev:local for a local node, or set activeNetwork to a deployed network.`;
+}
+
+export function getNetwork(registry: NetworkRegistry, key: string = registry.activeNetwork): NetworkConfig {
+  const network = registry.networks[key];
+  if (!network) {
+    throw new UnknownNetworkError(`Unknown network "${key}"; expected one of ${Object.keys(registry.networks).join(", ")}`);
+  }
+  return network;
+}
+
+export function findNetworkByChainId(registry: NetworkRegistry, chainId: number | bigint): [string, NetworkConfig] | null {
+  const entry = Object.entries(registry.networks).find(([, network]) => BigInt(network.chainId) === BigInt(chainId));
+  return entry ?? null;
+}
+
+export const toHexChainId = (chainId: number) => "0x" + chainId.toString(16);
+
+// EIP-3085 parameters for wallet_addEthereumChain
+export function addEthereumChainParams(network: NetworkConfig) {
+  return {
+    chainId: toHexChainId(network.chainId),
+    chainName: network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls: network.rpcUrls,
+    blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+  };
+}
+
+// Asks an EIP-1193 wallet to switch to the network, adding it first when the wallet does not know the chain (4902)
+export async function switchWalletNetwork(provider: { request(args: { method: string; params?: unknown[] }): Promise<unknown> }, network: NetworkConfig) {
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId: toHexChainId(network.chainId) }] });
+  } catch (e) {
+    if (typeof e !== "object" || e === null || !("code" in e) || e.code !== 4902) throw e;
+    await provider.request({ method: "wallet_addEthereumChain", params: [addEthereumChainParams(network)] });
+  }
+}
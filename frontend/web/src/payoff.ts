@@ -0,0 +1,99 @@
+// payoff.ts
+import { HedgePosition, hedgePnl, isOpenHedge } from "./hedges";
+import { AssetPrice } from "./prices";
+import { PriceHistory } from "./risk";
+
+// Decrypted quantity held of one asset type
+export interface Exposure {
+  symbol: string;
+  amount: number;
+}
+
+export interface PayoffPoint {
+  move: number;
+  unhedgedUsd: number;
+  hedgedUsd: number;
+}
+
+export interface TimeSeries {
+  labels: string[];
+  values: number[];
+}
+
+export interface CompositionSeries {
+  labels: string[];
+  bySymbol: Record<string, number[]>;
+}
+
+export const DEFAULT_MOVES = Array.from({ length: 21 }, (_, i) => -0.5 + i * 0.05);
+
+// Open positions whose notional has been decrypted; the rest cannot be valued
+const valuedHedges = (hedges: HedgePosition[], notionals: Record<string, number>) =>
+  hedges.filter(h => isOpenHedge(h) && notionals[h.id] !== undefined);
+
+// Portfolio value with and without hedges when `movedSymbols` all move by the same relative amount
+export function payoffCurve(
+  exposures: Exposure[],
+  hedges: HedgePosition[],
+  notionals: Record<string, number>,
+  prices: Record<string, AssetPrice>,
+  moves: number[] = DEFAULT_MOVES,
+  movedSymbols?: string[]
+): PayoffPoint[] {
+  const priceAfter = (symbol: string, move: number) =>
+    prices[symbol].usd * (!movedSymbols || movedSymbols.includes(symbol) ? 1 + move : 1);
+  const priced = exposures.filter(e => prices[e.symbol]);
+  const positions = valuedHedges(hedges, notionals).filter(h => prices[h.assetType]);
+
+  return moves.map(move => {
+    const unhedgedUsd = priced.reduce((sum, e) => sum + e.amount * priceAfter(e.symbol, move), 0);
+    const hedgePayoff = positions.reduce((sum, h) => sum + hedgePnl(h, notionals[h.id], priceAfter(h.assetType, move)), 0);
+    return { move, unhedgedUsd, hedgedUsd: unhedgedUsd + hedgePayoff };
+  });
+}
+
+// Appends today's quotes from the price source as a final "Now" observation where a symbol has one
+const withCurrentPrices = (history: PriceHistory, symbols: string[], prices: Record<string, AssetPrice>) => {
+  const labels = [...history.dates, "Now"];
+  const series: Record<string, number[]> = {};
+  for (const symbol of symbols) {
+    const past = history.prices[symbol];
+    if (!past) continue;
+    series[symbol] = [...past, prices[symbol]?.usd ?? past[past.length - 1]];
+  }
+  return { labels, series };
+};
+
+// USD value per symbol of today's holdings at each historical close
+export function compositionSeries(
+  exposures: Exposure[],
+  history: PriceHistory,
+  prices: Record<string, AssetPrice>
+): CompositionSeries {
+  const amounts: Record<string, number> = {};
+  for (const e of exposures) amounts[e.symbol] = (amounts[e.symbol] ?? 0) + e.amount;
+  const { labels, series } = withCurrentPrices(history, Object.keys(amounts), prices);
+
+  const bySymbol: Record<string, number[]> = {};
+  for (const [symbol, closes] of Object.entries(series)) {
+    bySymbol[symbol] = closes.map(price => price * amounts[symbol]);
+  }
+  return { labels, bySymbol };
+}
+
+// Mark-to-market PnL of today's open hedges at each historical close, net of cost
+export function hedgePnlSeries(
+  hedges: HedgePosition[],
+  notionals: Record<string, number>,
+  history: PriceHistory,
+  prices: Record<string, AssetPrice>
+): TimeSeries {
+  const positions = valuedHedges(hedges, notionals);
+  const { labels, series } = withCurrentPrices(history, [...new Set(positions.map(h => h.assetType))], prices);
+
+  const values = labels.map((_, i) => positions.reduce((sum, h) => {
+    const closes = series[h.assetType];
+    return closes ? sum + hedgePnl(h, notionals[h.id], closes[i]) : sum;
+  }, 0));
+  return { labels, values };
+}
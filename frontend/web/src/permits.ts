@@ -0,0 +1,118 @@
+// permits.ts
+import { ethers } from "ethers";
+import type { KeyValueStorage } from "./snapshot-cache";
+
+export const PERMIT_DURATION_DAYS = 1;
+// A permit this close to expiry is renewed instead of being sent with a decryption request
+const RENEW_BEFORE_EXPIRY_SECONDS = 5 * 60;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+// A signed user-decryption authorization: a fresh keypair whose public key the user allowed, by EIP-712
+// signature, to receive re-encrypted values from the listed contracts until it expires
+export interface DecryptionPermit {
+  userAddress: string;
+  contractAddresses: string[];
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+// EIP-712 payload as the relayer SDK builds it; `types` includes EIP712Domain
+export interface PermitTypedData {
+  domain: ethers.TypedDataDomain;
+  types: Record<string, ethers.TypedDataField[]>;
+  message: Record<string, unknown>;
+}
+
+// The parts of an FhevmInstance that issue permits
+export interface PermitIssuer {
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(publicKey: string, contractAddresses: string[], startTimestamp: number, durationDays: number): PermitTypedData;
+}
+
+export const permitExpiresAt = (permit: DecryptionPermit) => permit.startTimestamp + permit.durationDays * 86_400;
+
+const sameAddress = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function permitCovers(
+  permit: DecryptionPermit,
+  userAddress: string,
+  contractAddresses: string[],
+  now = nowSeconds()
+): boolean {
+  if (!sameAddress(permit.userAddress, userAddress)) return false;
+  if (now < permit.startTimestamp || now + RENEW_BEFORE_EXPIRY_SECONDS >= permitExpiresAt(permit)) return false;
+  return contractAddresses.every(address => permit.contractAddresses.some(allowed => sameAddress(allowed, address)));
+}
+
+export async function signPermit(
+  issuer: PermitIssuer,
+  signer: ethers.Signer,
+  contractAddresses: string[],
+  options: { now?: number; durationDays?: number } = {}
+): Promise<DecryptionPermit> {
+  const userAddress = await signer.getAddress();
+  const startTimestamp = options.now ?? nowSeconds();
+  const durationDays = options.durationDays ?? PERMIT_DURATION_DAYS;
+  const keypair = issuer.generateKeypair();
+  const eip712 = issuer.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
+  // ethers derives the domain type itself and rejects an explicit EIP712Domain entry
+  const { EIP712Domain: _domain, ...types } = eip712.types;
+  const signature = await signer.signTypedData(eip712.domain, types, eip712.message);
+  return { userAddress, contractAddresses, ...keypair, signature, startTimestamp, durationDays };
+}
+
+// One permit per user for the rest of its validity window, so members sign once per session rather than
+// once per decryption. A request for a contract the permit does not cover signs a new one covering both.
+export class PermitCache {
+  constructor(
+    private readonly storage: KeyValueStorage | undefined,
+    private readonly namespace: string
+  ) {}
+
+  private key(userAddress: string) {
+    return `${this.namespace}:${userAddress.toLowerCase()}`;
+  }
+
+  read(userAddress: string): DecryptionPermit | null {
+    if (!this.storage) return null;
+    try {
+      return JSON.parse(this.storage.getItem(this.key(userAddress)) || "null");
+    } catch (e) {
+      return null;
+    }
+  }
+
+  get(userAddress: string, contractAddresses: string[], now = nowSeconds()): DecryptionPermit | null {
+    const permit = this.read(userAddress);
+    return permit && permitCovers(permit, userAddress, contractAddresses, now) ? permit : null;
+  }
+
+  async getOrSign(
+    issuer: PermitIssuer,
+    signer: ethers.Signer,
+    contractAddresses: string[],
+    now = nowSeconds()
+  ): Promise<DecryptionPermit> {
+    const userAddress = await signer.getAddress();
+    const cached = this.get(userAddress, contractAddresses, now);
+    if (cached) return cached;
+
+    const previous = this.read(userAddress);
+    const covered = previous && permitExpiresAt(previous) > now ? previous.contractAddresses : [];
+    const addresses = [...covered];
+    for (const address of contractAddresses) {
+      if (!addresses.some(existing => sameAddress(existing, address))) addresses.push(address);
+    }
+    const permit = await signPermit(issuer, signer, addresses, { now });
+    this.storage?.setItem(this.key(userAddress), JSON.stringify(permit));
+    return permit;
+  }
+
+  clear(userAddress: string) {
+    this.storage?.removeItem(this.key(userAddress));
+  }
+}
@@ -0,0 +1,174 @@
+// prices.ts
+import { ethers } from "ethers";
+import staticPricesJson from "./static-prices.json";
+
+export interface AssetPrice {
+  symbol: string;
+  usd: number;
+  updatedAt: number; // unix seconds
+  source: string;
+}
+
+export interface PriceSource {
+  readonly name: string;
+  // Symbols the source has no price for are left out of the result
+  getPrices(symbols: string[]): Promise<Record<string, AssetPrice>>;
+}
+
+export type PriceSourceKind = "chainlink" | "static" | "mock";
+
+export interface PriceSettings {
+  source: PriceSourceKind;
+  maxAgeSeconds: number;
+  chainlinkFeeds?: Record<string, string>;
+}
+
+export interface StaticPriceFile {
+  updatedAt: number;
+  prices: Record<string, number>;
+}
+
+export interface Holding {
+  symbol: string;
+  amount: number;
+  hedgedFraction: number;
+}
+
+export interface PortfolioValuation {
+  totalUsd: number;
+  hedgedUsd: number;
+  bySymbol: Record<string, number>;
+  // Symbols held but missing a price; excluded from the totals rather than counted as $0
+  unpriced: string[];
+}
+
+export const AGGREGATOR_V3_ABI = [
+  "function decimals() view returns (uint8)",
+  "function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)"
+];
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = "Chainlink";
+
+  constructor(
+    private readonly feeds: Record<string, string>,
+    private readonly getProvider: () => Promise<ethers.Provider>
+  ) {}
+
+  async getPrices(symbols: string[]): Promise<Record<string, AssetPrice>> {
+    const provider = await this.getProvider();
+    const prices: Record<string, AssetPrice> = {};
+    await Promise.all(symbols.map(async symbol => {
+      const feed = this.feeds[symbol];
+      if (!feed) return;
+      try {
+        const aggregator = new ethers.Contract(feed, AGGREGATOR_V3_ABI, provider);
+        const [decimals, round] = await Promise.all([aggregator.decimals(), aggregator.latestRoundData()]);
+        if (round.answer <= 0n) return;
+        prices[symbol] = {
+          symbol,
+          usd: Number(ethers.formatUnits(round.answer, decimals)),
+          updatedAt: Number(round.updatedAt),
+          source: this.name
+        };
+      } catch (e) {
+        console.error(`Chainlink feed ${feed} for ${symbol} failed:`, e);
+      }
+    }));
+    return prices;
+  }
+}
+
+export class StaticPriceSource implements PriceSource {
+  readonly name = "Static price file";
+
+  constructor(private readonly file: StaticPriceFile = staticPricesJson) {}
+
+  async getPrices(symbols: string[]): Promise<Record<string, AssetPrice>> {
+    const prices: Record<string, AssetPrice> = {};
+    for (const symbol of symbols) {
+      const usd = this.file.prices[symbol];
+      if (usd === undefined) continue;
+      prices[symbol] = { symbol, usd, updatedAt: this.file.updatedAt, source: this.name };
+    }
+    return prices;
+  }
+}
+
+// In-memory feed for local development: starts from the static file and only moves when told to
+export class MockPriceSource implements PriceSource {
+  readonly name = "Mock feed";
+  private readonly prices = new Map<string, { usd: number; updatedAt: number }>();
+
+  constructor(initial: Record<string, number> = staticPricesJson.prices) {
+    for (const [symbol, usd] of Object.entries(initial)) this.setPrice(symbol, usd);
+  }
+
+  setPrice(symbol: string, usd: number, updatedAt = nowSeconds()) {
+    if (!Number.isFinite(usd) || usd < 0) throw new Error(`Invalid price for ${symbol}: ${usd}`);
+    this.prices.set(symbol, { usd, updatedAt });
+  }
+
+  // Moves every price by the same relative amount, e.g. -0.2 for a 20% drop
+  shock(change: number, symbols: string[] = [...this.prices.keys()]) {
+    for (const symbol of symbols) {
+      const current = this.prices.get(symbol);
+      if (current) this.setPrice(symbol, current.usd * (1 + change));
+    }
+  }
+
+  async getPrices(symbols: string[]): Promise<Record<string, AssetPrice>> {
+    const prices: Record<string, AssetPrice> = {};
+    for (const symbol of symbols) {
+      const price = this.prices.get(symbol);
+      if (price) prices[symbol] = { symbol, ...price, source: this.name };
+    }
+    return prices;
+  }
+}
+
+export function createPriceSource(settings: PriceSettings, getProvider: () => Promise<ethers.Provider>): PriceSource {
+  switch (settings.source) {
+    case "chainlink":
+      return new ChainlinkPriceSource(settings.chainlinkFeeds ?? {}, getProvider);
+    case "mock":
+      return new MockPriceSource();
+    case "static":
+      return new StaticPriceSource();
+    default:
+      throw new Error(`Unknown price source: ${settings.source}`);
+  }
+}
+
+export function priceAgeSeconds(price: AssetPrice, now = nowSeconds()): number {
+  return Math.max(now - price.updatedAt, 0);
+}
+
+export function isPriceStale(price: AssetPrice, maxAgeSeconds: number, now = nowSeconds()): boolean {
+  return priceAgeSeconds(price, now) > maxAgeSeconds;
+}
+
+export function valuePortfolio(holdings: Holding[], prices: Record<string, AssetPrice>): PortfolioValuation {
+  const valuation: PortfolioValuation = { totalUsd: 0, hedgedUsd: 0, bySymbol: {}, unpriced: [] };
+  for (const holding of holdings) {
+    const price = prices[holding.symbol];
+    if (!price) {
+      if (!valuation.unpriced.includes(holding.symbol)) valuation.unpriced.push(holding.symbol);
+      continue;
+    }
+    const usd = holding.amount * price.usd;
+    valuation.totalUsd += usd;
+    valuation.hedgedUsd += usd * holding.hedgedFraction;
+    valuation.bySymbol[holding.symbol] = (valuation.bySymbol[holding.symbol] ?? 0) + usd;
+  }
+  return valuation;
+}
+
+export function formatAge(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+  if (seconds < 86_400) return `${Math.floor(seconds / 3600)}h`;
+  return `${Math.floor(seconds / 86_400)}d`;
+}
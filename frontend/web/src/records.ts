@@ -0,0 +1,188 @@
+// records.ts
+import { ethers } from "ethers";
+import { BatchReadOptions, batchGetData } from "./multicall";
+
+export class RecordSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// One migration per step: migrations[n] turns a version n record into version n + 1
+export type Migration = (record: Record<string, unknown>) => Record<string, unknown>;
+
+export interface RecordCodec<T> {
+  readonly kind: string;
+  readonly version: number;
+  readonly migrations: Record<number, Migration>;
+  // Throws RecordSchemaError unless `record` has the current shape; returns it typed
+  validate(record: Record<string, unknown>): T;
+}
+
+// A family of JSON records under one key prefix, listed in a JSON key array
+export interface RecordCollection<T> {
+  keyPrefix: string;
+  keysKey: string;
+  codec: RecordCodec<T>;
+}
+
+export interface MigrationResult {
+  key: string;
+  fromVersion: number | null;
+  toVersion: number;
+  status: "current" | "migrated" | "invalid";
+  error?: string;
+}
+
+// Records written before schemaVersion existed
+const UNVERSIONED = 1;
+
+const parseJson = (bytes: ethers.BytesLike, what: string): unknown => {
+  try {
+    return JSON.parse(ethers.toUtf8String(bytes));
+  } catch {
+    throw new RecordSchemaError(`${what} is not valid JSON`);
+  }
+};
+
+const isJsonObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export function recordVersion(record: Record<string, unknown>): number {
+  const version = record.schemaVersion ?? UNVERSIONED;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new RecordSchemaError(`Invalid schemaVersion: ${version}`);
+  }
+  return version;
+}
+
+// upgradeRecord, also reporting the version the record was stored at
+function upgrade<T>(codec: RecordCodec<T>, record: unknown): { fromVersion: number; value: T } {
+  if (!isJsonObject(record)) throw new RecordSchemaError(`${codec.kind} record must be a JSON object`);
+  const fromVersion = recordVersion(record);
+  if (fromVersion > codec.version) {
+    throw new RecordSchemaError(`${codec.kind} record has schemaVersion ${fromVersion}; this app reads up to ${codec.version}`);
+  }
+  let current: Record<string, unknown> = { ...record };
+  let version = fromVersion;
+  for (; version < codec.version; version++) {
+    const migrate = codec.migrations[version];
+    if (!migrate) throw new RecordSchemaError(`No ${codec.kind} migration from schemaVersion ${version}`);
+    current = migrate(current);
+  }
+  delete current.schemaVersion;
+  // Optional fields come back absent rather than undefined, as they were stored
+  const validated = codec.validate(current) as Record<string, unknown>;
+  return { fromVersion, value: Object.fromEntries(Object.entries(validated).filter(([, value]) => value !== undefined)) as T };
+}
+
+// Upgrades a parsed record to the codec's version and validates it, without the schemaVersion field
+export function upgradeRecord<T>(codec: RecordCodec<T>, record: unknown): T {
+  return upgrade(codec, record).value;
+}
+
+export function decodeRecord<T>(codec: RecordCodec<T>, bytes: ethers.BytesLike): T {
+  return upgradeRecord(codec, parseJson(bytes, `${codec.kind} record`));
+}
+
+export function encodeRecord<T extends object>(codec: RecordCodec<T>, value: T): Uint8Array {
+  const fields = codec.validate({ ...value } as Record<string, unknown>);
+  return ethers.toUtf8Bytes(JSON.stringify({ schemaVersion: codec.version, ...fields }));
+}
+
+export function decodeKeyList(bytes: ethers.BytesLike): string[] {
+  if (ethers.dataLength(bytes) === 0) return [];
+  const keys = parseJson(bytes, "Key list");
+  if (!Array.isArray(keys) || keys.some(key => typeof key !== "string")) {
+    throw new RecordSchemaError("Key list must be a JSON array of strings");
+  }
+  return keys;
+}
+
+export function encodeKeyList(keys: string[]): Uint8Array {
+  return ethers.toUtf8Bytes(JSON.stringify(keys));
+}
+
+// Field checks for codec validate() implementations
+
+export function requireString(record: Record<string, unknown>, field: string, allowEmpty = false): string {
+  const value = record[field];
+  if (typeof value !== "string" || (!allowEmpty && value === "")) {
+    throw new RecordSchemaError(`${field} must be a ${allowEmpty ? "" : "non-empty "}string`);
+  }
+  return value;
+}
+
+export function requireNumber(record: Record<string, unknown>, field: string): number {
+  const value = record[field];
+  if (typeof value !== "number" || !Number.isFinite(value)) throw new RecordSchemaError(`${field} must be a number`);
+  return value;
+}
+
+export function optionalString(record: Record<string, unknown>, field: string): string | undefined {
+  return record[field] === undefined ? undefined : requireString(record, field);
+}
+
+export function optionalNumber(record: Record<string, unknown>, field: string): number | undefined {
+  return record[field] === undefined ? undefined : requireNumber(record, field);
+}
+
+export function requireOneOf<T extends string>(record: Record<string, unknown>, field: string, allowed: readonly T[]): T {
+  const value = allowed.find(option => option === record[field]);
+  if (value === undefined) throw new RecordSchemaError(`${field} must be one of ${allowed.join(", ")}`);
+  return value;
+}
+
+// Every listed record, read in batches; records that fail to load or decode are logged and skipped
+export async function loadCollection<T>(
+  adapter: ethers.Contract,
+  collection: RecordCollection<T>,
+  options: BatchReadOptions = {}
+): Promise<{ id: string; record: T }[]> {
+  const ids = [...new Set(decodeKeyList(await adapter.getData(collection.keysKey)))];
+  const values = await batchGetData(adapter, ids.map(id => `${collection.keyPrefix}${id}`), options);
+
+  const loaded: { id: string; record: T }[] = [];
+  for (const id of ids) {
+    const key = `${collection.keyPrefix}${id}`;
+    const result = values.get(key)!;
+    if (!result.ok) { console.error(`Error loading ${key}: ${result.error}`); continue; }
+    if (ethers.dataLength(result.value) === 0) continue;
+    try {
+      loaded.push({ id, record: decodeRecord(collection.codec, result.value) });
+    } catch (e) { console.error(`Error parsing ${key}:`, e); }
+  }
+  return loaded;
+}
+
+// Rewrites every listed record that is behind the codec's version; dryRun only reports
+export async function migrateCollection<T extends object>(
+  adapter: ethers.Contract,
+  collection: RecordCollection<T>,
+  options: { dryRun?: boolean; onResult?: (result: MigrationResult) => void } = {}
+): Promise<MigrationResult[]> {
+  const { codec } = collection;
+  const results: MigrationResult[] = [];
+  for (const id of decodeKeyList(await adapter.getData(collection.keysKey))) {
+    const key = `${collection.keyPrefix}${id}`;
+    let result: MigrationResult;
+    try {
+      const bytes = await adapter.getData(key);
+      if (ethers.dataLength(bytes) === 0) continue;
+      const { fromVersion, value: upgraded } = upgrade(codec, parseJson(bytes, key));
+      if (fromVersion === codec.version) {
+        result = { key, fromVersion, toVersion: codec.version, status: "current" };
+      } else {
+        if (!options.dryRun) await (await adapter.setData(key, encodeRecord(codec, upgraded))).wait();
+        result = { key, fromVersion, toVersion: codec.version, status: "migrated" };
+      }
+    } catch (e) {
+      if (!(e instanceof RecordSchemaError)) throw e;
+      result = { key, fromVersion: null, toVersion: codec.version, status: "invalid", error: e.message };
+    }
+    results.push(result);
+    options.onResult?.(result);
+  }
+  return results;
+}
@@ -0,0 +1,219 @@
+// risk.ts
+export interface PriceHistory {
+  dates: string[];
+  prices: Record<string, number[]>;
+}
+
+// USD exposure per asset type; hedgedFraction offsets price moves one for one
+export interface RiskPosition {
+  symbol: string;
+  valueUsd: number;
+  hedgedFraction: number;
+}
+
+export interface StressScenario {
+  name: string;
+  // Relative price change per symbol, e.g. -0.4 for a 40% drop
+  shocks: Record<string, number>;
+}
+
+export interface RiskMetrics {
+  historicalVaR: number;
+  parametricVaR: number;
+  expectedShortfall: number;
+  dailyVolatility: number;
+  annualizedVolatility: number;
+}
+
+export interface StressResult {
+  scenario: string;
+  unhedgedPnl: number;
+  hedgedPnl: number;
+}
+
+export interface RiskReport {
+  confidence: number;
+  observations: number;
+  unhedged: RiskMetrics;
+  hedged: RiskMetrics;
+  correlation: CorrelationMatrix;
+  stress: StressResult[];
+  // Held symbols with no price history; their exposure is left out of every metric
+  missingHistory: string[];
+}
+
+export interface CorrelationMatrix {
+  symbols: string[];
+  values: number[][];
+}
+
+export const DEFAULT_SCENARIOS: StressScenario[] = [
+  { name: "ETH -40%, stables depeg 5%", shocks: { ETH: -0.4, USDC: -0.05, DAI: -0.05 } },
+  { name: "Crypto crash: BTC -50%, ETH -60%, alts -70%", shocks: { BTC: -0.5, WBTC: -0.5, ETH: -0.6, UNI: -0.7, LINK: -0.7 } },
+  { name: "Stablecoin depeg 10%", shocks: { USDC: -0.1, DAI: -0.1 } },
+  { name: "Rally: crypto +30%", shocks: { BTC: 0.3, WBTC: 0.3, ETH: 0.3, UNI: 0.3, LINK: 0.3 } }
+];
+
+const DAYS_PER_YEAR = 365;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const stdDev = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+// Acklam's rational approximation of the standard normal inverse CDF (relative error < 1.2e-9)
+export function normalQuantile(p: number): number {
+  if (p <= 0 || p >= 1) throw new Error(`Probability must be in (0, 1): ${p}`);
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) return -normalQuantile(1 - p);
+  const q = p - 0.5;
+  const r = q * q;
+  return ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) / (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+export function simpleReturns(series: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < series.length; i++) {
+    returns.push(series[i] / series[i - 1] - 1);
+  }
+  return returns;
+}
+
+// Daily portfolio PnL in USD had today's exposures been held over each historical day
+export function portfolioPnlSeries(positions: RiskPosition[], history: PriceHistory, hedged: boolean): number[] {
+  const days = history.dates.length - 1;
+  const pnl = new Array<number>(Math.max(days, 0)).fill(0);
+  for (const position of positions) {
+    const series = history.prices[position.symbol];
+    if (!series) continue;
+    const exposure = position.valueUsd * (hedged ? 1 - position.hedgedFraction : 1);
+    simpleReturns(series).forEach((r, i) => { pnl[i] += exposure * r; });
+  }
+  return pnl;
+}
+
+// Index of the VaR observation in ascending PnL; the epsilon keeps 1 - 0.9 from flooring 10 * 0.0999... to 0
+const tailIndex = (length: number, confidence: number) =>
+  Math.min(Math.floor((1 - confidence) * length + 1e-9), length - 1);
+
+// Losses are reported as positive numbers
+export function historicalVaR(pnl: number[], confidence: number): number {
+  if (pnl.length === 0) return 0;
+  const sorted = [...pnl].sort((a, b) => a - b);
+  return Math.max(-sorted[tailIndex(sorted.length, confidence)], 0);
+}
+
+export function expectedShortfall(pnl: number[], confidence: number): number {
+  if (pnl.length === 0) return 0;
+  const sorted = [...pnl].sort((a, b) => a - b);
+  return Math.max(-mean(sorted.slice(0, tailIndex(sorted.length, confidence) + 1)), 0);
+}
+
+export function parametricVaR(pnl: number[], confidence: number): number {
+  if (pnl.length < 2) return 0;
+  return Math.max(-(mean(pnl) + normalQuantile(1 - confidence) * stdDev(pnl)), 0);
+}
+
+export function correlationMatrix(history: PriceHistory, symbols: string[]): CorrelationMatrix {
+  const returns = symbols.map(symbol => simpleReturns(history.prices[symbol] ?? []));
+  const values = returns.map((a, i) => returns.map((b, j) => {
+    if (i === j) return 1;
+    const n = Math.min(a.length, b.length);
+    if (n < 2) return 0;
+    const ma = mean(a.slice(0, n));
+    const mb = mean(b.slice(0, n));
+    let cov = 0;
+    let va = 0;
+    let vb = 0;
+    for (let k = 0; k < n; k++) {
+      cov += (a[k] - ma) * (b[k] - mb);
+      va += (a[k] - ma) ** 2;
+      vb += (b[k] - mb) ** 2;
+    }
+    return va === 0 || vb === 0 ? 0 : cov / Math.sqrt(va * vb);
+  }));
+  return { symbols, values };
+}
+
+export function stressTest(positions: RiskPosition[], scenario: StressScenario): StressResult {
+  let unhedgedPnl = 0;
+  let hedgedPnl = 0;
+  for (const position of positions) {
+    const shock = scenario.shocks[position.symbol] ?? 0;
+    unhedgedPnl += position.valueUsd * shock;
+    hedgedPnl += position.valueUsd * (1 - position.hedgedFraction) * shock;
+  }
+  return { scenario: scenario.name, unhedgedPnl, hedgedPnl };
+}
+
+const metrics = (pnl: number[], totalUsd: number, confidence: number): RiskMetrics => {
+  const dailyVolatility = totalUsd > 0 ? stdDev(pnl) / totalUsd : 0;
+  return {
+    historicalVaR: historicalVaR(pnl, confidence),
+    parametricVaR: parametricVaR(pnl, confidence),
+    expectedShortfall: expectedShortfall(pnl, confidence),
+    dailyVolatility,
+    annualizedVolatility: dailyVolatility * Math.sqrt(DAYS_PER_YEAR)
+  };
+};
+
+export function analyzeRisk(
+  positions: RiskPosition[],
+  history: PriceHistory,
+  confidence = 0.95,
+  scenarios: StressScenario[] = DEFAULT_SCENARIOS
+): RiskReport {
+  const covered = positions.filter(p => history.prices[p.symbol]);
+  const missingHistory = [...new Set(positions.filter(p => !history.prices[p.symbol]).map(p => p.symbol))];
+  const totalUsd = covered.reduce((sum, p) => sum + p.valueUsd, 0);
+  const symbols = [...new Set(covered.map(p => p.symbol))];
+
+  return {
+    confidence,
+    observations: Math.max(history.dates.length - 1, 0),
+    unhedged: metrics(portfolioPnlSeries(covered, history, false), totalUsd, confidence),
+    hedged: metrics(portfolioPnlSeries(covered, history, true), totalUsd, confidence),
+    correlation: correlationMatrix(history, symbols),
+    stress: scenarios.map(scenario => stressTest(covered, scenario)),
+    missingHistory
+  };
+}
+
+// "date,ETH,BTC,..." header followed by one row of USD closes per day
+export function parsePriceHistoryCsv(text: string): PriceHistory {
+  const rows = text.trim().split(/\r?\n/).map(line => line.split(",").map(cell => cell.trim()));
+  if (rows.length < 2 || rows[0][0].toLowerCase() !== "date") throw new Error("Price CSV must start with a date,<symbol>... header");
+  const symbols = rows[0].slice(1);
+  const history: PriceHistory = { dates: [], prices: Object.fromEntries(symbols.map(s => [s, [] as number[]])) };
+  for (const [i, row] of rows.slice(1).entries()) {
+    if (row.length !== symbols.length + 1) throw new Error(`Price CSV row ${i + 2} has ${row.length} columns, expected ${symbols.length + 1}`);
+    history.dates.push(row[0]);
+    symbols.forEach((symbol, j) => {
+      const price = Number(row[j + 1]);
+      if (!Number.isFinite(price) || price <= 0) throw new Error(`Invalid ${symbol} price on ${row[0]}: ${row[j + 1]}`);
+      history.prices[symbol].push(price);
+    });
+  }
+  return history;
+}
+
+export function parsePriceHistoryJson(text: string): PriceHistory {
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed.dates) || typeof parsed.prices !== "object") throw new Error("Price JSON needs dates and prices");
+  for (const [symbol, series] of Object.entries(parsed.prices)) {
+    if (!Array.isArray(series) || series.length !== parsed.dates.length) throw new Error(`${symbol} series does not match the dates`);
+  }
+  return { dates: parsed.dates, prices: parsed.prices };
+}
@@ -0,0 +1,192 @@
+// safe.ts
+import { ethers } from "ethers";
+
+export const SAFE_ABI = [
+  "function nonce() view returns (uint256)",
+  "function getThreshold() view returns (uint256)",
+  "function getOwners() view returns (address[])",
+  "function isOwner(address owner) view returns (bool)",
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)",
+  "event ExecutionSuccess(bytes32 indexed txHash, uint256 payment)",
+  "event ExecutionFailure(bytes32 indexed txHash, uint256 payment)"
+];
+
+export const SAFE_TX_TYPES: Record<string, ethers.TypedDataField[]> = {
+  SafeTx: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+    { name: "safeTxGas", type: "uint256" },
+    { name: "baseGas", type: "uint256" },
+    { name: "gasPrice", type: "uint256" },
+    { name: "gasToken", type: "address" },
+    { name: "refundReceiver", type: "address" },
+    { name: "nonce", type: "uint256" }
+  ]
+};
+
+// Numeric fields are decimal strings so proposals survive JSON export
+export interface SafeTransaction {
+  to: string;
+  value: string;
+  data: string;
+  operation: 0 | 1;
+  safeTxGas: string;
+  baseGas: string;
+  gasPrice: string;
+  gasToken: string;
+  refundReceiver: string;
+  nonce: string;
+}
+
+export interface SafeSignature {
+  signer: string;
+  data: string;
+}
+
+export interface SafeProposal {
+  safeAddress: string;
+  chainId: string;
+  description: string;
+  transaction: SafeTransaction;
+  safeTxHash: string;
+  signatures: SafeSignature[];
+}
+
+export type SafeSigner = Pick<ethers.Signer, "getAddress" | "signTypedData">;
+
+export function getSafe(safeAddress: string, runner: ethers.ContractRunner) {
+  return new ethers.Contract(safeAddress, SAFE_ABI, runner);
+}
+
+export async function isSafeContract(provider: ethers.Provider, address: string): Promise<boolean> {
+  if ((await provider.getCode(address)) === "0x") return false;
+  try {
+    await getSafe(address, provider).getThreshold();
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+export async function getSafeInfo(safe: ethers.Contract): Promise<{ owners: string[]; threshold: number; nonce: bigint }> {
+  const [owners, threshold, nonce] = await Promise.all([safe.getOwners(), safe.getThreshold(), safe.nonce()]);
+  return { owners: [...owners], threshold: Number(threshold), nonce };
+}
+
+export function safeTxDomain(chainId: string | bigint, safeAddress: string): ethers.TypedDataDomain {
+  return { chainId: BigInt(chainId), verifyingContract: safeAddress };
+}
+
+export function getSafeTxHash(chainId: string | bigint, safeAddress: string, tx: SafeTransaction): string {
+  return ethers.TypedDataEncoder.hash(safeTxDomain(chainId, safeAddress), SAFE_TX_TYPES, tx);
+}
+
+// Plain CALL from the Safe with no gas refund, at the Safe's current nonce unless one is given
+export async function createSafeProposal(
+  safe: ethers.Contract,
+  chainId: string | bigint,
+  to: string,
+  data: string,
+  description: string,
+  nonce?: bigint
+): Promise<SafeProposal> {
+  const safeAddress = await safe.getAddress();
+  const transaction: SafeTransaction = {
+    to,
+    value: "0",
+    data,
+    operation: 0,
+    safeTxGas: "0",
+    baseGas: "0",
+    gasPrice: "0",
+    gasToken: ethers.ZeroAddress,
+    refundReceiver: ethers.ZeroAddress,
+    nonce: (nonce ?? await safe.nonce()).toString()
+  };
+  return {
+    safeAddress,
+    chainId: chainId.toString(),
+    description,
+    transaction,
+    safeTxHash: getSafeTxHash(chainId, safeAddress, transaction),
+    signatures: []
+  };
+}
+
+export function addSafeSignature(proposal: SafeProposal, signature: SafeSignature): SafeProposal {
+  const recovered = ethers.verifyTypedData(
+    safeTxDomain(proposal.chainId, proposal.safeAddress),
+    SAFE_TX_TYPES,
+    proposal.transaction,
+    signature.data
+  );
+  if (recovered.toLowerCase() !== signature.signer.toLowerCase()) {
+    throw new Error(`Signature does not match signer ${signature.signer}`);
+  }
+  const others = proposal.signatures.filter(s => s.signer.toLowerCase() !== recovered.toLowerCase());
+  return { ...proposal, signatures: [...others, { signer: recovered, data: signature.data }] };
+}
+
+export async function signSafeProposal(proposal: SafeProposal, signer: SafeSigner): Promise<SafeProposal> {
+  const data = await signer.signTypedData(
+    safeTxDomain(proposal.chainId, proposal.safeAddress),
+    SAFE_TX_TYPES,
+    proposal.transaction
+  );
+  return addSafeSignature(proposal, { signer: await signer.getAddress(), data });
+}
+
+// Safe requires signatures concatenated in ascending signer order
+export function encodeSafeSignatures(signatures: SafeSignature[]): string {
+  const sorted = [...signatures].sort((a, b) => (BigInt(a.signer) < BigInt(b.signer) ? -1 : 1));
+  return ethers.concat(sorted.map(s => s.data));
+}
+
+export async function executeSafeProposal(safe: ethers.Contract, proposal: SafeProposal): Promise<ethers.ContractTransactionReceipt> {
+  const { threshold, nonce } = await getSafeInfo(safe);
+  if (BigInt(proposal.transaction.nonce) !== nonce) {
+    throw new Error(`Proposal nonce ${proposal.transaction.nonce} does not match Safe nonce ${nonce}`);
+  }
+  if (proposal.signatures.length < threshold) {
+    throw new Error(`Proposal has ${proposal.signatures.length} of ${threshold} required signatures`);
+  }
+
+  const tx = proposal.transaction;
+  const response: ethers.ContractTransactionResponse = await safe.execTransaction(
+    tx.to,
+    tx.value,
+    tx.data,
+    tx.operation,
+    tx.safeTxGas,
+    tx.baseGas,
+    tx.gasPrice,
+    tx.gasToken,
+    tx.refundReceiver,
+    encodeSafeSignatures(proposal.signatures)
+  );
+  const receipt = await response.wait();
+  if (!receipt) throw new Error(`Transaction ${response.hash} was dropped`);
+
+  // Safe emits ExecutionFailure instead of reverting when the inner call fails
+  for (const log of receipt.logs) {
+    const parsed = safe.interface.parseLog(log);
+    if (parsed?.name === "ExecutionFailure") throw new Error(`Safe transaction ${proposal.safeTxHash} failed`);
+  }
+  return receipt;
+}
+
+export function exportSafeProposal(proposal: SafeProposal): string {
+  return JSON.stringify(proposal, null, 2);
+}
+
+// Re-derives the hash and re-verifies every signature so a tampered export is rejected
+export function importSafeProposal(json: string): SafeProposal {
+  const raw = JSON.parse(json) as SafeProposal;
+  const safeTxHash = getSafeTxHash(raw.chainId, raw.safeAddress, raw.transaction);
+  if (raw.safeTxHash && raw.safeTxHash !== safeTxHash) {
+    throw new Error(`Proposal hash ${raw.safeTxHash} does not match its transaction`);
+  }
+  return (raw.signatures ?? []).reduce(addSafeSignature, { ...raw, safeTxHash, signatures: [] });
+}
@@ -0,0 +1,48 @@
+// snapshot-cache.ts
+
+// The subset of the Web Storage API the cache needs, so it also runs outside the browser
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export interface Snapshot<T> {
+  savedAt: number; // unix seconds
+  value: T;
+}
+
+// Last good value of a slow read, shown immediately while the app revalidates it (stale-while-revalidate).
+// Snapshots saved under another version are dropped, so bumping it invalidates every cached copy.
+export class SnapshotCache<T> {
+  constructor(
+    private readonly storage: KeyValueStorage | undefined,
+    private readonly key: string,
+    private readonly version: number
+  ) {}
+
+  read(): Snapshot<T> | null {
+    if (!this.storage) return null;
+    try {
+      const stored = JSON.parse(this.storage.getItem(this.key) || "null");
+      if (!stored || stored.version !== this.version) return null;
+      return { savedAt: stored.savedAt, value: stored.value };
+    } catch (e) {
+      return null;
+    }
+  }
+
+  write(value: T, savedAt = Math.floor(Date.now() / 1000)) {
+    if (!this.storage) return;
+    try {
+      this.storage.setItem(this.key, JSON.stringify({ version: this.version, savedAt, value }));
+    } catch (e) {
+      // Quota exceeded or storage disabled; the next load simply starts cold
+      console.error(`Could not cache ${this.key}:`, e);
+    }
+  }
+
+  clear() {
+    this.storage?.removeItem(this.key);
+  }
+}
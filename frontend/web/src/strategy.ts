@@ -0,0 +1,98 @@
+// strategy.ts
+import { MAX_ENCRYPTED_AMOUNT } from "./amounts";
+
+export const MAX_HEDGE_RATIO_BPS = 10_000;
+
+export interface HedgeTargets {
+  defaultBps: number;
+  // Lower-cased asset address => target in basis points
+  perAsset: Record<string, number>;
+}
+
+export interface AssetPosition {
+  asset: string;
+  assetAmount: bigint;
+  hedgeAmount: bigint;
+}
+
+export type HedgeStepStatus = "increase" | "reduce" | "on-target";
+
+export interface HedgeStep {
+  asset: string;
+  assetAmount: bigint;
+  currentHedge: bigint;
+  targetBps: number;
+  requiredHedge: bigint;
+  delta: bigint;
+  status: HedgeStepStatus;
+}
+
+// One submitEncryptedHedgeAmount call; amount is the cleartext to encrypt before sending
+export interface HedgeCall {
+  batchId: bigint;
+  asset: string;
+  amount: bigint;
+}
+
+export interface HedgePlan {
+  batchId: bigint;
+  steps: HedgeStep[];
+  calls: HedgeCall[];
+  // Submissions are rate-limited per provider, so every call after the first waits out the cooldown
+  estimatedSeconds: number;
+}
+
+export function targetBpsFor(targets: HedgeTargets, asset: string): number {
+  return targets.perAsset[asset.toLowerCase()] ?? targets.defaultBps;
+}
+
+// Smallest hedge the contract does not flag as under-hedged: hedge * 10000 >= amount * targetBps
+export function requiredHedgeAmount(assetAmount: bigint, targetBps: number): bigint {
+  if (!Number.isInteger(targetBps) || targetBps < 0 || targetBps > MAX_HEDGE_RATIO_BPS) {
+    throw new Error(`Invalid hedge ratio: ${targetBps} bps`);
+  }
+  const scaled = assetAmount * BigInt(targetBps);
+  const max = BigInt(MAX_HEDGE_RATIO_BPS);
+  return (scaled + max - 1n) / max;
+}
+
+// Hedge submissions overwrite the previous amount, so each call carries the full required hedge, not the delta
+export function buildHedgePlan(
+  batchId: bigint,
+  positions: AssetPosition[],
+  targets: HedgeTargets,
+  cooldownSeconds = 0
+): HedgePlan {
+  const steps = positions.map(position => {
+    if (position.assetAmount < 0n || position.hedgeAmount < 0n) {
+      throw new Error(`Negative amount for ${position.asset}`);
+    }
+    const targetBps = targetBpsFor(targets, position.asset);
+    const requiredHedge = requiredHedgeAmount(position.assetAmount, targetBps);
+    if (requiredHedge > MAX_ENCRYPTED_AMOUNT) {
+      throw new Error(`Required hedge for ${position.asset} exceeds the encrypted amount range`);
+    }
+    const delta = requiredHedge - position.hedgeAmount;
+    const status: HedgeStepStatus = delta > 0n ? "increase" : delta < 0n ? "reduce" : "on-target";
+    return {
+      asset: position.asset,
+      assetAmount: position.assetAmount,
+      currentHedge: position.hedgeAmount,
+      targetBps,
+      requiredHedge,
+      delta,
+      status
+    };
+  });
+
+  const calls = steps
+    .filter(step => step.status !== "on-target")
+    .map(step => ({ batchId, asset: step.asset, amount: step.requiredHedge }));
+
+  return {
+    batchId,
+    steps,
+    calls,
+    estimatedSeconds: Math.max(calls.length - 1, 0) * cooldownSeconds
+  };
+}
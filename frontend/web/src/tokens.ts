@@ -0,0 +1,218 @@
+// tokens.ts
+import { ethers } from "ethers";
+import { MAX_TOKEN_DECIMALS } from "./amounts";
+import tokenListJson from "./token-list.json";
+
+export type TokenCategory = "native" | "wrapped" | "stablecoin" | "governance" | "defi" | "other";
+
+export const CATEGORY_LABELS: Record<TokenCategory, string> = {
+  native: "Native",
+  wrapped: "Wrapped",
+  stablecoin: "Stablecoin",
+  governance: "Governance",
+  defi: "DeFi",
+  other: "Other"
+};
+
+// EIP-7528 address for the chain's native currency, which has no contract to read metadata from
+export const NATIVE_TOKEN_ADDRESS = "0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE";
+
+export const ERC20_METADATA_ABI = [
+  "function symbol() view returns (string)",
+  "function name() view returns (string)",
+  "function decimals() view returns (uint8)"
+];
+// Some early tokens (MKR, SAI) return bytes32 instead of string
+const ERC20_BYTES32_ABI = ["function symbol() view returns (bytes32)", "function name() view returns (bytes32)"];
+
+export interface TokenInfo {
+  chainId: number;
+  // Checksummed
+  address: string;
+  symbol: string;
+  name?: string;
+  decimals: number;
+  logoURI?: string;
+  category: TokenCategory;
+  // token-list.json, or the token's own ERC-20 metadata for addresses the list does not know
+  source: "list" | "chain";
+}
+
+// Shape of token-list.json: the Uniswap token list fields the app uses, plus a category per token
+export interface TokenListEntry {
+  chainId: number;
+  address: string;
+  symbol: string;
+  name?: string;
+  decimals: number;
+  logoURI?: string;
+  category?: string;
+}
+
+export interface TokenListFile {
+  name: string;
+  timestamp?: string;
+  tokens: TokenListEntry[];
+}
+
+export class TokenMetadataError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as TokenCategory[];
+
+const requireTokenDecimals = (decimals: unknown, token: string): number => {
+  if (typeof decimals !== "number" || !Number.isInteger(decimals) || decimals < 0 || decimals > MAX_TOKEN_DECIMALS) {
+    throw new TokenMetadataError(`${token} has unsupported decimals: ${decimals}`);
+  }
+  return decimals;
+};
+
+export const isNativeToken = (address: string) => address.toLowerCase() === NATIVE_TOKEN_ADDRESS.toLowerCase();
+
+// The list's tokens on one chain, validated; a malformed entry is an error in the repo, not something to skip
+export function tokensForChain(list: TokenListFile, chainId: number): TokenInfo[] {
+  return list.tokens
+    .filter(entry => entry.chainId === chainId)
+    .map(entry => {
+      let address: string;
+      try {
+        address = ethers.getAddress(entry.address);
+      } catch {
+        throw new TokenMetadataError(`${list.name}: invalid address ${entry.address} for ${entry.symbol}`);
+      }
+      if (!entry.symbol) throw new TokenMetadataError(`${list.name}: ${address} has no symbol`);
+      const category = entry.category ?? "other";
+      if (!CATEGORIES.includes(category as TokenCategory)) {
+        throw new TokenMetadataError(`${list.name}: unknown category "${category}" for ${entry.symbol}`);
+      }
+      return {
+        chainId,
+        address,
+        symbol: entry.symbol,
+        name: entry.name,
+        decimals: requireTokenDecimals(entry.decimals, entry.symbol),
+        logoURI: entry.logoURI,
+        category: category as TokenCategory,
+        source: "list" as const
+      };
+    });
+}
+
+const readText = async (token: ethers.Contract, fallback: ethers.Contract, method: "symbol" | "name"): Promise<string | undefined> => {
+  try {
+    return await token[method]();
+  } catch {
+    try {
+      return ethers.decodeBytes32String(await fallback[method]());
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+// symbol() and decimals() are required; name() is optional, as it is in ERC-20
+export async function readErc20Metadata(address: string, chainId: number, provider: ethers.Provider): Promise<TokenInfo> {
+  const checksummed = ethers.getAddress(address);
+  if ((await provider.getCode(checksummed)) === "0x") throw new TokenMetadataError(`No contract at ${checksummed}`);
+  const token = new ethers.Contract(checksummed, ERC20_METADATA_ABI, provider);
+  const bytes32 = new ethers.Contract(checksummed, ERC20_BYTES32_ABI, provider);
+
+  const [symbol, name, decimals] = await Promise.all([
+    readText(token, bytes32, "symbol"),
+    readText(token, bytes32, "name"),
+    token.decimals().then((value: bigint) => Number(value), () => undefined)
+  ]);
+  if (!symbol) throw new TokenMetadataError(`${checksummed} has no ERC-20 symbol()`);
+  if (decimals === undefined) throw new TokenMetadataError(`${checksummed} has no ERC-20 decimals()`);
+  return {
+    chainId,
+    address: checksummed,
+    symbol,
+    name,
+    decimals: requireTokenDecimals(decimals, symbol),
+    category: "other",
+    source: "chain"
+  };
+}
+
+// Address => token metadata for one chain. Listed tokens are known up front; any other address is
+// resolved once from its ERC-20 metadata and kept for the rest of the session.
+export class TokenRegistry {
+  private readonly tokens = new Map<string, TokenInfo>();
+  private readonly pending = new Map<string, Promise<TokenInfo>>();
+  // Addresses that are not ERC-20s; RPC failures are not remembered and are retried
+  private readonly rejected = new Map<string, TokenMetadataError>();
+
+  constructor(
+    readonly chainId: number,
+    listed: TokenInfo[],
+    private readonly getProvider?: () => Promise<ethers.Provider>
+  ) {
+    for (const token of listed) this.tokens.set(token.address.toLowerCase(), token);
+  }
+
+  get(address: string): TokenInfo | undefined {
+    return this.tokens.get(address.toLowerCase());
+  }
+
+  // Listed tokens first, in list order, then the ones resolved on-chain
+  list(): TokenInfo[] {
+    return [...this.tokens.values()];
+  }
+
+  // For records written before they stored a token address
+  bySymbol(symbol: string): TokenInfo | undefined {
+    return this.list().find(token => token.symbol === symbol);
+  }
+
+  async resolve(address: string): Promise<TokenInfo> {
+    const known = this.get(address);
+    if (known) return known;
+    if (isNativeToken(address)) throw new TokenMetadataError(`The native currency is not in the token list for chain ${this.chainId}`);
+    if (!this.getProvider) throw new TokenMetadataError(`${address} is not in the token list and there is no provider to read it from`);
+
+    const key = address.toLowerCase();
+    const rejected = this.rejected.get(key);
+    if (rejected) throw rejected;
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.getProvider()
+        .then(provider => readErc20Metadata(address, this.chainId, provider))
+        .then(token => {
+          this.tokens.set(key, token);
+          return token;
+        }, e => {
+          if (e instanceof TokenMetadataError) this.rejected.set(key, e);
+          throw e;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  // Resolves every address it can; failures are logged and left out
+  async resolveAll(addresses: string[]): Promise<Record<string, TokenInfo>> {
+    const resolved: Record<string, TokenInfo> = {};
+    await Promise.all([...new Set(addresses.map(address => address.toLowerCase()))].map(async address => {
+      try {
+        resolved[address] = await this.resolve(address);
+      } catch (e) {
+        console.error(`Token metadata for ${address} failed:`, e);
+      }
+    }));
+    return resolved;
+  }
+}
+
+export function createTokenRegistry(
+  chainId: number,
+  getProvider?: () => Promise<ethers.Provider>,
+  list: TokenListFile = tokenListJson
+): TokenRegistry {
+  return new TokenRegistry(chainId, tokensForChain(list, chainId), getProvider);
+}
@@ -0,0 +1,68 @@
+// treasury-errors.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/DAO_Treasury_Hedge_FHE.json";
+
+export class TreasuryError extends Error {
+  constructor(message: string, public readonly errorName: string, public readonly cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class NotOwnerError extends TreasuryError {}
+export class NotGovernanceError extends TreasuryError {}
+export class NotProviderError extends TreasuryError {}
+export class PausedError extends TreasuryError {}
+export class CooldownActiveError extends TreasuryError {}
+export class BatchClosedError extends TreasuryError {}
+export class InvalidBatchError extends TreasuryError {}
+export class ReplayAttemptError extends TreasuryError {}
+export class StateMismatchError extends TreasuryError {}
+export class NotInitializedError extends TreasuryError {}
+export class InvalidHedgeRatioError extends TreasuryError {}
+
+const ERROR_TYPES: Record<string, { type: typeof TreasuryError; message: string }> = {
+  NotOwner: { type: NotOwnerError, message: "Only the treasury owner can do this" },
+  NotGovernance: { type: NotGovernanceError, message: "Only treasury governance can do this" },
+  NotProvider: { type: NotProviderError, message: "Connected account is not a registered provider" },
+  Paused: { type: PausedError, message: "The treasury contract is paused" },
+  CooldownActive: { type: CooldownActiveError, message: "Cooldown is still active, try again later" },
+  BatchAlreadyClosed: { type: BatchClosedError, message: "The batch is already closed" },
+  InvalidBatch: { type: InvalidBatchError, message: "The batch is not valid for this operation" },
+  ReplayAttempt: { type: ReplayAttemptError, message: "Decryption result was already processed" },
+  StateMismatch: { type: StateMismatchError, message: "Batch ciphertexts changed since decryption was requested" },
+  NotInitialized: { type: NotInitializedError, message: "Encrypted amount handle is not initialized" },
+  InvalidHedgeRatio: { type: InvalidHedgeRatioError, message: "Hedge ratio must be between 0 and 10000 bps" }
+};
+
+const treasuryInterface = new ethers.Interface(abiJson.abi);
+
+const field = (value: unknown, key: string): unknown =>
+  typeof value === "object" && value !== null ? Reflect.get(value, key) : undefined;
+
+// Wallets and providers nest the raw revert data at different depths
+const findRevertData = (error: unknown): string | null => {
+  const data = field(error, "data");
+  for (const candidate of [data, field(field(error, "error"), "data"), field(field(field(error, "info"), "error"), "data"), field(data, "data")]) {
+    if (typeof candidate === "string" && candidate.startsWith("0x") && candidate.length >= 10) return candidate;
+  }
+  return null;
+};
+
+// Maps a treasury revert to its TreasuryError subclass; anything else is returned as it was thrown
+export function toTreasuryError(error: unknown): unknown {
+  if (error instanceof TreasuryError) return error;
+  let name = ethers.isCallException(error) ? error.revert?.name : undefined;
+  if (!name) {
+    const data = findRevertData(error);
+    if (data) {
+      try {
+        name = treasuryInterface.parseError(data)?.name;
+      } catch (e) {
+        name = undefined;
+      }
+    }
+  }
+  const known = name ? ERROR_TYPES[name] : undefined;
+  return known ? new known.type(known.message, name!, error) : error;
+}
@@ -0,0 +1,303 @@
+// treasury.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/DAO_Treasury_Hedge_FHE.json";
+import type { DecryptionRequest } from "./batch-decryption";
+import { getReadProvider, getSigner, network } from "./contract";
+import type { EncryptedAmount } from "./fhe";
+import { HedgePlan, HedgeTargets } from "./strategy";
+import { toTreasuryError } from "./treasury-errors";
+
+export const TREASURY_ABI = (abiJson as any).abi || abiJson;
+
+export interface BatchSubmission {
+  batchId: bigint;
+  provider: string;
+  asset: string;
+  amount: string;
+  txHash: string;
+}
+
+// Handles of a batch's per-asset totals and hedge checks, in registry order
+export interface BatchAggregateHandles {
+  batchId: bigint;
+  assets: string[];
+  assetTotals: string[];
+  hedgeTotals: string[];
+  underHedged: string[];
+}
+
+export interface BatchAggregate {
+  asset: string;
+  assetTotal: bigint;
+  hedgeTotal: bigint;
+  underHedged: boolean;
+}
+
+export interface AdminSettings {
+  owner: string;
+  governance: string;
+  paused: boolean;
+  cooldownSeconds: bigint;
+}
+
+export interface TreasuryEventLog {
+  name: string;
+  args: Record<string, string>;
+  txHash: string;
+}
+
+export type OwnerAction = "openNewBatch" | "closeCurrentBatch" | "addProvider";
+// Calls reserved for the governance address (the DAO timelock once handed over)
+export type GovernanceAction = "requestBatchDecryption" | "transferOwnership" | "setGovernance";
+export type TreasuryAction = OwnerAction | GovernanceAction;
+
+const treasuryInterface = new ethers.Interface(TREASURY_ABI);
+
+export function getTreasuryAddress(): string {
+  const address = network.contracts.treasury;
+  if (!address) throw new Error(`No treasury address is configured for ${network.name} in config.json`);
+  return address;
+}
+
+export async function getTreasuryReadOnly() {
+  try {
+    const provider = await getReadProvider();
+    const address = getTreasuryAddress();
+    const code = await provider.getCode(address);
+    if (code === "0x") return null;
+    return new ethers.Contract(address, TREASURY_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create read-only treasury contract:", error);
+    return null;
+  }
+}
+
+export async function getTreasuryWithSigner() {
+  const signer = await getSigner();
+  return new ethers.Contract(getTreasuryAddress(), TREASURY_ABI, signer);
+}
+
+const send = async (action: () => Promise<ethers.ContractTransactionResponse>): Promise<ethers.ContractTransactionReceipt> => {
+  try {
+    const tx = await action();
+    const receipt = await tx.wait();
+    if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+    return receipt;
+  } catch (e) {
+    throw toTreasuryError(e);
+  }
+};
+
+const findEvent = (receipt: ethers.ContractTransactionReceipt, eventName: string): ethers.LogDescription => {
+  for (const log of receipt.logs) {
+    try {
+      const parsed = treasuryInterface.parseLog(log);
+      if (parsed && parsed.name === eventName) return parsed;
+    } catch (e) {
+      // Logs emitted by other contracts (ACL, oracle) are skipped
+    }
+  }
+  throw new Error(`${eventName} not found in transaction ${receipt.hash}`);
+};
+
+// Every treasury event in a receipt, with args stringified for display
+const receiptEvents = (receipt: ethers.ContractTransactionReceipt): TreasuryEventLog[] => {
+  const events: TreasuryEventLog[] = [];
+  for (const log of receipt.logs) {
+    let parsed: ethers.LogDescription | null = null;
+    try {
+      parsed = treasuryInterface.parseLog(log);
+    } catch (e) {
+      continue;
+    }
+    if (!parsed) continue;
+    const args: Record<string, string> = {};
+    parsed.fragment.inputs.forEach((input, i) => { args[input.name] = String(parsed!.args[i]); });
+    events.push({ name: parsed.name, args, txHash: receipt.hash });
+  }
+  return events;
+};
+
+const toSubmission = (receipt: ethers.ContractTransactionReceipt, eventName: string): BatchSubmission => {
+  const event = findEvent(receipt, eventName);
+  return {
+    batchId: event.args.batchId,
+    provider: event.args.provider,
+    asset: event.args.asset,
+    amount: ethers.toBeHex(event.args.amount, 32),
+    txHash: receipt.hash
+  };
+};
+
+export async function getCurrentBatch(contract: ethers.Contract): Promise<{ batchId: bigint; closed: boolean }> {
+  const batchId: bigint = await contract.currentBatchId();
+  const closed: boolean = await contract.isBatchClosed(batchId);
+  return { batchId, closed };
+}
+
+export async function getBatchAssets(contract: ethers.Contract, batchId: bigint): Promise<string[]> {
+  const assets: string[] = await contract.getBatchAssets(batchId);
+  return [...assets];
+}
+
+// Newest batch the owner has closed, whose hedge checks are computed; null before any batch is closed
+export async function getLatestClosedBatchId(contract: ethers.Contract): Promise<bigint | null> {
+  for (let batchId: bigint = await contract.currentBatchId(); batchId > 0n; batchId--) {
+    if (await contract.isBatchClosed(batchId)) return batchId;
+  }
+  return null;
+}
+
+export async function getBatchAggregates(contract: ethers.Contract, batchId: bigint): Promise<BatchAggregateHandles> {
+  const [assets, assetTotals, hedgeTotals, underHedged] = await contract.getBatchAggregates(batchId);
+  const toHandles = (values: bigint[]) => values.map(value => ethers.toBeHex(value, 32));
+  return {
+    batchId,
+    assets: [...assets],
+    assetTotals: toHandles(assetTotals),
+    hedgeTotals: toHandles(hedgeTotals),
+    underHedged: toHandles(underHedged)
+  };
+}
+
+// Every handle to decrypt for the aggregates; assets without a submission on one side share the same zero handle
+export const batchAggregateHandles = (handles: BatchAggregateHandles): string[] =>
+  [...new Set([...handles.assetTotals, ...handles.hedgeTotals, ...handles.underHedged])];
+
+export function decodeBatchAggregates(handles: BatchAggregateHandles, cleartexts: Record<string, bigint>): BatchAggregate[] {
+  return handles.assets.map((asset, i) => ({
+    asset,
+    assetTotal: cleartexts[handles.assetTotals[i]],
+    hedgeTotal: cleartexts[handles.hedgeTotals[i]],
+    underHedged: cleartexts[handles.underHedged[i]] !== 0n
+  }));
+}
+
+// Only meaningful for one asset's amount and hedge, which share its base units
+export function hedgeRatioPercent(assetAmount: bigint, hedgeAmount: bigint): number {
+  if (assetAmount === 0n) return 0;
+  return Number((hedgeAmount * 10_000n) / assetAmount) / 100;
+}
+
+export function encodeTreasuryCall(action: TreasuryAction, args: unknown[] = []): string {
+  return treasuryInterface.encodeFunctionData(action, args);
+}
+
+export async function getAdminSettings(contract: ethers.Contract): Promise<AdminSettings> {
+  const [owner, governance, paused, cooldownSeconds] = await Promise.all([
+    contract.owner(),
+    contract.governance(),
+    contract.paused(),
+    contract.cooldownSeconds()
+  ]);
+  return { owner, governance, paused, cooldownSeconds };
+}
+
+export async function isTreasuryOwner(contract: ethers.Contract, account: string): Promise<boolean> {
+  const owner: string = await contract.owner();
+  return owner.toLowerCase() === account.toLowerCase();
+}
+
+export async function addProvider(contract: ethers.Contract, provider: string): Promise<TreasuryEventLog[]> {
+  return receiptEvents(await send(() => contract.addProvider(provider)));
+}
+
+export async function removeProvider(contract: ethers.Contract, provider: string): Promise<TreasuryEventLog[]> {
+  return receiptEvents(await send(() => contract.removeProvider(provider)));
+}
+
+export async function setPaused(contract: ethers.Contract, paused: boolean): Promise<TreasuryEventLog[]> {
+  return receiptEvents(await send(() => contract.setPaused(paused)));
+}
+
+export async function setCooldownSeconds(contract: ethers.Contract, seconds: bigint): Promise<TreasuryEventLog[]> {
+  return receiptEvents(await send(() => contract.setCooldownSeconds(seconds)));
+}
+
+export async function transferOwnership(contract: ethers.Contract, newOwner: string): Promise<TreasuryEventLog[]> {
+  if (!ethers.isAddress(newOwner) || newOwner === ethers.ZeroAddress) {
+    throw new Error(`Invalid new owner address: ${newOwner}`);
+  }
+  return receiptEvents(await send(() => contract.transferOwnership(newOwner)));
+}
+
+export async function getHedgeTargets(contract: ethers.Contract): Promise<HedgeTargets> {
+  const defaultBps: bigint = await contract.targetHedgeRatioBps();
+  const assets: string[] = await contract.getTargetAssets();
+  const perAsset: Record<string, number> = {};
+  for (const asset of assets) {
+    // Cleared targets stay in the list but fall back to the default ratio
+    if (await contract.hasAssetTarget(asset)) perAsset[asset.toLowerCase()] = Number(await contract.assetTargetHedgeRatioBps(asset));
+  }
+  return { defaultBps: Number(defaultBps), perAsset };
+}
+
+export async function setAssetTargetHedgeRatio(contract: ethers.Contract, asset: string, ratioBps: number): Promise<TreasuryEventLog[]> {
+  return receiptEvents(await send(() => contract.setAssetTargetHedgeRatioBps(asset, ratioBps)));
+}
+
+export async function clearAssetTargetHedgeRatio(contract: ethers.Contract, asset: string): Promise<TreasuryEventLog[]> {
+  return receiptEvents(await send(() => contract.clearAssetTargetHedgeRatio(asset)));
+}
+
+export async function openNewBatch(contract: ethers.Contract): Promise<bigint> {
+  const receipt = await send(() => contract.openNewBatch());
+  return findEvent(receipt, "BatchOpened").args.batchId;
+}
+
+export async function closeCurrentBatch(contract: ethers.Contract): Promise<bigint> {
+  const receipt = await send(() => contract.closeCurrentBatch());
+  return findEvent(receipt, "BatchClosed").args.batchId;
+}
+
+// `amount` must be encrypted for this treasury and the sending provider (see encryptAmount)
+export async function submitAssetAmount(
+  contract: ethers.Contract,
+  batchId: bigint,
+  asset: string,
+  amount: EncryptedAmount
+): Promise<BatchSubmission> {
+  const receipt = await send(() => contract.submitEncryptedAssetAmount(batchId, asset, amount.handle, amount.inputProof));
+  return toSubmission(receipt, "AssetSubmitted");
+}
+
+export async function submitHedgeAmount(
+  contract: ethers.Contract,
+  batchId: bigint,
+  asset: string,
+  amount: EncryptedAmount
+): Promise<BatchSubmission> {
+  const receipt = await send(() => contract.submitEncryptedHedgeAmount(batchId, asset, amount.handle, amount.inputProof));
+  return toSubmission(receipt, "HedgeSubmitted");
+}
+
+// Sends a plan's calls in order, waiting out the per-provider submission cooldown between them
+export async function submitHedgePlan(
+  contract: ethers.Contract,
+  plan: HedgePlan,
+  encrypt: (amount: bigint) => Promise<EncryptedAmount>,
+  options: { cooldownSeconds?: number; onSubmitted?: (submission: BatchSubmission) => void } = {}
+): Promise<BatchSubmission[]> {
+  const submissions: BatchSubmission[] = [];
+  for (const [i, call] of plan.calls.entries()) {
+    if (i > 0 && options.cooldownSeconds) {
+      await new Promise(resolve => setTimeout(resolve, (options.cooldownSeconds! + 1) * 1000));
+    }
+    const submission = await submitHedgeAmount(contract, call.batchId, call.asset, await encrypt(call.amount));
+    submissions.push(submission);
+    options.onSubmitted?.(submission);
+  }
+  return submissions;
+}
+
+export async function requestBatchDecryption(contract: ethers.Contract, batchId: bigint): Promise<DecryptionRequest> {
+  const receipt = await send(() => contract.requestBatchDecryption(batchId));
+  const event = findEvent(receipt, "DecryptionRequested");
+  return {
+    requestId: event.args.requestId,
+    batchId: event.args.batchId,
+    stateHash: event.args.stateHash,
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber
+  };
+}
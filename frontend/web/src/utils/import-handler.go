@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\utils\import-handler.go
-// Generated at: 2025-10-20T05:34:48.518Z
\ No newline at end of file
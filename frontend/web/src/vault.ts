@@ -0,0 +1,44 @@
+// vault.ts
+import { ethers } from "ethers";
+import abiJson from "./abi/EncryptedAmountVault.json";
+import { getSigner, network } from "./contract";
+import type { EncryptedAmount } from "./fhe";
+
+export const VAULT_ABI = (abiJson as any).abi || abiJson;
+
+const vaultInterface = new ethers.Interface(VAULT_ABI);
+
+export function getVaultAddress(): string {
+  const address = network.contracts.vault;
+  if (!address) throw new Error(`No vault address is configured for ${network.name} in config.json`);
+  return address;
+}
+
+export async function getVaultWithSigner() {
+  const signer = await getSigner();
+  return new ethers.Contract(getVaultAddress(), VAULT_ABI, signer);
+}
+
+// Vault slot of the adapter record an amount belongs to, e.g. asset_<id>
+export const vaultKey = (recordKey: string) => ethers.id(recordKey);
+
+// Whether a record's amount sits in this network's vault, where its owner may decrypt it
+export const isVaultAmount = (record: { vault?: string }) =>
+  !!record.vault && !!network.contracts.vault && record.vault.toLowerCase() === network.contracts.vault.toLowerCase();
+
+// `amount` must be encrypted for the vault and the signer (see encryptAmount). Resolves to the stored handle,
+// which goes into the adapter record and is decrypted with the vault as its contract.
+export async function storeEncryptedAmount(vault: ethers.Contract, recordKey: string, amount: EncryptedAmount): Promise<string> {
+  const tx: ethers.ContractTransactionResponse = await vault.store(vaultKey(recordKey), amount.handle, amount.inputProof);
+  const receipt = await tx.wait();
+  if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+  for (const log of receipt.logs) {
+    try {
+      const parsed = vaultInterface.parseLog(log);
+      if (parsed && parsed.name === "AmountStored") return ethers.toBeHex(parsed.args.amount, 32);
+    } catch (e) {
+      // Logs emitted by other contracts (ACL) are skipped
+    }
+  }
+  throw new Error(`AmountStored not found in transaction ${receipt.hash}`);
+}
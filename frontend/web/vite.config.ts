@@ -13,6 +13,11 @@ export default defineConfig({
     }
   },
   optimizeDeps: {
+    // Pre-bundling would move the relayer SDK away from the wasm files it loads relative to import.meta.url;
+    // its CommonJS dependencies still need it. The SDK's thread-pool worker spawns itself, which stalls Vite's
+    // worker bundling, so patches/ has it spawn from its own import.meta.url instead.
+    exclude: ["@zama-fhe/relayer-sdk"],
+    include: ["@zama-fhe/relayer-sdk > keccak", "@zama-fhe/relayer-sdk > fetch-retry"],
     esbuildOptions: {
       target: "es2022",
       supported: {
@@ -1,7 +1,27 @@
+import "dotenv/config";
+import fs from "fs";
+import { Wallet } from "ethers";
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "hardhat-deploy";
+
+import "./tasks/decryption-oracle";
+import "./tasks/local";
+import "./tasks/records";
+import "./tasks/treasury";
+
+// Live-network deployer: DEPLOYER_PRIVATE_KEY, or an encrypted JSON keystore at DEPLOYER_KEYSTORE
+// unlocked with DEPLOYER_KEYSTORE_PASSWORD. Without either the network has no accounts and deploys fail.
+function deployerAccounts(): string[] {
+  if (process.env.DEPLOYER_PRIVATE_KEY) return [process.env.DEPLOYER_PRIVATE_KEY];
+  if (process.env.DEPLOYER_KEYSTORE) {
+    const keystore = fs.readFileSync(process.env.DEPLOYER_KEYSTORE, "utf-8");
+    return [Wallet.fromEncryptedJsonSync(keystore, process.env.DEPLOYER_KEYSTORE_PASSWORD ?? "").privateKey];
+  }
+  return [];
+}
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -11,10 +31,16 @@ const config: HardhatUserConfig = {
     },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.SEPOLIA_RPC_URL || "https://sepolia.drpc.org",
+      accounts: deployerAccounts(),
     },
   },
+  // Local demo providers; live networks take theirs from TREASURY_PROVIDERS (see deploy/02_setup_treasury.ts)
+  namedAccounts: {
+    deployer: { default: 0 },
+    assetProvider: { hardhat: 1, localhost: 1 },
+    hedgeProvider: { hardhat: 2, localhost: 2 },
+  },
   solidity: {
     version: "0.8.24",
     settings: {
@@ -34,6 +60,8 @@ const config: HardhatUserConfig = {
     tests: "./test",
     cache: "./cache",
     artifacts: "./artifacts",
+    deploy: "./deploy",
+    deployments: "./deployments",
   },
   typechain: {
     outDir: "types",
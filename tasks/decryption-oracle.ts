@@ -0,0 +1,206 @@
+// tasks/decryption-oracle.ts
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Contract, EventLog, Signer } from "ethers";
+
+import { resolveContractAddress } from "./frontend-config";
+
+// How a request is mishandled instead of answered:
+// - drop: never answered
+// - tamper: cleartexts changed after signing, so the KMS verifier rejects the signatures (KMSInvalidSigner)
+// - wrong-request: answered under a request id the treasury never issued (StateMismatch)
+export type OracleFailure = "drop" | "tamper" | "wrong-request";
+export const ORACLE_FAILURES: OracleFailure[] = ["drop", "tamper", "wrong-request"];
+
+export interface OracleSimulatorOptions {
+  // Wait before each answer
+  delayMs?: number;
+  // Extra copies of every answer, sent after the first (ReplayAttempt)
+  duplicates?: number;
+  failure?: OracleFailure;
+  // Account that sends the callbacks; defaults to the last Hardhat account
+  relayer?: Signer;
+  // Block to start watching from; defaults to the current block
+  fromBlock?: number;
+}
+
+export interface OracleDelivery {
+  requestId: bigint;
+  batchId: bigint;
+  // 0 for the answer, 1.. for duplicates
+  attempt: number;
+  txHash?: string;
+  // Custom error the callback reverted with, or the error message
+  revertReason?: string;
+}
+
+// Request id the treasury has no context for; the callback then hashes an empty batch
+const UNKNOWN_REQUEST_ID = 2n ** 256n - 1n;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Reads a property of a thrown value, whatever its shape
+const field = (value: unknown, key: string): unknown =>
+  typeof value === "object" && value !== null ? Reflect.get(value, key) : undefined;
+
+// Stands in for the Zama decryption oracle on mock-mode networks: answers DecryptionRequested with the
+// cleartexts of the requested handles and mock KMS signatures, the way the gateway would call myCallback.
+export class DecryptionOracleSimulator {
+  private nextBlock: number | undefined;
+  private readonly answered = new Set<bigint>();
+  private timer: NodeJS.Timeout | undefined;
+  private running: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly hre: HardhatRuntimeEnvironment,
+    private readonly treasury: Contract,
+    private readonly options: OracleSimulatorOptions = {},
+  ) {
+    if (!hre.fhevm.isMock) throw new Error("The decryption oracle simulator only runs in FHE mock mode");
+    this.nextBlock = options.fromBlock;
+  }
+
+  // Answers every request made since the last call, in chain order
+  async processPending(): Promise<OracleDelivery[]> {
+    const latest = await this.hre.ethers.provider.getBlockNumber();
+    const fromBlock = this.nextBlock ?? latest;
+    if (fromBlock > latest) return [];
+    const events = (await this.treasury.queryFilter(this.treasury.filters.DecryptionRequested(), fromBlock, latest)) as EventLog[];
+    this.nextBlock = latest + 1;
+
+    const deliveries: OracleDelivery[] = [];
+    for (const event of events) {
+      const requestId: bigint = event.args.requestId;
+      if (this.answered.has(requestId)) continue;
+      this.answered.add(requestId);
+      deliveries.push(...(await this.answer(event)));
+    }
+    return deliveries;
+  }
+
+  // Polls for requests until stop(); errors go to onError and polling carries on
+  start(intervalMs = 1_000, onDelivery: (delivery: OracleDelivery) => void = () => {}, onError: (e: unknown) => void = console.error) {
+    if (this.timer) return;
+    const poll = () => {
+      this.running = this.processPending()
+        .then((deliveries) => deliveries.forEach(onDelivery))
+        .catch(onError)
+        .finally(() => {
+          if (this.timer) this.timer = setTimeout(poll, intervalMs);
+        });
+    };
+    this.timer = setTimeout(poll, 0);
+  }
+
+  async stop() {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    await this.running;
+  }
+
+  private async answer(event: EventLog): Promise<OracleDelivery[]> {
+    const requestId: bigint = event.args.requestId;
+    const batchId: bigint = event.args.batchId;
+    if (this.options.failure === "drop") return [];
+
+    // The handles, in callback order, are in the coprocessor's DecryptionRequest log of the same transaction
+    const receipt = await event.getTransactionReceipt();
+    const treasuryAddress = (await this.treasury.getAddress()).toLowerCase();
+    const request = this.hre.fhevm
+      .parseDecryptionRequestEvents([...receipt.logs])
+      .find((candidate) => candidate.requestID === requestId && candidate.contractCallerAddress.toLowerCase() === treasuryAddress);
+    if (!request) throw new Error(`No DecryptionRequest log for treasury request ${requestId} in ${event.transactionHash}`);
+
+    const handles = request.handlesBytes32Hex;
+    const decrypted = await this.hre.fhevm.publicDecrypt(handles);
+    const values = handles.map((handle) => {
+      const value = decrypted[handle];
+      return typeof value === "boolean" ? (value ? 1n : 0n) : BigInt(value);
+    });
+    // Typed as string[], but the mock relayer answers with { decryptedResult, signatures }
+    const signed = (await this.hre.fhevm.debugger.createDecryptionSignatures(handles, values)) as unknown as string[] | { signatures: string[] };
+    const signatures = Array.isArray(signed) ? signed : signed.signatures;
+
+    const { ethers } = this.hre;
+    const extraData = ethers.solidityPacked(["uint8"], [0]);
+    const proof = ethers.concat([ethers.solidityPacked(["uint8"], [signatures.length]), ...signatures, extraData]);
+    if (this.options.failure === "tamper" && values.length > 0) values[0] += 1n;
+    const cleartexts = ethers.AbiCoder.defaultAbiCoder().encode(values.map(() => "uint256"), values);
+    const callbackRequestId = this.options.failure === "wrong-request" ? UNKNOWN_REQUEST_ID : requestId;
+
+    const relayer = this.options.relayer ?? (await ethers.getSigners()).at(-1)!;
+    const callback = this.treasury.connect(relayer) as Contract;
+    const deliveries: OracleDelivery[] = [];
+    for (let attempt = 0; attempt <= (this.options.duplicates ?? 0); attempt++) {
+      if (this.options.delayMs) await sleep(this.options.delayMs);
+      const delivery: OracleDelivery = { requestId, batchId, attempt };
+      try {
+        const tx = await callback.myCallback(callbackRequestId, cleartexts, proof);
+        delivery.txHash = tx.hash;
+        await tx.wait();
+      } catch (e) {
+        delivery.revertReason = this.decodeRevert(e);
+      }
+      deliveries.push(delivery);
+    }
+    return deliveries;
+  }
+
+  private decodeRevert(e: unknown): string {
+    const data = [field(e, "data"), field(field(e, "error"), "data"), field(field(field(e, "info"), "error"), "data")].find(
+      (candidate): candidate is string => typeof candidate === "string",
+    );
+    const parsed = data ? this.treasury.interface.parseError(data) : null;
+    if (parsed) return parsed.name;
+    if (!(e instanceof Error)) return String(e);
+    return "shortMessage" in e && typeof e.shortMessage === "string" ? e.shortMessage : e.message;
+  }
+}
+
+task("oracle:run", "Answers treasury decryption requests on a mock-mode node with mock KMS signatures")
+  .addOptionalParam("address", "Treasury contract address")
+  .addOptionalParam("delay", "Milliseconds to wait before each answer", 0, types.int)
+  .addOptionalParam("duplicates", "Extra copies of every answer, to exercise the replay guard", 0, types.int)
+  .addOptionalParam("failure", `Mishandle every request: ${ORACLE_FAILURES.join(", ")}`)
+  .addOptionalParam("interval", "Milliseconds between polls", 1_000, types.int)
+  .addOptionalParam("fromBlock", "Block to answer requests from (default: the current block)", undefined, types.int)
+  .setAction(
+    async (
+      args: { address?: string; delay: number; duplicates: number; failure?: string; interval: number; fromBlock?: number },
+      hre,
+    ) => {
+      if (args.failure && !ORACLE_FAILURES.includes(args.failure as OracleFailure)) {
+        throw new Error(`Unknown --failure ${args.failure}; expected one of ${ORACLE_FAILURES.join(", ")}`);
+      }
+      await hre.fhevm.initializeCLIApi();
+      const treasury = (await hre.ethers.getContractAt(
+        "DAO_Treasury_Hedge_FHE",
+        await resolveContractAddress(hre, "treasury", args.address),
+      )) as unknown as Contract;
+      const oracle = new DecryptionOracleSimulator(hre, treasury, {
+        delayMs: args.delay,
+        duplicates: args.duplicates,
+        failure: args.failure as OracleFailure | undefined,
+        fromBlock: args.fromBlock,
+      });
+
+      console.log(`Answering decryption requests for ${await treasury.getAddress()}; Ctrl-C to stop`);
+      await new Promise<void>((resolve) => {
+        oracle.start(
+          args.interval,
+          (delivery) => {
+            const outcome = delivery.revertReason ? `reverted: ${delivery.revertReason}` : `tx ${delivery.txHash}`;
+            console.log(`request ${delivery.requestId} (batch ${delivery.batchId}) attempt ${delivery.attempt}: ${outcome}`);
+          },
+          (e: unknown) => {
+            // The node went away; nothing left to answer
+            if (field(e, "code") === "ECONNREFUSED" || /ECONNREFUSED|Cannot connect to the network/.test(String(field(e, "message")))) {
+              oracle.stop().then(resolve);
+              return;
+            }
+            console.error(e);
+          },
+        );
+      });
+    },
+  );
@@ -0,0 +1,23 @@
+// tasks/encrypted-input.ts
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import { requireEncryptableAmount } from "../frontend/web/src/amounts";
+
+// Same shape as the frontend's EncryptedAmount: the external handle and the proof that binds it to a contract and user
+export interface EncryptedAmount {
+  handle: string;
+  inputProof: string;
+}
+
+// Encrypts a euint128 amount, in token base units, that only `userAddress` can submit, and only to `contractAddress`
+export async function encryptAmount(
+  hre: HardhatRuntimeEnvironment,
+  contractAddress: string,
+  userAddress: string,
+  value: number | bigint,
+): Promise<EncryptedAmount> {
+  const input = hre.fhevm.createEncryptedInput(contractAddress, userAddress);
+  input.add128(requireEncryptableAmount(BigInt(value)));
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: hre.ethers.hexlify(handles[0]), inputProof: hre.ethers.hexlify(inputProof) };
+}
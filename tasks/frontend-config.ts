@@ -0,0 +1,125 @@
+// tasks/frontend-config.ts
+import fs from "fs";
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+import {
+  NetworkConfig,
+  NetworkContracts,
+  NetworkRegistry,
+  NetworkRegistryOverlay,
+  applyRegistryOverlay,
+  findNetworkByChainId,
+  networkOverlayFields,
+} from "../frontend/web/src/networks";
+
+export const FRONTEND_CONFIG = path.join(__dirname, "..", "frontend", "web", "src", "config.json");
+// Git-ignored; local networks write here so their throwaway addresses never show up as changes to config.json
+export const FRONTEND_LOCAL_CONFIG = path.join(__dirname, "..", "frontend", "web", "src", "config.local.json");
+const ABI_DIR = path.join(__dirname, "..", "frontend", "web", "src", "abi");
+// Contracts whose ABI the frontend reads from abi/<name>.json; the adapter's is checked in with its bytecode
+const EXPORTED_ABIS = ["DAO_Treasury_Hedge_FHE", "EncryptedAmountVault"];
+
+function readRegistry(): NetworkRegistry | null {
+  if (!fs.existsSync(FRONTEND_CONFIG)) return null;
+  return JSON.parse(fs.readFileSync(FRONTEND_CONFIG, "utf-8")) as NetworkRegistry;
+}
+
+function readOverlay(): NetworkRegistryOverlay {
+  if (!fs.existsSync(FRONTEND_LOCAL_CONFIG)) return {};
+  return JSON.parse(fs.readFileSync(FRONTEND_LOCAL_CONFIG, "utf-8")) as NetworkRegistryOverlay;
+}
+
+// config.json with config.local.json applied, as the app sees it
+function readEffectiveRegistry(): NetworkRegistry | null {
+  const registry = readRegistry();
+  return registry && applyRegistryOverlay(registry, readOverlay());
+}
+
+// The frontend network entry for the chain Hardhat is connected to, matched by chainId
+async function findFrontendNetwork(hre: HardhatRuntimeEnvironment, registry: NetworkRegistry | null): Promise<[string, NetworkConfig] | null> {
+  if (!registry?.networks) return null;
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  return findNetworkByChainId(registry, chainId);
+}
+
+// --address wins; otherwise fall back to the contract the frontend uses on this chain
+export async function resolveContractAddress(
+  hre: HardhatRuntimeEnvironment,
+  contract: keyof NetworkContracts,
+  address?: string,
+): Promise<string> {
+  if (address) return address;
+  const found = await findFrontendNetwork(hre, readEffectiveRegistry());
+  const configured = found?.[1].contracts[contract];
+  if (configured) return configured;
+  throw new Error(`Pass --address or set networks.${found?.[0] ?? hre.network.name}.contracts.${contract} in ${configFileName(hre)}`);
+}
+
+// Live networks are edited in config.json, local ones in config.local.json
+const configFileFor = (hre: HardhatRuntimeEnvironment) => (hre.network.live ? FRONTEND_CONFIG : FRONTEND_LOCAL_CONFIG);
+
+const configFileName = (hre: HardhatRuntimeEnvironment) => path.relative(hre.config.paths.root, configFileFor(hre));
+
+// Edits the frontend network entry for this chain; `activate` also points the app at it
+export async function updateFrontendNetwork(
+  hre: HardhatRuntimeEnvironment,
+  update: (network: NetworkConfig) => void,
+  options: { activate?: boolean } = {},
+): Promise<string | null> {
+  const registry = readRegistry();
+  const found = await findFrontendNetwork(hre, registry);
+  if (!registry || !found) {
+    console.warn(`No network in frontend/web/src/config.json matches ${hre.network.name}; config not written`);
+    return null;
+  }
+  const [key, network] = found;
+
+  if (hre.network.live) {
+    update(network);
+    if (options.activate) registry.activeNetwork = key;
+    fs.writeFileSync(FRONTEND_CONFIG, JSON.stringify(registry, null, 2) + "\n");
+    return key;
+  }
+
+  const overlay = readOverlay();
+  const updated: NetworkConfig = structuredClone({ ...network, ...overlay.networks?.[key] });
+  update(updated);
+  overlay.networks = { ...overlay.networks, [key]: networkOverlayFields(network, updated) };
+  if (options.activate) overlay.activeNetwork = key;
+  fs.writeFileSync(FRONTEND_LOCAL_CONFIG, JSON.stringify(overlay, null, 2) + "\n");
+  return key;
+}
+
+export async function writeContractAddress(hre: HardhatRuntimeEnvironment, contract: keyof NetworkContracts, address: string) {
+  const key = await updateFrontendNetwork(hre, (network) => {
+    network.contracts[contract] = address;
+  });
+  if (key) console.log(`Wrote networks.${key}.contracts.${contract} to ${configFileName(hre)}`);
+}
+
+// Points the frontend's entry for this chain at the hardhat-deploy records and refreshes the ABIs it calls
+export async function exportDeployments(hre: HardhatRuntimeEnvironment, options: { activate?: boolean } = {}) {
+  const treasury = await hre.deployments.get("DAO_Treasury_Hedge_FHE");
+  const adapter = await hre.deployments.get("UniversalAdapter");
+  const vault = await hre.deployments.get("EncryptedAmountVault");
+  // Deployed by deploy/04_deploy_governance.ts unless it was left out with --tags
+  const governor = await hre.deployments.getOrNull("TreasuryGovernor");
+  const deployedBlocks = [treasury, adapter, vault].flatMap((deployment) => (deployment.receipt ? [deployment.receipt.blockNumber] : []));
+
+  const key = await updateFrontendNetwork(
+    hre,
+    (network) => {
+      network.contracts = { ...network.contracts, adapter: adapter.address, vault: vault.address, treasury: treasury.address };
+      if (governor) network.contracts.governor = governor.address;
+      if (deployedBlocks.length > 0) network.indexerStartBlock = Math.min(...deployedBlocks);
+    },
+    options,
+  );
+  if (key) console.log(`Wrote networks.${key} contracts to ${configFileName(hre)}`);
+
+  for (const name of EXPORTED_ABIS) {
+    const { _format, contractName, sourceName, abi } = await hre.artifacts.readArtifact(name);
+    fs.writeFileSync(path.join(ABI_DIR, `${name}.json`), JSON.stringify({ _format, contractName, sourceName, abi }, null, 2) + "\n");
+  }
+}
@@ -0,0 +1,159 @@
+// tasks/local.ts
+import { spawn } from "child_process";
+import { subtask, task } from "hardhat/config";
+import { TASK_NODE, TASK_NODE_SERVER_READY } from "hardhat/builtin-tasks/task-names";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Contract } from "ethers";
+
+import { parseAmount } from "../frontend/web/src/amounts";
+import { ASSET_KEY_PREFIX, ASSET_KEYS, AssetRecord, assetCodec } from "../frontend/web/src/assets";
+import { HEDGE_KEY_PREFIX, HEDGE_KEYS, HedgePosition, hedgeCodec } from "../frontend/web/src/hedges";
+import { encodeKeyList, encodeRecord } from "../frontend/web/src/records";
+import { TokenInfo, createTokenRegistry } from "../frontend/web/src/tokens";
+import { encryptAmount } from "./encrypted-input";
+import { exportDeployments } from "./frontend-config";
+
+type DemoAsset = { symbol: string; amount: string; hedge?: string };
+
+// Token amounts, scaled to base units by each token's decimals; hedges are the amounts the hedge provider reports
+const DEMO_ASSETS: DemoAsset[] = [
+  { symbol: "ETH", amount: "1200.5", hedge: "900" },
+  { symbol: "BTC", amount: "45.25", hedge: "20" },
+  { symbol: "USDC", amount: "2500000" },
+  { symbol: "DAI", amount: "800000" },
+  { symbol: "LINK", amount: "30000", hedge: "10000" },
+];
+
+// The frontend's token list gives each demo symbol a stable address on the local chain: the native-currency
+// address for ETH, and stand-ins for the rest, so batch history reads the same across restarts
+const LOCAL_TOKENS = createTokenRegistry(31337);
+
+const demoToken = (symbol: string): TokenInfo => {
+  const token = LOCAL_TOKENS.bySymbol(symbol);
+  if (!token) throw new Error(`${symbol} is not in the token list for the local chain`);
+  return token;
+};
+
+const baseUnits = (symbol: string, amount = "0") => parseAmount(amount, demoToken(symbol).decimals);
+
+async function seedTreasury(hre: HardhatRuntimeEnvironment, treasury: Contract) {
+  // Registered as providers, with no cooldown, by deploy/02_setup_treasury.ts
+  const named = await hre.getNamedAccounts();
+  const [assetProvider, hedgeProvider] = await Promise.all([hre.ethers.getSigner(named.assetProvider), hre.ethers.getSigner(named.hedgeProvider)]);
+  const treasuryAddress = await treasury.getAddress();
+
+  const submit = async (signer: typeof assetProvider, method: string, symbol: string, amount: bigint) => {
+    const encrypted = await encryptAmount(hre, treasuryAddress, signer.address, amount);
+    const batchId = await treasury.currentBatchId();
+    await (await (treasury.connect(signer) as Contract)[method](batchId, demoToken(symbol).address, encrypted.handle, encrypted.inputProof)).wait();
+  };
+
+  await (await treasury.setAssetTargetHedgeRatioBps(demoToken("ETH").address, 8_000)).wait();
+  await (await treasury.setAssetTargetHedgeRatioBps(demoToken("USDC").address, 0)).wait();
+
+  for (const asset of DEMO_ASSETS) {
+    await submit(assetProvider, "submitEncryptedAssetAmount", asset.symbol, baseUnits(asset.symbol, asset.amount));
+    if (asset.hedge) await submit(hedgeProvider, "submitEncryptedHedgeAmount", asset.symbol, baseUnits(asset.symbol, asset.hedge));
+  }
+
+  // Batch 1 closes with its hedge checks; batch 2 is left open for submissions from the frontend
+  const closedBatchId = await treasury.currentBatchId();
+  await (await treasury.closeCurrentBatch()).wait();
+  await (await treasury.openNewBatch()).wait();
+
+  console.log(`Seeded providers ${assetProvider.address}, ${hedgeProvider.address}; ${DEMO_ASSETS.length} assets submitted to batch ${closedBatchId}, which is closed`);
+}
+
+// Stores an amount in the vault the way the frontend does, under the hash of its record key, and returns its handle
+async function storeInVault(hre: HardhatRuntimeEnvironment, vault: Contract, owner: string, recordKey: string, amount: bigint) {
+  const encrypted = await encryptAmount(hre, await vault.getAddress(), owner, amount);
+  const receipt = await (await vault.store(hre.ethers.id(recordKey), encrypted.handle, encrypted.inputProof)).wait();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = vault.interface.parseLog(log);
+    if (parsed?.name === "AmountStored") return hre.ethers.toBeHex(parsed.args.amount, 32);
+  }
+  throw new Error(`AmountStored not found in transaction ${receipt?.hash}`);
+}
+
+async function seedRecords(hre: HardhatRuntimeEnvironment, adapter: Contract, vault: Contract) {
+  const [owner] = await hre.ethers.getSigners();
+  const vaultAddress = await vault.getAddress();
+  const now = Math.floor(Date.now() / 1000);
+
+  const assetIds: string[] = [];
+  for (const asset of DEMO_ASSETS) {
+    const id = `demo-${asset.symbol.toLowerCase()}`;
+    const key = `${ASSET_KEY_PREFIX}${id}`;
+    const record: AssetRecord = {
+      encryptedAmount: await storeInVault(hre, vault, owner.address, key, baseUnits(asset.symbol, asset.amount)),
+      vault: vaultAddress,
+      asset: demoToken(asset.symbol).address,
+      assetType: asset.symbol,
+      decimals: demoToken(asset.symbol).decimals,
+      timestamp: now,
+      owner: owner.address,
+    };
+    await (await adapter.setData(key, encodeRecord(assetCodec, record))).wait();
+    assetIds.push(id);
+  }
+
+  const hedges: Omit<HedgePosition, "notional" | "vault" | "decimals" | "owner" | "openedAt">[] = [
+    { id: "demo-eth-perp", assetId: "demo-eth", assetType: "ETH", instrument: "perp", entryPrice: 3_400, venue: "Local perp DEX", cost: 1_250 },
+    { id: "demo-btc-put", assetId: "demo-btc", assetType: "BTC", instrument: "option", optionType: "put", entryPrice: 55_000, expiry: now + 30 * 24 * 60 * 60, venue: "Local options AMM", cost: 18_000 },
+  ];
+  const notionals: Record<string, string> = { "demo-eth-perp": "600", "demo-btc-put": "20" };
+  for (const hedge of hedges) {
+    const key = `${HEDGE_KEY_PREFIX}${hedge.id}`;
+    const decimals = demoToken(hedge.assetType).decimals;
+    const notional = await storeInVault(hre, vault, owner.address, key, parseAmount(notionals[hedge.id], decimals));
+    const position: HedgePosition = { ...hedge, notional, vault: vaultAddress, decimals, openedAt: now, owner: owner.address };
+    await (await adapter.setData(key, encodeRecord(hedgeCodec, position))).wait();
+  }
+
+  await (await adapter.setData(ASSET_KEYS, encodeKeyList(assetIds))).wait();
+  await (await adapter.setData(HEDGE_KEYS, encodeKeyList(hedges.map((hedge) => hedge.id)))).wait();
+  console.log(`Seeded ${assetIds.length} asset and ${hedges.length} hedge records`);
+}
+
+task("local:seed", "Seeds the contracts deployed to the local node with demo data and points the frontend at them")
+  .addFlag("noSeed", "Only point the frontend at the deployment, without demo batches and records")
+  .setAction(async (args: { noSeed: boolean }, hre) => {
+    if (hre.network.name !== "localhost") {
+      throw new Error(`local:seed writes demo data and only runs against the local node (--network localhost), not ${hre.network.name}`);
+    }
+    await hre.fhevm.initializeCLIApi();
+    const treasury = await hre.ethers.getContractAt("DAO_Treasury_Hedge_FHE", (await hre.deployments.get("DAO_Treasury_Hedge_FHE")).address);
+    const adapterDeployment = await hre.deployments.get("UniversalAdapter");
+    const adapter = await hre.ethers.getContractAt(adapterDeployment.abi, adapterDeployment.address);
+    const vault = await hre.ethers.getContractAt("EncryptedAmountVault", (await hre.deployments.get("EncryptedAmountVault")).address);
+
+    if (!args.noSeed) {
+      await seedTreasury(hre, treasury as unknown as Contract);
+      await seedRecords(hre, adapter as unknown as Contract, vault as unknown as Contract);
+    }
+    await exportDeployments(hre, { activate: true });
+  });
+
+let seedWhenReady: { noSeed: boolean } | null = null;
+
+// hardhat-deploy runs deploy/ inside the node before it listens. Seeding needs a separate process because the
+// fhevm plugin cannot create encrypted inputs inside the node itself.
+subtask(TASK_NODE_SERVER_READY).setAction(async (args, hre, runSuper) => {
+  await runSuper(args);
+  if (!seedWhenReady) return;
+
+  const cli = require.resolve("hardhat/internal/cli/cli");
+  const seedArgs = ["--config", hre.config.paths.configFile, "--network", "localhost", "local:seed"];
+  if (seedWhenReady.noSeed) seedArgs.push("--no-seed");
+  const exitCode = await new Promise<number | null>((resolve) => {
+    spawn(process.execPath, [cli, ...seedArgs], { stdio: "inherit" }).on("exit", resolve);
+  });
+  if (exitCode !== 0) console.error("local:seed failed; the node keeps running. Retry with `npx hardhat local:seed --network localhost`");
+});
+
+task("local:node", "Runs a Hardhat node in FHE mock mode on localhost:8545 with the treasury stack deployed and seeded")
+  .addFlag("noSeed", "Deploy only, without demo batches and records")
+  .setAction(async (args: { noSeed: boolean }, hre) => {
+    seedWhenReady = { noSeed: args.noSeed };
+    await hre.run(TASK_NODE, { port: 8545 });
+  });
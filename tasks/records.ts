@@ -0,0 +1,85 @@
+// tasks/records.ts
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Contract, EventLog } from "ethers";
+
+import adapterAbi from "../frontend/web/src/abi/UniversalAdapter.json";
+import { ASSET_RECORDS } from "../frontend/web/src/assets";
+import { HEDGE_RECORDS } from "../frontend/web/src/hedges";
+import { compareKeyIndex, recordIdsFromEvents, repairedKeyList } from "../frontend/web/src/key-index";
+import { MigrationResult, RecordCollection, decodeKeyList, encodeKeyList, migrateCollection } from "../frontend/web/src/records";
+import { resolveContractAddress } from "./frontend-config";
+
+const COLLECTIONS: Record<string, RecordCollection<any>> = { assets: ASSET_RECORDS, hedges: HEDGE_RECORDS };
+
+async function getAdapter(hre: HardhatRuntimeEnvironment, address?: string): Promise<Contract> {
+  const [signer] = await hre.ethers.getSigners();
+  return (await hre.ethers.getContractAt(
+    (adapterAbi as any).abi ?? adapterAbi,
+    await resolveContractAddress(hre, "adapter", address),
+    signer,
+  )) as unknown as Contract;
+}
+
+function selectCollections(only?: string): [string, RecordCollection<any>][] {
+  if (only && !COLLECTIONS[only]) throw new Error(`Unknown collection: ${only}`);
+  return Object.entries(COLLECTIONS).filter(([name]) => !only || only === name);
+}
+
+const summarize = (result: MigrationResult) => {
+  switch (result.status) {
+    case "migrated":
+      return `v${result.fromVersion} -> v${result.toVersion}`;
+    case "current":
+      return `v${result.toVersion}, up to date`;
+    default:
+      return `invalid: ${result.error}`;
+  }
+};
+
+task("records:migrate", "Rewrites UniversalAdapter asset and hedge records in the newest schema version")
+  .addOptionalParam("address", "UniversalAdapter address")
+  .addOptionalParam("only", `Limit to one collection: ${Object.keys(COLLECTIONS).join(" or ")}`)
+  .addFlag("dryRun", "Report what would be rewritten without sending transactions")
+  .setAction(async (args: { address?: string; only?: string; dryRun: boolean }, hre) => {
+    const adapter = await getAdapter(hre, args.address);
+
+    for (const [name, collection] of selectCollections(args.only)) {
+      console.log(`${name} (schemaVersion ${collection.codec.version}):`);
+      const results = await migrateCollection(adapter, collection, {
+        dryRun: args.dryRun,
+        onResult: (result) => console.log(`  ${result.key}: ${summarize(result)}`),
+      });
+      const count = (status: MigrationResult["status"]) => results.filter((r) => r.status === status).length;
+      console.log(
+        `  ${count("migrated")} ${args.dryRun ? "to migrate" : "migrated"}, ${count("current")} current, ${count("invalid")} invalid`,
+      );
+    }
+  });
+
+task("records:reconcile", "Compares the asset and hedge key lists with the records in the DataStored event log")
+  .addOptionalParam("address", "UniversalAdapter address")
+  .addOptionalParam("fromBlock", "Block to replay DataStored from, e.g. the adapter deployment block", 0, types.int)
+  .addOptionalParam("only", `Limit to one collection: ${Object.keys(COLLECTIONS).join(" or ")}`)
+  .addFlag("fix", "Rewrite each key list without dangling keys and with orphaned records appended")
+  .setAction(async (args: { address?: string; fromBlock: number; only?: string; fix: boolean }, hre) => {
+    const adapter = await getAdapter(hre, args.address);
+    const events = (await adapter.queryFilter(adapter.filters.DataStored(), args.fromBlock)) as EventLog[];
+    const stored = events.map((event) => ({ key: event.args.key as string, value: event.args.value as string }));
+
+    for (const [name, collection] of selectCollections(args.only)) {
+      const report = compareKeyIndex(
+        recordIdsFromEvents(stored, collection),
+        decodeKeyList(await adapter.getData(collection.keysKey)),
+      );
+      console.log(`${name}: ${report.stored.length} stored, ${report.listed.length} listed in ${collection.keysKey}`);
+      report.orphaned.forEach((id) => console.log(`  orphaned: ${collection.keyPrefix}${id}`));
+      report.dangling.forEach((id) => console.log(`  dangling: ${id}`));
+
+      if (args.fix && (report.orphaned.length > 0 || report.dangling.length > 0)) {
+        const tx = await adapter.setData(collection.keysKey, encodeKeyList(repairedKeyList(report)));
+        console.log(`  rewrote ${collection.keysKey}: ${tx.hash}`);
+        await tx.wait();
+      }
+    }
+  });
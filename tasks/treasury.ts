@@ -0,0 +1,184 @@
+// tasks/treasury.ts
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Contract, ContractTransactionReceipt, ContractTransactionResponse, EventLog } from "ethers";
+
+import { getLabelledDecryption, waitForDecryption } from "../frontend/web/src/batch-decryption";
+import { toTreasuryError } from "../frontend/web/src/treasury-errors";
+import { resolveContractAddress } from "./frontend-config";
+
+async function getTreasury(hre: HardhatRuntimeEnvironment, address?: string): Promise<Contract> {
+  const [signer] = await hre.ethers.getSigners();
+  return (await hre.ethers.getContractAt("DAO_Treasury_Hedge_FHE", await resolveContractAddress(hre, "treasury", address), signer)) as unknown as Contract;
+}
+
+// Refuses to send owner- or governance-only transactions from any other account
+async function getTreasuryAs(
+  hre: HardhatRuntimeEnvironment,
+  role: "owner" | "governance",
+  address?: string,
+): Promise<Contract> {
+  const treasury = await getTreasury(hre, address);
+  const [signer] = await hre.ethers.getSigners();
+  const holder: string = await treasury[role]();
+  if (holder.toLowerCase() !== signer.address.toLowerCase()) {
+    throw new Error(`Signer ${signer.address} is not the treasury ${role} (${holder})`);
+  }
+  return treasury;
+}
+
+// Reverts are rethrown as the app's TreasuryError subclasses, so a task fails with the same message the UI shows
+async function sendAndLog(treasury: Contract, action: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+  let tx: ContractTransactionResponse;
+  let receipt: ContractTransactionReceipt | null;
+  try {
+    tx = await action;
+    console.log(`tx: ${tx.hash}`);
+    receipt = await tx.wait();
+  } catch (e) {
+    throw toTreasuryError(e);
+  }
+  if (!receipt) throw new Error(`Transaction ${tx.hash} was dropped`);
+  for (const log of receipt.logs) {
+    const parsed = treasury.interface.parseLog(log);
+    if (!parsed) continue;
+    const args = parsed.fragment.inputs.map((input, i) => `${input.name}=${parsed.args[i]}`).join(", ");
+    console.log(`  ${parsed.name}(${args})`);
+  }
+  return receipt;
+}
+
+// Current providers, replayed from ProviderAdded/ProviderRemoved in chain order
+async function replayProviders(treasury: Contract, fromBlock: number): Promise<string[]> {
+  const added = await treasury.queryFilter(treasury.filters.ProviderAdded(), fromBlock);
+  const removed = await treasury.queryFilter(treasury.filters.ProviderRemoved(), fromBlock);
+  const events = [...added, ...removed].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index) as EventLog[];
+
+  const providers = new Map<string, string>();
+  for (const event of events) {
+    const provider: string = event.args.provider;
+    if (event.eventName === "ProviderAdded") {
+      if (!providers.has(provider.toLowerCase())) providers.set(provider.toLowerCase(), provider);
+    } else {
+      providers.delete(provider.toLowerCase());
+    }
+  }
+  return [...providers.values()];
+}
+
+task("treasury:status", "Prints owner, governance, pause state, cooldown and current batch")
+  .addOptionalParam("address", "Treasury contract address")
+  .setAction(async (args: { address?: string }, hre) => {
+    const treasury = await getTreasury(hre, args.address);
+    console.log(`treasury: ${await treasury.getAddress()}`);
+    console.log(`owner: ${await treasury.owner()}`);
+    console.log(`governance: ${await treasury.governance()}`);
+    console.log(`paused: ${await treasury.paused()}`);
+    console.log(`cooldownSeconds: ${await treasury.cooldownSeconds()}`);
+    console.log(`targetHedgeRatioBps: ${await treasury.targetHedgeRatioBps()}`);
+    console.log(`currentBatchId: ${await treasury.currentBatchId()}`);
+  });
+
+task("treasury:providers", "Lists current providers by replaying ProviderAdded/ProviderRemoved")
+  .addOptionalParam("address", "Treasury contract address")
+  .addOptionalParam("fromBlock", "Block to replay from (deployment block)", 0, types.int)
+  .setAction(async (args: { address?: string; fromBlock: number }, hre) => {
+    const treasury = await getTreasury(hre, args.address);
+    const providers = await replayProviders(treasury, args.fromBlock);
+    if (providers.length === 0) console.log("No providers registered");
+    providers.forEach((provider) => console.log(provider));
+  });
+
+task("treasury:add-provider", "Registers a provider")
+  .addParam("provider", "Provider address")
+  .addOptionalParam("address", "Treasury contract address")
+  .setAction(async (args: { provider: string; address?: string }, hre) => {
+    const treasury = await getTreasuryAs(hre, "owner", args.address);
+    await sendAndLog(treasury, treasury.addProvider(args.provider));
+  });
+
+task("treasury:remove-provider", "Unregisters a provider")
+  .addParam("provider", "Provider address")
+  .addOptionalParam("address", "Treasury contract address")
+  .setAction(async (args: { provider: string; address?: string }, hre) => {
+    const treasury = await getTreasuryAs(hre, "owner", args.address);
+    await sendAndLog(treasury, treasury.removeProvider(args.provider));
+  });
+
+task("treasury:set-paused", "Pauses or unpauses submissions and batch changes")
+  .addParam("paused", "true to pause, false to unpause", undefined, types.boolean)
+  .addOptionalParam("address", "Treasury contract address")
+  .setAction(async (args: { paused: boolean; address?: string }, hre) => {
+    const treasury = await getTreasuryAs(hre, "owner", args.address);
+    await sendAndLog(treasury, treasury.setPaused(args.paused));
+  });
+
+task("treasury:set-cooldown", "Sets the per-account cooldown between submissions")
+  .addParam("seconds", "Cooldown in seconds", undefined, types.int)
+  .addOptionalParam("address", "Treasury contract address")
+  .setAction(async (args: { seconds: number; address?: string }, hre) => {
+    if (args.seconds < 0) throw new Error("Cooldown cannot be negative");
+    const treasury = await getTreasuryAs(hre, "owner", args.address);
+    await sendAndLog(treasury, treasury.setCooldownSeconds(args.seconds));
+  });
+
+task("treasury:set-asset-target", "Sets or clears the target hedge ratio for one asset")
+  .addParam("asset", "Asset address")
+  .addOptionalParam("bps", "Target hedge ratio in basis points (0-10000)", undefined, types.int)
+  .addFlag("clear", "Remove the asset's target so it follows the default ratio")
+  .addOptionalParam("address", "Treasury contract address")
+  .setAction(async (args: { asset: string; bps?: number; clear: boolean; address?: string }, hre) => {
+    if (args.clear === (args.bps !== undefined)) throw new Error("Pass either --bps or --clear");
+    const treasury = await getTreasuryAs(hre, "owner", args.address);
+    if (args.clear) {
+      await sendAndLog(treasury, treasury.clearAssetTargetHedgeRatio(args.asset));
+    } else {
+      if (args.bps! < 0 || args.bps! > 10_000) throw new Error("Target must be between 0 and 10000 bps");
+      await sendAndLog(treasury, treasury.setAssetTargetHedgeRatioBps(args.asset, args.bps));
+    }
+  });
+
+task("treasury:transfer-ownership", "Transfers treasury ownership")
+  .addParam("to", "New owner address")
+  .addOptionalParam("address", "Treasury contract address")
+  .setAction(async (args: { to: string; address?: string }, hre) => {
+    if (!hre.ethers.isAddress(args.to) || args.to === hre.ethers.ZeroAddress) {
+      throw new Error(`Invalid new owner address: ${args.to}`);
+    }
+    const treasury = await getTreasuryAs(hre, "governance", args.address);
+    await sendAndLog(treasury, treasury.transferOwnership(args.to));
+  });
+
+task("treasury:set-governance", "Hands decryption requests and ownership changes to a new governance address")
+  .addParam("to", "New governance address, e.g. the DAO timelock")
+  .addOptionalParam("address", "Treasury contract address")
+  .setAction(async (args: { to: string; address?: string }, hre) => {
+    if (!hre.ethers.isAddress(args.to) || args.to === hre.ethers.ZeroAddress) {
+      throw new Error(`Invalid governance address: ${args.to}`);
+    }
+    const treasury = await getTreasuryAs(hre, "governance", args.address);
+    await sendAndLog(treasury, treasury.setGovernance(args.to));
+  });
+
+task("treasury:request-decryption", "Requests a closed batch's decryption and prints its amounts once the oracle answers")
+  .addParam("batch", "Batch id", undefined, types.int)
+  .addOptionalParam("timeout", "Seconds to wait for the answer", 600, types.int)
+  .addOptionalParam("address", "Treasury contract address")
+  .setAction(async (args: { batch: number; timeout: number; address?: string }, hre) => {
+    const treasury = await getTreasuryAs(hre, "governance", args.address);
+    const receipt = await sendAndLog(treasury, treasury.requestBatchDecryption(args.batch));
+    const requested = receipt.logs
+      .map((log) => treasury.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "DecryptionRequested");
+    if (!requested) throw new Error(`DecryptionRequested not found in transaction ${receipt.hash}`);
+
+    console.log(`Waiting for the oracle to answer request ${requested.args.requestId} (on a local node, run oracle:run)`);
+    const result = await waitForDecryption(
+      treasury,
+      { requestId: requested.args.requestId, blockNumber: receipt.blockNumber },
+      { timeoutMs: args.timeout * 1000 },
+    );
+    for (const entry of await getLabelledDecryption(treasury, result)) {
+      console.log(`${entry.asset}: amount=${entry.assetAmount} hedged=${entry.hedgeAmount}`);
+    }
+  });
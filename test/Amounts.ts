@@ -0,0 +1,59 @@
+import { expect } from "chai";
+
+import {
+  AmountError,
+  MAX_ENCRYPTED_AMOUNT,
+  amountToNumber,
+  formatAmount,
+  parseAmount,
+  requireEncryptableAmount,
+  rescaleAmount,
+} from "../frontend/web/src/amounts";
+
+describe("Token amounts", function () {
+  it("parses decimal strings into base units without going through floats", function () {
+    expect(parseAmount("1.5", 18)).to.equal(1_500_000_000_000_000_000n);
+    expect(parseAmount("0.000000000000000001", 18)).to.equal(1n);
+    expect(parseAmount("1234567.890123", 6)).to.equal(1_234_567_890_123n);
+    expect(parseAmount(" 2_500 ", 6)).to.equal(2_500_000_000n);
+    expect(parseAmount(".25", 8)).to.equal(25_000_000n);
+    expect(parseAmount("7.", 0)).to.equal(7n);
+    // Trailing zeros past the token's precision carry no value
+    expect(parseAmount("1.50000000", 6)).to.equal(1_500_000n);
+  });
+
+  it("rejects what it would have to round or guess at", function () {
+    expect(() => parseAmount("1.0000001", 6)).to.throw(AmountError, "more than 6 decimal places");
+    for (const input of ["", ".", "-1", "1e18", "0x10", "1.2.3", "NaN"]) {
+      expect(() => parseAmount(input, 18), input).to.throw(AmountError);
+    }
+    expect(() => parseAmount("1", 1.5)).to.throw(AmountError, "decimals");
+  });
+
+  it("formats base units back to the string that was parsed", function () {
+    for (const [input, decimals] of [["1200.5", 18], ["0.00000001", 8], ["2500000", 6], ["0", 18]] as const) {
+      expect(formatAmount(parseAmount(input, decimals), decimals)).to.equal(input);
+    }
+    expect(formatAmount(1_234_567n, 6, 2)).to.equal("1.23");
+    expect(formatAmount(-1_500_000n, 6)).to.equal("-1.5");
+    expect(amountToNumber(parseAmount("1200.5", 18), 18)).to.equal(1200.5);
+  });
+
+  it("rescales between token decimals and only rounds when asked to", function () {
+    expect(rescaleAmount(1_500_000n, 6, 18)).to.equal(1_500_000_000_000_000_000n);
+    expect(rescaleAmount(1_500_000_000_000_000_000n, 18, 6)).to.equal(1_500_000n);
+    expect(() => rescaleAmount(1_500_000_000_000_000_001n, 18, 6)).to.throw(AmountError, "not representable");
+    expect(rescaleAmount(1_500_000_000_000_000_001n, 18, 6, "floor")).to.equal(1_500_000n);
+    expect(rescaleAmount(1_500_000_000_000_000_001n, 18, 6, "ceil")).to.equal(1_500_001n);
+    expect(rescaleAmount(-15n, 1, 0, "floor")).to.equal(-2n);
+    expect(rescaleAmount(-15n, 1, 0, "ceil")).to.equal(-1n);
+  });
+
+  it("keeps encrypted amounts within the treasury's hedge-check range", function () {
+    expect(requireEncryptableAmount(MAX_ENCRYPTED_AMOUNT)).to.equal(MAX_ENCRYPTED_AMOUNT);
+    expect(() => requireEncryptableAmount(MAX_ENCRYPTED_AMOUNT + 1n)).to.throw(AmountError, "exceeds");
+    expect(() => requireEncryptableAmount(-1n)).to.throw(AmountError, "negative");
+    // A billion ETH to the wei still fits
+    expect(requireEncryptableAmount(parseAmount("1000000000", 18))).to.equal(10n ** 27n);
+  });
+});
@@ -0,0 +1,84 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import hre, { ethers, fhevm } from "hardhat";
+
+import {
+  DecryptionResult,
+  getLabelledDecryption,
+  labelDecryptionResult,
+  waitForDecryption,
+} from "../frontend/web/src/batch-decryption";
+import { DecryptionOracleSimulator } from "../tasks/decryption-oracle";
+import { encryptAmount } from "../tasks/encrypted-input";
+
+// Asset and hedge amounts of the decrypted batch, in submission order
+const BATCH = [
+  { asset: "0x00000000000000000000000000000000000000e1", amount: 1_200, hedge: 900 },
+  { asset: "0x00000000000000000000000000000000000000b1", amount: 45, hedge: 0 },
+];
+
+describe("Batch decryption", function () {
+  let treasury: Contract;
+  let request: { requestId: bigint; blockNumber: number };
+
+  const answer = () => new DecryptionOracleSimulator(hre, treasury, { fromBlock: request.blockNumber }).processPending();
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in the FHEVM mock environment");
+      this.skip();
+    }
+
+    const [, provider] = await ethers.getSigners();
+    treasury = (await (await ethers.getContractFactory("DAO_Treasury_Hedge_FHE")).deploy()) as unknown as Contract;
+    const treasuryAddress = await treasury.getAddress();
+    await treasury.addProvider(provider.address);
+    await treasury.setCooldownSeconds(0);
+
+    const asProvider = treasury.connect(provider) as Contract;
+    for (const entry of BATCH) {
+      const amount = await encryptAmount(hre, treasuryAddress, provider.address, entry.amount);
+      await asProvider.submitEncryptedAssetAmount(1, entry.asset, amount.handle, amount.inputProof);
+      const hedge = await encryptAmount(hre, treasuryAddress, provider.address, entry.hedge);
+      await asProvider.submitEncryptedHedgeAmount(1, entry.asset, hedge.handle, hedge.inputProof);
+    }
+    await treasury.closeCurrentBatch();
+    const receipt = (await (await treasury.requestBatchDecryption(1)).wait())!;
+    request = { requestId: 0n, blockNumber: receipt.blockNumber };
+  });
+
+  it("labels an answer the oracle already delivered with the batch's assets", async function () {
+    await answer();
+
+    const result = await waitForDecryption(treasury, request, { timeoutMs: 5_000 });
+
+    expect(result).to.deep.include({ requestId: 0n, batchId: 1n });
+    expect(await getLabelledDecryption(treasury, result)).to.deep.equal(
+      BATCH.map((entry) => ({ asset: entry.asset, assetAmount: BigInt(entry.amount), hedgeAmount: BigInt(entry.hedge) })),
+    );
+  });
+
+  it("resolves once with an answer delivered while waiting", async function () {
+    const waiting = waitForDecryption(treasury, request, { timeoutMs: 20_000 });
+    await answer();
+
+    const result = await waiting;
+
+    expect(result.assetAmounts).to.deep.equal(BATCH.map((entry) => BigInt(entry.amount)));
+    expect(await treasury.listenerCount()).to.equal(0);
+  });
+
+  it("rejects when the wait times out or is aborted", async function () {
+    await expect(waitForDecryption(treasury, request, { timeoutMs: 50 })).to.be.rejectedWith("Timed out");
+    const controller = new AbortController();
+    const waiting = waitForDecryption(treasury, request, { signal: controller.signal });
+    controller.abort();
+    await expect(waiting).to.be.rejectedWith("Stopped waiting");
+  });
+
+  it("refuses to label an answer whose length does not match the registry", function () {
+    const result: DecryptionResult = { requestId: 0n, batchId: 1n, assetAmounts: [1n], hedgeAmounts: [0n] };
+
+    expect(() => labelDecryptionResult(BATCH.map((entry) => entry.asset), result)).to.throw("has 2 assets but decryption returned 1");
+  });
+});
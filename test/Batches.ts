@@ -0,0 +1,72 @@
+import { expect } from "chai";
+
+import { buildBatchTimeline } from "../frontend/web/src/batches";
+import { IndexedEvent, IndexedValue } from "../frontend/web/src/event-indexer";
+
+const ETH = "0x00000000000000000000000000000000000000e1";
+const USDC = "0x00000000000000000000000000000000000000b1";
+const PROVIDER = "0x000000000000000000000000000000000000dEaD";
+
+describe("Batch timeline", function () {
+  let logIndex = 0;
+
+  // Indexed events hold their args as strings, the way EventIndexer stores them
+  const event = (name: string, blockNumber: number, args: Record<string, IndexedValue>): IndexedEvent => ({
+    id: `${blockNumber}:${logIndex}`,
+    source: "treasury",
+    name,
+    blockNumber,
+    blockHash: `0x${blockNumber.toString(16)}`,
+    txHash: `0xtx${logIndex}`,
+    logIndex: logIndex++,
+    args,
+  });
+
+  const submission = (name: string, blockNumber: number, batchId: string, asset: string) =>
+    event(name, blockNumber, { batchId, provider: PROVIDER, asset, amount: "1" });
+
+  beforeEach(function () {
+    logIndex = 0;
+  });
+
+  it("replays a batch from open to decrypted and labels the snapshot in registry order", function () {
+    const timeline = buildBatchTimeline([
+      event("BatchOpened", 1, { batchId: "1" }),
+      submission("HedgeSubmitted", 2, "1", ETH),
+      submission("AssetSubmitted", 3, "1", USDC),
+      submission("AssetSubmitted", 4, "1", "0x00000000000000000000000000000000000000E1"),
+      event("BatchClosed", 5, { batchId: "1" }),
+      event("DecryptionRequested", 6, { requestId: "0", batchId: "1", stateHash: "0x00" }),
+      event("DecryptionCompleted", 8, { requestId: "0", batchId: "1", assetAmounts: ["1200", "45"], hedgeAmounts: ["900", "0"] }),
+    ]);
+
+    expect(timeline).to.have.length(1);
+    const [batch] = timeline;
+    expect(batch).to.deep.include({ batchId: 1n, status: "decrypted", openedBlock: 1, closedBlock: 5, decryptionRequestId: 0n });
+    expect(batch.decryptionRequestBlock).to.equal(6);
+    // Assets are matched case-insensitively; the first submission fixes each one's place
+    expect(batch.assets).to.deep.equal([ETH, USDC]);
+    expect(batch.submissions.map((entry) => entry.kind)).to.deep.equal(["hedge", "asset", "asset"]);
+    expect(batch.snapshot).to.deep.equal([
+      { asset: ETH, assetAmount: 1_200n, hedgeAmount: 900n },
+      { asset: USDC, assetAmount: 45n, hedgeAmount: 0n },
+    ]);
+  });
+
+  it("tracks each batch's status on its own, newest first, and ignores other sources", function () {
+    const timeline = buildBatchTimeline([
+      event("BatchOpened", 1, { batchId: "1" }),
+      event("BatchClosed", 2, { batchId: "1" }),
+      event("DecryptionRequested", 3, { requestId: "0", batchId: "1", stateHash: "0x00" }),
+      event("BatchOpened", 4, { batchId: "2" }),
+      submission("AssetSubmitted", 5, "2", ETH),
+      { ...event("DataStored", 6, { sender: PROVIDER, key: "asset_a", value: "0x01" }), source: "adapter" },
+    ]);
+
+    expect(timeline.map((batch) => [batch.batchId, batch.status])).to.deep.equal([
+      [2n, "open"],
+      [1n, "decryption-pending"],
+    ]);
+    expect(timeline[1].snapshot).to.equal(null);
+  });
+});
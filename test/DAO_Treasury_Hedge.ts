@@ -0,0 +1,241 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { MAX_ENCRYPTED_AMOUNT, parseAmount } from "../frontend/web/src/amounts";
+import { encryptAmount } from "../tasks/encrypted-input";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  provider: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+  governance: HardhatEthersSigner;
+};
+
+async function deployFixture() {
+  const factory = await ethers.getContractFactory("DAO_Treasury_Hedge_FHE");
+  const contract = (await factory.deploy()) as unknown as Contract;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("DAO_Treasury_Hedge_FHE", function () {
+  let signers: Signers;
+  let contract: Contract;
+  let contractAddress: string;
+
+  const asProvider = () => contract.connect(signers.provider) as Contract;
+
+  const submitAsset = async (batchId: number, asset: string, value: number | bigint) => {
+    const amount = await encryptAmount(hre, contractAddress, signers.provider.address, value);
+    return asProvider().submitEncryptedAssetAmount(batchId, asset, amount.handle, amount.inputProof);
+  };
+
+  const submitHedge = async (batchId: number, asset: string, value: number | bigint) => {
+    const amount = await encryptAmount(hre, contractAddress, signers.provider.address, value);
+    return asProvider().submitEncryptedHedgeAmount(batchId, asset, amount.handle, amount.inputProof);
+  };
+
+  before(async function () {
+    const [owner, provider, outsider, governance] = await ethers.getSigners();
+    signers = { owner, provider, outsider, governance };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in the FHEVM mock environment");
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+    await contract.addProvider(signers.provider.address);
+    await contract.setCooldownSeconds(0);
+    await contract.setGovernance(signers.governance.address);
+  });
+
+  describe("asset registry", function () {
+    it("starts every batch with an empty registry", async function () {
+      expect(await contract.getBatchAssets(1)).to.deep.equal([]);
+    });
+
+    it("registers N assets in first-submission order", async function () {
+      const assets = Array.from({ length: 5 }, () => ethers.Wallet.createRandom().address);
+
+      for (const [i, asset] of assets.entries()) {
+        await submitAsset(1, asset, 100 * (i + 1));
+      }
+
+      expect(await contract.getBatchAssets(1)).to.deep.equal(assets);
+      for (const asset of assets) {
+        expect(await contract.isBatchAsset(1, asset)).to.eq(true);
+      }
+    });
+
+    it("registers assets that only received a hedge", async function () {
+      const asset = ethers.Wallet.createRandom().address;
+
+      await submitHedge(1, asset, 50);
+
+      expect(await contract.getBatchAssets(1)).to.deep.equal([asset]);
+    });
+
+    it("does not register an asset twice", async function () {
+      const asset = ethers.Wallet.createRandom().address;
+
+      await submitAsset(1, asset, 100);
+      await submitHedge(1, asset, 40);
+      await submitAsset(1, asset, 120);
+
+      expect(await contract.getBatchAssets(1)).to.deep.equal([asset]);
+    });
+
+    it("keeps registries separate per batch", async function () {
+      const [first, second] = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address];
+
+      await submitAsset(1, first, 100);
+      await contract.openNewBatch();
+      await submitAsset(2, second, 200);
+
+      expect(await contract.getBatchAssets(1)).to.deep.equal([first]);
+      expect(await contract.getBatchAssets(2)).to.deep.equal([second]);
+      expect(await contract.isBatchAsset(2, first)).to.eq(false);
+    });
+
+    it("does not register assets from rejected submissions", async function () {
+      const asset = ethers.Wallet.createRandom().address;
+
+      // Into the open batch, so that only the provider check can reject it. The fhevm plugin replaces this revert
+      // with its own error on the in-process network, so the reason comes from a simulation and the mined
+      // transaction is checked by its receipt.
+      const outsiderAmount = await encryptAmount(hre, contractAddress, signers.outsider.address, 100);
+      const asOutsider = contract.connect(signers.outsider) as Contract;
+      const args = [1, asset, outsiderAmount.handle, outsiderAmount.inputProof];
+      await expect(asOutsider.submitEncryptedAssetAmount.staticCall(...args)).to.be.revertedWithCustomError(contract, "NotProvider");
+      await expect(asOutsider.submitEncryptedAssetAmount(...args)).to.be.rejected;
+      const [sent] = (await ethers.provider.getBlock("latest"))!.transactions;
+      const receipt = (await ethers.provider.getTransactionReceipt(sent))!;
+      expect([receipt.from, receipt.to, receipt.status]).to.deep.equal([signers.outsider.address, contractAddress, 0]);
+      await contract.closeCurrentBatch();
+      await expect(
+        submitAsset(1, asset, 100),
+      ).to.be.revertedWithCustomError(contract, "BatchAlreadyClosed");
+
+      expect(await contract.getBatchAssets(1)).to.deep.equal([]);
+    });
+  });
+
+  describe("encrypted submissions", function () {
+    const asset = "0x00000000000000000000000000000000000000e1";
+
+    it("lets the provider, the owner and governance decrypt a submission, and nobody else", async function () {
+      await submitAsset(1, asset, 1_200);
+      const handle = await contract.providerAssetAmounts(1, asset, signers.provider.address);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, contractAddress, signers.provider)).to.equal(1_200n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, contractAddress, signers.owner)).to.equal(1_200n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, contractAddress, signers.governance)).to.equal(1_200n);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint128, handle, contractAddress, signers.outsider)).to.be.rejected;
+    });
+
+    it("lets governance decrypt the zero total of a side nobody submitted to", async function () {
+      await submitAsset(1, asset, 1_200);
+      const hedgeTotal = await contract.encryptedHedgeAmounts(1, asset);
+
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, hedgeTotal, contractAddress, signers.governance)).to.equal(0n);
+      await expect(fhevm.userDecryptEuint(FhevmType.euint128, hedgeTotal, contractAddress, signers.outsider)).to.be.rejected;
+    });
+
+    it("rejects an amount encrypted for another sender", async function () {
+      const amount = await encryptAmount(hre, contractAddress, signers.outsider.address, 1_200);
+
+      await expect(asProvider().submitEncryptedAssetAmount.staticCall(1, asset, amount.handle, amount.inputProof)).to.be.reverted;
+      expect(await contract.getBatchAssets(1)).to.deep.equal([]);
+    });
+
+    it("totals each provider's latest submission per asset with FHE add", async function () {
+      const [, , , , second] = await ethers.getSigners();
+      await contract.addProvider(second.address);
+      const secondAmount = await encryptAmount(hre, contractAddress, second.address, 50);
+      await submitAsset(1, asset, 100);
+      await (contract.connect(second) as Contract).submitEncryptedAssetAmount(1, asset, secondAmount.handle, secondAmount.inputProof);
+      // Replaces the provider's 100 instead of adding to it
+      await submitAsset(1, asset, 120);
+      await submitHedge(1, asset, 30);
+
+      const total = await contract.encryptedAssetAmounts(1, asset);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, total, contractAddress, signers.governance)).to.equal(170n);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, await contract.encryptedHedgeAmounts(1, asset), contractAddress, signers.governance)).to.equal(30n);
+      // A total is not a submission of any single provider
+      await expect(fhevm.userDecryptEuint(FhevmType.euint128, total, contractAddress, signers.provider)).to.be.rejected;
+    });
+
+    it("returns the per-asset totals and hedge checks of a closed batch as its aggregates", async function () {
+      const other = "0x00000000000000000000000000000000000000b1";
+      await submitAsset(1, asset, 1_200);
+      await submitHedge(1, asset, 900);
+      await submitHedge(1, other, 10);
+      await contract.closeCurrentBatch();
+
+      const [assets, assetTotals, hedgeTotals, underHedged] = await contract.getBatchAggregates(1);
+      expect(assets).to.deep.equal([asset, other]);
+      expect(underHedged).to.deep.equal([await contract.encryptedUnderHedged(1, asset), await contract.encryptedUnderHedged(1, other)]);
+      const decrypted: bigint[] = [];
+      for (const handle of [...assetTotals, ...hedgeTotals]) {
+        decrypted.push(await fhevm.userDecryptEuint(FhevmType.euint128, handle, contractAddress, signers.governance));
+      }
+      expect(decrypted).to.deep.equal([1_200n, 0n, 900n, 10n]);
+      // 10 / 0 is not below a target, since 10 * 10000 < 0 * 5000 does not hold
+      expect(await fhevm.userDecryptEbool(underHedged[1], contractAddress, signers.governance)).to.equal(false);
+    });
+
+    it("closes a batch into per-asset hedge checks governance can decrypt", async function () {
+      const other = "0x00000000000000000000000000000000000000b1";
+      await submitAsset(1, asset, 1_200);
+      await submitHedge(1, asset, 900);
+      await submitAsset(1, other, 45);
+
+      await expect(contract.closeCurrentBatch()).to.emit(contract, "HedgeChecksComputed").withArgs(1);
+
+      // 900 / 1200 = 75% is above the default 50% target; 0 / 45 is below it
+      const [hedged, unhedged] = [await contract.encryptedUnderHedged(1, asset), await contract.encryptedUnderHedged(1, other)];
+      expect(await fhevm.userDecryptEbool(hedged, contractAddress, signers.governance)).to.equal(false);
+      expect(await fhevm.userDecryptEbool(unhedged, contractAddress, signers.governance)).to.equal(true);
+      await expect(fhevm.userDecryptEbool(hedged, contractAddress, signers.owner)).to.be.rejected;
+    });
+
+    it("refuses to close a batch that is already closed", async function () {
+      await submitAsset(1, asset, 1_200);
+      await contract.closeCurrentBatch();
+      const underHedged = await contract.encryptedUnderHedged(1, asset);
+
+      await expect(contract.closeCurrentBatch()).to.be.revertedWithCustomError(contract, "BatchAlreadyClosed");
+      expect(await contract.encryptedUnderHedged(1, asset)).to.equal(underHedged);
+    });
+
+    it("round-trips 18-decimal balances exactly and checks their hedge ratio without overflow", async function () {
+      const other = "0x00000000000000000000000000000000000000b1";
+      // 3.4 million ETH to the wei is far beyond uint64; the other asset holds the largest accepted amount
+      const amount = parseAmount("3402823.669209384634633746", 18);
+      const hedge = parseAmount("1701411.834604692317316872", 18);
+      expect(await contract.MAX_SUBMITTED_AMOUNT()).to.equal(MAX_ENCRYPTED_AMOUNT);
+      await submitAsset(1, asset, amount);
+      await submitHedge(1, asset, hedge);
+      await submitAsset(1, other, MAX_ENCRYPTED_AMOUNT);
+      await submitHedge(1, other, MAX_ENCRYPTED_AMOUNT / 2n + 1n);
+
+      const handle = await contract.encryptedAssetAmounts(1, asset);
+      expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, contractAddress, signers.governance)).to.equal(amount);
+
+      await contract.closeCurrentBatch();
+      // hedge is one wei short of 50%; the other hedge is just over it
+      expect(await fhevm.userDecryptEbool(await contract.encryptedUnderHedged(1, asset), contractAddress, signers.governance)).to.equal(true);
+      expect(await fhevm.userDecryptEbool(await contract.encryptedUnderHedged(1, other), contractAddress, signers.governance)).to.equal(false);
+    });
+
+    it("refuses to encrypt amounts the hedge check could overflow on", async function () {
+      await expect(encryptAmount(hre, contractAddress, signers.provider.address, MAX_ENCRYPTED_AMOUNT + 1n)).to.be.rejectedWith("exceeds");
+    });
+  });
+});
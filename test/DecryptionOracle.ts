@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import { Contract, EventLog } from "ethers";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { DecryptionOracleSimulator, OracleSimulatorOptions } from "../tasks/decryption-oracle";
+import { encryptAmount } from "../tasks/encrypted-input";
+
+// Asset and hedge amounts of the decrypted batch, in submission order
+const BATCH = [
+  { asset: "0x00000000000000000000000000000000000000e1", amount: 1_200, hedge: 900 },
+  { asset: "0x00000000000000000000000000000000000000b1", amount: 45, hedge: 0 },
+];
+
+describe("Decryption oracle simulator", function () {
+  let treasury: Contract;
+  let requestBlock: number;
+
+  const oracle = (options: OracleSimulatorOptions = {}) =>
+    new DecryptionOracleSimulator(hre, treasury, { fromBlock: requestBlock, ...options });
+
+  const completions = async () => (await treasury.queryFilter(treasury.filters.DecryptionCompleted())) as EventLog[];
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in the FHEVM mock environment");
+      this.skip();
+    }
+
+    const [, provider] = await ethers.getSigners();
+    treasury = (await (await ethers.getContractFactory("DAO_Treasury_Hedge_FHE")).deploy()) as unknown as Contract;
+    const treasuryAddress = await treasury.getAddress();
+    await treasury.addProvider(provider.address);
+    await treasury.setCooldownSeconds(0);
+
+    const asProvider = treasury.connect(provider) as Contract;
+    for (const entry of BATCH) {
+      const amount = await encryptAmount(hre, treasuryAddress, provider.address, entry.amount);
+      await asProvider.submitEncryptedAssetAmount(1, entry.asset, amount.handle, amount.inputProof);
+      const hedge = await encryptAmount(hre, treasuryAddress, provider.address, entry.hedge);
+      await asProvider.submitEncryptedHedgeAmount(1, entry.asset, hedge.handle, hedge.inputProof);
+    }
+    await treasury.closeCurrentBatch();
+    const tx = await treasury.requestBatchDecryption(1);
+    requestBlock = (await tx.wait())!.blockNumber;
+  });
+
+  it("answers a request with the batch cleartexts and valid signatures", async function () {
+    const deliveries = await oracle().processPending();
+
+    expect(deliveries).to.have.length(1);
+    expect(deliveries[0]).to.include({ requestId: 0n, batchId: 1n, attempt: 0 });
+    expect(deliveries[0].revertReason).to.equal(undefined);
+    const [completed] = await completions();
+    expect(completed.args.batchId).to.equal(1n);
+    expect(completed.args.assetAmounts).to.deep.equal(BATCH.map((entry) => BigInt(entry.amount)));
+    expect(completed.args.hedgeAmounts).to.deep.equal(BATCH.map((entry) => BigInt(entry.hedge)));
+    expect((await treasury.decryptionContexts(0)).processed).to.equal(true);
+  });
+
+  it("decrypts a batch holding an amount-only and a hedge-only asset as zero for the missing side", async function () {
+    const [, provider] = await ethers.getSigners();
+    const treasuryAddress = await treasury.getAddress();
+    const asProvider = treasury.connect(provider) as Contract;
+    const [amountOnly, hedgeOnly] = BATCH.map((entry) => entry.asset);
+    await treasury.openNewBatch();
+    const amount = await encryptAmount(hre, treasuryAddress, provider.address, 700);
+    await asProvider.submitEncryptedAssetAmount(2, amountOnly, amount.handle, amount.inputProof);
+    const hedge = await encryptAmount(hre, treasuryAddress, provider.address, 300);
+    await asProvider.submitEncryptedHedgeAmount(2, hedgeOnly, hedge.handle, hedge.inputProof);
+    await treasury.closeCurrentBatch();
+
+    const tx = await treasury.requestBatchDecryption(2);
+    const [delivery] = await oracle({ fromBlock: (await tx.wait())!.blockNumber }).processPending();
+
+    expect(delivery).to.include({ batchId: 2n, attempt: 0 });
+    expect(delivery.revertReason).to.equal(undefined);
+    const [completed] = await completions();
+    expect(completed.args.assetAmounts).to.deep.equal([700n, 0n]);
+    expect(completed.args.hedgeAmounts).to.deep.equal([0n, 300n]);
+  });
+
+  it("answers each request once per run and picks up later ones", async function () {
+    const simulator = oracle();
+    await simulator.processPending();
+    expect(await simulator.processPending()).to.deep.equal([]);
+
+    await expect(treasury.requestBatchDecryption(1)).to.emit(treasury, "DecryptionRequested");
+
+    const [later] = await simulator.processPending();
+    expect(later).to.include({ requestId: 1n, batchId: 1n });
+    expect(later.revertReason).to.equal(undefined);
+    expect(await completions()).to.have.length(2);
+  });
+
+  it("hits the replay guard with duplicate deliveries", async function () {
+    const deliveries = await oracle({ duplicates: 2 }).processPending();
+
+    expect(deliveries.map((delivery) => delivery.revertReason)).to.deep.equal([undefined, "ReplayAttempt", "ReplayAttempt"]);
+    expect(await completions()).to.have.length(1);
+  });
+
+  it("hits the state check when the answer is sent under an unknown request id", async function () {
+    const [delivery] = await oracle({ failure: "wrong-request" }).processPending();
+
+    expect(delivery.revertReason).to.equal("StateMismatch");
+    expect((await treasury.decryptionContexts(0)).processed).to.equal(false);
+
+    // The request is still open for a well-behaved oracle
+    await oracle().processPending();
+    expect(await completions()).to.have.length(1);
+  });
+
+  it("rejects tampered cleartexts and leaves dropped requests pending", async function () {
+    const [tampered] = await oracle({ failure: "tamper" }).processPending();
+    expect(tampered.revertReason).to.match(/KMSInvalidSigner/);
+
+    expect(await oracle({ failure: "drop" }).processPending()).to.deep.equal([]);
+    expect(await completions()).to.have.length(0);
+    expect((await treasury.decryptionContexts(0)).processed).to.equal(false);
+  });
+
+  it("holds answers back for the configured delay", async function () {
+    const pending = oracle({ delayMs: 300 }).processPending();
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(await completions()).to.have.length(0);
+
+    await pending;
+    expect(await completions()).to.have.length(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Contract, EventLog } from "ethers";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { encryptAmount } from "../tasks/encrypted-input";
+
+describe("EncryptedAmountVault", function () {
+  let member: HardhatEthersSigner;
+  let outsider: HardhatEthersSigner;
+  let vault: Contract;
+  let vaultAddress: string;
+
+  const key = ethers.id("asset_demo-eth");
+
+  const store = async (signer: HardhatEthersSigner, value: number | bigint) => {
+    const amount = await encryptAmount(hre, vaultAddress, signer.address, value);
+    return (vault.connect(signer) as Contract).store(key, amount.handle, amount.inputProof);
+  };
+
+  before(async function () {
+    [, member, outsider] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in the FHEVM mock environment");
+      this.skip();
+    }
+
+    vault = (await (await ethers.getContractFactory("EncryptedAmountVault")).deploy()) as unknown as Contract;
+    vaultAddress = await vault.getAddress();
+  });
+
+  it("grants a stored amount to the member who stored it and nobody else", async function () {
+    await expect(store(member, 1_200n)).to.emit(vault, "AmountStored");
+
+    const handle = await vault.amountOf(member.address, key);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, vaultAddress, member)).to.equal(1_200n);
+    await expect(fhevm.userDecryptEuint(FhevmType.euint128, handle, vaultAddress, outsider)).to.be.rejected;
+  });
+
+  it("emits the stored handle that amountOf returns", async function () {
+    const receipt = await (await store(member, 45n)).wait();
+    const [stored] = (await vault.queryFilter(vault.filters.AmountStored(), receipt.blockNumber)) as EventLog[];
+
+    expect(stored.args.owner).to.equal(member.address);
+    expect(stored.args.key).to.equal(key);
+    expect(stored.args.amount).to.equal(await vault.amountOf(member.address, key));
+  });
+
+  it("keeps amounts under the same key apart per member", async function () {
+    await store(member, 1_200n);
+    await store(outsider, 7n);
+
+    const memberHandle = await vault.amountOf(member.address, key);
+    const outsiderHandle = await vault.amountOf(outsider.address, key);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint128, memberHandle, vaultAddress, member)).to.equal(1_200n);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint128, outsiderHandle, vaultAddress, outsider)).to.equal(7n);
+  });
+
+  it("rejects an amount encrypted for another user", async function () {
+    const amount = await encryptAmount(hre, vaultAddress, member.address, 1_200n);
+
+    await expect((vault.connect(outsider) as Contract).store.staticCall(key, amount.handle, amount.inputProof)).to.be.rejected;
+  });
+});
@@ -0,0 +1,120 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import adapterAbiJson from "../frontend/web/src/abi/UniversalAdapter.json";
+import { EventIndexer, EventIndexerOptions, MemoryIndexerStore } from "../frontend/web/src/event-indexer";
+
+const ADAPTER = "0x00000000000000000000000000000000000000a1";
+const SENDER = "0x000000000000000000000000000000000000dEaD";
+
+const adapterInterface = new ethers.Interface(adapterAbiJson.abi);
+
+// In-memory chain behind a stubbed provider: one DataStored log per written key, block hashes that a reorg can swap
+class StubChain {
+  head = 0;
+  readonly logRanges: [number, number][] = [];
+  private readonly hashes = new Map<number, string>();
+  private logs: ethers.Log[] = [];
+
+  mine(to: number, fork = "main") {
+    for (let n = this.head + 1; n <= to; n++) this.hashes.set(n, ethers.id(`${fork}:${n}`));
+    this.head = Math.max(this.head, to);
+  }
+
+  store(blockNumber: number, key: string, value = "0x01") {
+    const { data, topics } = adapterInterface.encodeEventLog("DataStored", [SENDER, key, value]);
+    this.logs.push({
+      address: ADAPTER,
+      blockNumber,
+      blockHash: this.hashes.get(blockNumber)!,
+      transactionHash: ethers.id(`${this.hashes.get(blockNumber)}:${key}`),
+      index: 0,
+      data,
+      topics,
+    } as unknown as ethers.Log);
+  }
+
+  // Replaces every block from `from` on with a sibling fork and drops their logs
+  reorg(from: number, fork: string) {
+    const head = this.head;
+    this.logs = this.logs.filter((log) => log.blockNumber < from);
+    this.head = from - 1;
+    this.mine(head, fork);
+  }
+
+  provider(): ethers.Provider {
+    return {
+      getBlockNumber: async () => this.head,
+      getBlock: async (n: number) => (n <= this.head ? { number: n, hash: this.hashes.get(n) } : null),
+      getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) => {
+        this.logRanges.push([fromBlock, toBlock]);
+        return this.logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock);
+      },
+    } as unknown as ethers.Provider;
+  }
+}
+
+describe("Event indexer", function () {
+  let chain: StubChain;
+  let store: MemoryIndexerStore;
+
+  const indexer = (options: Partial<EventIndexerOptions> = {}) =>
+    new EventIndexer({ provider: chain.provider(), adapterAddress: ADAPTER, store, startBlock: 1, chunkSize: 5, ...options });
+
+  const storedKeys = async () => (await store.getEvents()).map((event) => `${event.blockNumber}:${event.args.key}`);
+
+  beforeEach(function () {
+    chain = new StubChain();
+    store = new MemoryIndexerStore();
+  });
+
+  it("reads logs in chunks up to the confirmed head and checkpoints each chunk", async function () {
+    chain.mine(14);
+    chain.store(3, "asset_a");
+    chain.store(12, "asset_b");
+    chain.store(14, "asset_c");
+    const progress: number[] = [];
+
+    const state = await indexer({ confirmations: 2, onProgress: (lastBlock) => progress.push(lastBlock) }).sync();
+
+    expect(chain.logRanges).to.deep.equal([[1, 5], [6, 10], [11, 12]]);
+    expect(progress).to.deep.equal([5, 10, 12]);
+    expect(state.lastBlock).to.equal(12);
+    expect(state.recentBlocks.map((block) => block.number)).to.deep.equal([5, 10, 12]);
+    expect(await storedKeys()).to.deep.equal(["3:asset_a", "12:asset_b"]);
+    expect((await store.getEvents())[0]).to.include({ source: "adapter", name: "DataStored" });
+  });
+
+  it("resumes after the stored checkpoint without reading or storing blocks twice", async function () {
+    chain.mine(10);
+    chain.store(4, "asset_a");
+    await indexer().sync();
+
+    chain.mine(13);
+    chain.store(12, "asset_b");
+    chain.logRanges.length = 0;
+    const state = await indexer().sync();
+
+    expect(chain.logRanges).to.deep.equal([[11, 13]]);
+    expect(state.lastBlock).to.equal(13);
+    expect(await storedKeys()).to.deep.equal(["4:asset_a", "12:asset_b"]);
+  });
+
+  it("rewinds to the last canonical checkpoint when a checkpointed block is reorged out", async function () {
+    chain.mine(20);
+    chain.store(14, "asset_kept");
+    chain.store(18, "asset_orphaned");
+    await indexer().sync();
+
+    chain.reorg(17, "fork");
+    chain.store(19, "asset_replacement");
+    chain.logRanges.length = 0;
+    const state = await indexer().sync();
+
+    // Block 20 was checkpointed on the old fork, block 15 is still canonical
+    expect(chain.logRanges).to.deep.equal([[16, 20]]);
+    expect(state.recentBlocks.map((block) => block.number)).to.deep.equal([5, 10, 15, 20]);
+    expect(state.recentBlocks[3].hash).to.equal(ethers.id("fork:20"));
+    expect(await storedKeys()).to.deep.equal(["14:asset_kept", "19:asset_replacement"]);
+  });
+});
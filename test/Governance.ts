@@ -0,0 +1,201 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { mine, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract, EventLog } from "ethers";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { encryptAmount } from "../tasks/encrypted-input";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  voter: HardhatEthersSigner;
+  newOwner: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+};
+
+const ASSET = "0x00000000000000000000000000000000000000e1";
+const MIN_DELAY = 3600;
+const VOTING_DELAY = 1;
+const VOTING_PERIOD = 10;
+
+enum Vote {
+  Against = 0,
+  For = 1,
+}
+
+enum ProposalState {
+  Defeated = 3,
+  Succeeded = 4,
+  Queued = 5,
+  Executed = 7,
+}
+
+async function deployGovernance(deployer: HardhatEthersSigner, voter: HardhatEthersSigner) {
+  const token = (await (await ethers.getContractFactory("TreasuryVotesToken")).deploy(
+    voter.address,
+    ethers.parseEther("1000"),
+  )) as unknown as Contract;
+  const timelock = (await (await ethers.getContractFactory("TimelockController")).deploy(
+    MIN_DELAY,
+    [],
+    [],
+    deployer.address,
+  )) as unknown as Contract;
+  const governor = (await (await ethers.getContractFactory("TreasuryGovernor")).deploy(
+    await token.getAddress(),
+    await timelock.getAddress(),
+    VOTING_DELAY,
+    VOTING_PERIOD,
+    4,
+  )) as unknown as Contract;
+
+  const governorAddress = await governor.getAddress();
+  await timelock.grantRole(await timelock.PROPOSER_ROLE(), governorAddress);
+  await timelock.grantRole(await timelock.CANCELLER_ROLE(), governorAddress);
+  await timelock.grantRole(await timelock.EXECUTOR_ROLE(), ethers.ZeroAddress);
+  await timelock.renounceRole(await timelock.DEFAULT_ADMIN_ROLE(), deployer.address);
+  await (token.connect(voter) as Contract).delegate(voter.address);
+
+  return { token, timelock, governor };
+}
+
+describe("Treasury governance", function () {
+  let signers: Signers;
+  let treasury: Contract;
+  let timelock: Contract;
+  let governor: Contract;
+
+  const proposal = (method: string, args: unknown[], description: string) => ({
+    targets: [treasury.target],
+    values: [0],
+    calldatas: [treasury.interface.encodeFunctionData(method, args)],
+    descriptionHash: ethers.id(description),
+    description,
+  });
+
+  const proposeAndVote = async (p: ReturnType<typeof proposal>, support: Vote) => {
+    const asVoter = governor.connect(signers.voter) as Contract;
+    await asVoter.propose(p.targets, p.values, p.calldatas, p.description);
+    const proposalId = await governor.hashProposal(p.targets, p.values, p.calldatas, p.descriptionHash);
+    await mine(VOTING_DELAY + 1);
+    await asVoter.castVote(proposalId, support);
+    await mine(VOTING_PERIOD);
+    return proposalId;
+  };
+
+  const queueAndExecute = async (p: ReturnType<typeof proposal>) => {
+    await governor.queue(p.targets, p.values, p.calldatas, p.descriptionHash);
+    await time.increase(MIN_DELAY + 1);
+    await governor.execute(p.targets, p.values, p.calldatas, p.descriptionHash);
+  };
+
+  before(async function () {
+    const [deployer, voter, newOwner, outsider] = await ethers.getSigners();
+    signers = { deployer, voter, newOwner, outsider };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in the FHEVM mock environment");
+      this.skip();
+    }
+
+    treasury = (await (await ethers.getContractFactory("DAO_Treasury_Hedge_FHE")).deploy()) as unknown as Contract;
+    ({ timelock, governor } = await deployGovernance(signers.deployer, signers.voter));
+  });
+
+  it("starts with the deployer as governance", async function () {
+    expect(await treasury.governance()).to.equal(signers.deployer.address);
+    // Hardhat cannot attribute the optimized onlyGovernance revert to a source location,
+    // so the fhevm provider wrapper rejects the transaction; simulate it instead
+    await expect(
+      (treasury.connect(signers.outsider) as Contract).setGovernance.staticCall(signers.outsider.address),
+    ).to.be.revertedWithCustomError(treasury, "NotGovernance");
+  });
+
+  describe("with the timelock as governance", function () {
+    beforeEach(async function () {
+      await treasury.setGovernance(await timelock.getAddress());
+    });
+
+    it("blocks the owner from decryption requests and ownership changes", async function () {
+      await treasury.closeCurrentBatch();
+
+      await expect(treasury.requestBatchDecryption.staticCall(1)).to.be.revertedWithCustomError(treasury, "NotGovernance");
+      await expect(treasury.transferOwnership.staticCall(signers.newOwner.address)).to.be.revertedWithCustomError(
+        treasury,
+        "NotGovernance",
+      );
+      await expect(treasury.setGovernance.staticCall(signers.deployer.address)).to.be.revertedWithCustomError(
+        treasury,
+        "NotGovernance",
+      );
+    });
+
+    it("requests decryption through a proposal while the owner has paused the treasury", async function () {
+      const provider = signers.outsider;
+      await treasury.addProvider(provider.address);
+      const amount = await encryptAmount(hre, await treasury.getAddress(), provider.address, 1_200);
+      await (treasury.connect(provider) as Contract).submitEncryptedAssetAmount(1, ASSET, amount.handle, amount.inputProof);
+      await treasury.closeCurrentBatch();
+      await treasury.setPaused(true);
+
+      const p = proposal("requestBatchDecryption", [1], "Reveal batch 1 despite the pause");
+      await proposeAndVote(p, Vote.For);
+      await queueAndExecute(p);
+
+      const [requested] = (await treasury.queryFilter(treasury.filters.DecryptionRequested())) as EventLog[];
+      expect(requested.args.batchId).to.equal(1n);
+    });
+
+    it("keeps day-to-day batch management with the owner", async function () {
+      await treasury.closeCurrentBatch();
+      await treasury.openNewBatch();
+      expect(await treasury.currentBatchId()).to.equal(2n);
+    });
+
+    it("transfers ownership once a proposal passes and clears the timelock", async function () {
+      const p = proposal("transferOwnership", [signers.newOwner.address], "Hand the treasury to the new multisig");
+      const proposalId = await proposeAndVote(p, Vote.For);
+      expect(await governor.state(proposalId)).to.equal(ProposalState.Succeeded);
+
+      await queueAndExecute(p);
+
+      expect(await governor.state(proposalId)).to.equal(ProposalState.Executed);
+      expect(await treasury.owner()).to.equal(signers.newOwner.address);
+    });
+
+    it("does not queue a defeated proposal", async function () {
+      const p = proposal("transferOwnership", [signers.outsider.address], "Give the treasury away");
+      const proposalId = await proposeAndVote(p, Vote.Against);
+
+      expect(await governor.state(proposalId)).to.equal(ProposalState.Defeated);
+      await expect(governor.queue(p.targets, p.values, p.calldatas, p.descriptionHash)).to.be.revertedWithCustomError(
+        governor,
+        "GovernorUnexpectedProposalState",
+      );
+      expect(await treasury.owner()).to.equal(signers.deployer.address);
+    });
+
+    it("enforces the timelock delay before execution", async function () {
+      const p = proposal("transferOwnership", [signers.newOwner.address], "Transfer without waiting");
+      const proposalId = await proposeAndVote(p, Vote.For);
+      await governor.queue(p.targets, p.values, p.calldatas, p.descriptionHash);
+      expect(await governor.state(proposalId)).to.equal(ProposalState.Queued);
+
+      await expect(governor.execute(p.targets, p.values, p.calldatas, p.descriptionHash)).to.be.revertedWithCustomError(
+        timelock,
+        "TimelockUnexpectedOperationState",
+      );
+      expect(await treasury.owner()).to.equal(signers.deployer.address);
+    });
+
+    it("rotates governance through a proposal", async function () {
+      const p = proposal("setGovernance", [signers.newOwner.address], "Move governance to the new timelock");
+      await proposeAndVote(p, Vote.For);
+      await queueAndExecute(p);
+
+      expect(await treasury.governance()).to.equal(signers.newOwner.address);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Contract, EventLog } from "ethers";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { MAX_ENCRYPTED_AMOUNT } from "../frontend/web/src/amounts";
+import { HedgeTargets, buildHedgePlan, requiredHedgeAmount } from "../frontend/web/src/strategy";
+import { DecryptionOracleSimulator } from "../tasks/decryption-oracle";
+import { encryptAmount } from "../tasks/encrypted-input";
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+  provider: HardhatEthersSigner;
+};
+
+describe("Hedge strategy", function () {
+  let signers: Signers;
+  let contract: Contract;
+
+  const [eth, usdc, wbtc] = Array.from({ length: 3 }, () => ethers.Wallet.createRandom().address);
+
+  const readTargets = async (): Promise<HedgeTargets> => {
+    const perAsset: Record<string, number> = {};
+    for (const asset of await contract.getTargetAssets()) {
+      if (await contract.hasAssetTarget(asset)) perAsset[asset.toLowerCase()] = Number(await contract.assetTargetHedgeRatioBps(asset));
+    }
+    return { defaultBps: Number(await contract.targetHedgeRatioBps()), perAsset };
+  };
+
+  before(async function () {
+    const [owner, outsider, provider] = await ethers.getSigners();
+    signers = { owner, outsider, provider };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in the FHEVM mock environment");
+      this.skip();
+    }
+
+    contract = (await (await ethers.getContractFactory("DAO_Treasury_Hedge_FHE")).deploy()) as unknown as Contract;
+  });
+
+  describe("per-asset targets", function () {
+    it("falls back to the default ratio for assets without a target", async function () {
+      await contract.setAssetTargetHedgeRatioBps(eth, 8_000);
+
+      expect(await contract.targetHedgeRatioFor(eth)).to.equal(8_000n);
+      expect(await contract.targetHedgeRatioFor(usdc)).to.equal(5_000n);
+    });
+
+    it("emits the previous effective ratio and lists each asset once", async function () {
+      await expect(contract.setAssetTargetHedgeRatioBps(eth, 8_000))
+        .to.emit(contract, "AssetTargetHedgeRatioChanged")
+        .withArgs(eth, 5_000, 8_000);
+      await contract.setAssetTargetHedgeRatioBps(eth, 7_000);
+      await contract.setAssetTargetHedgeRatioBps(usdc, 0);
+
+      expect(await contract.getTargetAssets()).to.deep.equal([eth, usdc]);
+      expect(await contract.targetHedgeRatioFor(usdc)).to.equal(0n);
+    });
+
+    it("resets a cleared asset to the default ratio", async function () {
+      await contract.setAssetTargetHedgeRatioBps(eth, 8_000);
+      await expect(contract.clearAssetTargetHedgeRatio(eth)).to.emit(contract, "AssetTargetHedgeRatioCleared").withArgs(eth);
+
+      expect(await contract.hasAssetTarget(eth)).to.equal(false);
+      expect(await contract.targetHedgeRatioFor(eth)).to.equal(5_000n);
+    });
+
+    it("rejects ratios above 100% and non-owners", async function () {
+      await expect(contract.setAssetTargetHedgeRatioBps(eth, 10_001)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidHedgeRatio",
+      );
+      await expect(
+        (contract.connect(signers.outsider) as Contract).setAssetTargetHedgeRatioBps.staticCall(eth, 8_000),
+      ).to.be.revertedWithCustomError(contract, "NotOwner");
+    });
+  });
+
+  describe("plan", function () {
+    it("rounds the required hedge up so the batch is not flagged under-hedged", function () {
+      expect(requiredHedgeAmount(1_000n, 8_000)).to.equal(800n);
+      expect(requiredHedgeAmount(3n, 5_000)).to.equal(2n);
+      expect(requiredHedgeAmount(1_000n, 0)).to.equal(0n);
+      expect(() => requiredHedgeAmount(1_000n, 10_001)).to.throw("Invalid hedge ratio");
+    });
+
+    it("builds the hedge submissions needed to reach on-chain targets", async function () {
+      await contract.setAssetTargetHedgeRatioBps(eth, 8_000);
+      await contract.setAssetTargetHedgeRatioBps(usdc, 0);
+
+      const plan = buildHedgePlan(
+        1n,
+        [
+          { asset: eth, assetAmount: 1_000n, hedgeAmount: 500n },
+          { asset: usdc, assetAmount: 2_000n, hedgeAmount: 300n },
+          { asset: wbtc, assetAmount: 400n, hedgeAmount: 200n },
+        ],
+        await readTargets(),
+        60,
+      );
+
+      expect(plan.steps.map((s) => [s.targetBps, s.requiredHedge, s.delta, s.status])).to.deep.equal([
+        [8_000, 800n, 300n, "increase"],
+        [0, 0n, -300n, "reduce"],
+        [5_000, 200n, 0n, "on-target"],
+      ]);
+      // Submissions replace the stored hedge, so calls carry the full required amount
+      expect(plan.calls).to.deep.equal([
+        { batchId: 1n, asset: eth, amount: 800n },
+        { batchId: 1n, asset: usdc, amount: 0n },
+      ]);
+      expect(plan.estimatedSeconds).to.equal(60);
+    });
+
+    it("plans 18-decimal balances and refuses hedges beyond the encrypted amount range", function () {
+      const targets: HedgeTargets = { defaultBps: 10_000, perAsset: {} };
+      const wei = 12_345n * 10n ** 18n + 1n;
+      expect(buildHedgePlan(1n, [{ asset: eth, assetAmount: wei, hedgeAmount: 0n }], targets).calls[0].amount).to.equal(wei);
+      expect(() =>
+        buildHedgePlan(1n, [{ asset: eth, assetAmount: MAX_ENCRYPTED_AMOUNT + 1n, hedgeAmount: 0n }], targets),
+      ).to.throw("encrypted amount range");
+    });
+
+    it("submits a hedge-only plan into a batch that closes and decrypts", async function () {
+      await contract.addProvider(signers.provider.address);
+      await contract.setCooldownSeconds(0);
+      const contractAddress = await contract.getAddress();
+      const plan = buildHedgePlan(
+        1n,
+        [
+          { asset: eth, assetAmount: 1_000n, hedgeAmount: 0n },
+          { asset: usdc, assetAmount: 2_000n, hedgeAmount: 0n },
+        ],
+        await readTargets(),
+      );
+
+      // The plan only sends hedges; the asset amounts stay with whoever reports them
+      const asProvider = contract.connect(signers.provider) as Contract;
+      for (const call of plan.calls) {
+        const amount = await encryptAmount(hre, contractAddress, signers.provider.address, call.amount);
+        await asProvider.submitEncryptedHedgeAmount(call.batchId, call.asset, amount.handle, amount.inputProof);
+      }
+      await contract.closeCurrentBatch();
+      const receipt = await (await contract.requestBatchDecryption(1)).wait();
+      await new DecryptionOracleSimulator(hre, contract, { fromBlock: receipt.blockNumber }).processPending();
+
+      const [completed] = (await contract.queryFilter(contract.filters.DecryptionCompleted())) as EventLog[];
+      expect(completed.args.assetAmounts).to.deep.equal([0n, 0n]);
+      expect(completed.args.hedgeAmounts).to.deep.equal(plan.calls.map((call) => call.amount));
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import {
+  HEDGE_KEY_PREFIX,
+  HedgePosition,
+  hedgeCodec,
+  hedgeCoverage,
+  hedgePnl,
+  hedgeStatusFor,
+  hedgesFromRecords,
+  isOpenHedge,
+  ownedVaultAmounts,
+} from "../frontend/web/src/hedges";
+
+describe("Hedge positions", function () {
+  const base: HedgePosition = {
+    id: "h1",
+    assetId: "a1",
+    assetType: "ETH",
+    instrument: "perp",
+    notional: "0x01",
+    notionalProof: "0x",
+    decimals: 18,
+    entryPrice: 3000,
+    venue: "dYdX",
+    cost: 50,
+    openedAt: 1_700_000_000,
+    owner: ethers.ZeroAddress,
+  };
+
+  it("marks perps, swaps and options to price net of cost", function () {
+    expect(hedgePnl(base, 10, 2500)).to.equal(10 * 500 - 50);
+    expect(hedgePnl({ ...base, instrument: "stable-swap", cost: 0 }, 10, 3300)).to.equal(-3000);
+
+    const put = { ...base, instrument: "option" as const, optionType: "put" as const, entryPrice: 2800, cost: 200 };
+    expect(hedgePnl(put, 2, 2500)).to.equal(400);
+    expect(hedgePnl(put, 2, 3500)).to.equal(-200);
+    expect(hedgePnl({ ...put, optionType: "call" }, 2, 3000)).to.equal(200);
+  });
+
+  it("treats closed and expired positions as no longer hedging", function () {
+    expect(isOpenHedge(base, 1_800_000_000)).to.equal(true);
+    expect(isOpenHedge({ ...base, closedAt: 1_700_000_100 }, 1_800_000_000)).to.equal(false);
+    expect(isOpenHedge({ ...base, expiry: 1_750_000_000 }, 1_800_000_000)).to.equal(false);
+  });
+
+  it("derives coverage and status from decrypted notionals", function () {
+    const second = { ...base, id: "h2" };
+
+    expect(hedgeCoverage(undefined, [base], { h1: 5 })).to.equal(null);
+    expect(hedgeCoverage(10, [], {})).to.equal(0);
+    expect(hedgeCoverage(10, [base, second], { h1: 5 })).to.equal(null);
+    expect(hedgeCoverage(10, [base, second], { h1: 5, h2: 2 })).to.be.closeTo(0.7, 1e-12);
+    expect(hedgeCoverage(10, [base, second], { h1: 8, h2: 8 })).to.equal(1);
+
+    expect(hedgeStatusFor(0)).to.equal("unhedged");
+    expect(hedgeStatusFor(0.7)).to.equal("partial");
+    expect(hedgeStatusFor(1)).to.equal("full");
+  });
+
+  it("keeps only the vault amounts and notionals the account owns", function () {
+    const vault = "0x00000000000000000000000000000000000000f1";
+    const [alice, bob] = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address];
+    const inVault = (record: { vault?: string }) => record.vault === vault;
+    const assets = [
+      { id: "a1", owner: alice, vault },
+      { id: "a2", owner: bob, vault },
+      { id: "a3", owner: alice },
+    ];
+    const positions = [
+      { ...base, id: "h1", assetId: "a1", owner: alice, vault },
+      { ...base, id: "h2", assetId: "a1", owner: bob, vault },
+      { ...base, id: "h3", assetId: "a2", owner: bob, vault },
+      { ...base, id: "h4", assetId: "a1", owner: alice },
+    ];
+
+    // Owners are compared case-insensitively, as connected wallets report checksummed or lowercased addresses
+    const owned = ownedVaultAmounts(alice.toLowerCase(), assets, positions, inVault);
+    expect(owned.assets.map((asset) => asset.id)).to.deep.equal(["a1"]);
+    expect(owned.notionals.map((position) => position.id)).to.deep.equal(["h1"]);
+    expect(ownedVaultAmounts(bob, assets, positions, inVault).notionals.map((position) => position.id)).to.deep.equal(["h3"]);
+  });
+
+  it("parses indexed hedge records and skips the key list and malformed values", function () {
+    const encode = (value: unknown) => ethers.hexlify(ethers.toUtf8Bytes(JSON.stringify(value)));
+    const records = new Map<string, string>([
+      [`${HEDGE_KEY_PREFIX}h1`, encode({ schemaVersion: hedgeCodec.version, ...base })],
+      [`${HEDGE_KEY_PREFIX}keys`, encode(["h1"])],
+      [`${HEDGE_KEY_PREFIX}bad`, encode({ id: "bad", assetId: "a1", instrument: "future" })],
+      [`${HEDGE_KEY_PREFIX}deleted`, "0x"],
+    ]);
+
+    expect(hedgesFromRecords(records)).to.deep.equal([base]);
+  });
+});
@@ -0,0 +1,62 @@
+import { expect } from "chai";
+import { Contract, EventLog } from "ethers";
+import { ethers } from "hardhat";
+
+import { ASSET_KEYS, ASSET_RECORDS } from "../frontend/web/src/assets";
+import { HEDGE_RECORDS } from "../frontend/web/src/hedges";
+import { appendToKeyList, compareKeyIndex, recordIdsFromEvents, repairedKeyList } from "../frontend/web/src/key-index";
+import { decodeKeyList, encodeKeyList } from "../frontend/web/src/records";
+
+describe("Append-safe key index", function () {
+  let adapter: Contract;
+
+  const record = (id: string) => ethers.toUtf8Bytes(JSON.stringify({ id }));
+
+  const storedValues = async () =>
+    ((await adapter.queryFilter(adapter.filters.DataStored())) as EventLog[]).map((event) => ({
+      key: event.args.key as string,
+      value: event.args.value as string,
+    }));
+
+  beforeEach(async function () {
+    adapter = (await (await ethers.getContractFactory("MockUniversalAdapter")).deploy()) as unknown as Contract;
+  });
+
+  it("derives record ids from DataStored, skipping key lists, other prefixes and cleared records", async function () {
+    await adapter.setData("asset_a", record("a"));
+    await adapter.setData("hedge_h", record("h"));
+    await adapter.setData(ASSET_KEYS, encodeKeyList(["a"]));
+    await adapter.setData("asset_b", record("b"));
+    await adapter.setData("asset_a", record("a2"));
+    await adapter.setData("asset_b", "0x");
+
+    const events = await storedValues();
+    expect(recordIdsFromEvents(events, ASSET_RECORDS)).to.deep.equal(["a"]);
+    expect(recordIdsFromEvents(events, HEDGE_RECORDS)).to.deep.equal(["h"]);
+  });
+
+  it("finds the key a concurrent writer overwrote and repairs the list", async function () {
+    // Both members read the empty list before either appends
+    const seenByFirst = decodeKeyList(await adapter.getData(ASSET_KEYS));
+    const seenBySecond = decodeKeyList(await adapter.getData(ASSET_KEYS));
+    await adapter.setData("asset_first", record("first"));
+    await adapter.setData("asset_second", record("second"));
+    await adapter.setData(ASSET_KEYS, encodeKeyList([...seenByFirst, "first"]));
+    await adapter.setData(ASSET_KEYS, encodeKeyList([...seenBySecond, "second", "ghost"]));
+
+    const report = compareKeyIndex(recordIdsFromEvents(await storedValues(), ASSET_RECORDS), decodeKeyList(await adapter.getData(ASSET_KEYS)));
+
+    expect(report.orphaned).to.deep.equal(["first"]);
+    expect(report.dangling).to.deep.equal(["ghost"]);
+    expect(repairedKeyList(report)).to.deep.equal(["second", "first"]);
+  });
+
+  it("appends to the key list only when the id is missing", async function () {
+    await appendToKeyList(adapter, ASSET_RECORDS, "a");
+    await appendToKeyList(adapter, ASSET_RECORDS, "b");
+    await appendToKeyList(adapter, ASSET_RECORDS, "a");
+
+    expect(decodeKeyList(await adapter.getData(ASSET_KEYS))).to.deep.equal(["a", "b"]);
+    expect((await storedValues()).filter((v) => v.key === ASSET_KEYS)).to.have.length(2);
+  });
+});
@@ -0,0 +1,68 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+
+import { ASSET_KEYS, ASSET_RECORDS, assetCodec } from "../frontend/web/src/assets";
+import { batchGetData } from "../frontend/web/src/multicall";
+import { encodeKeyList, encodeRecord, loadCollection } from "../frontend/web/src/records";
+import { KeyValueStorage, SnapshotCache } from "../frontend/web/src/snapshot-cache";
+
+describe("Batched adapter reads", function () {
+  let adapter: Contract;
+  let multicallAddress: string;
+
+  const owner = "0x000000000000000000000000000000000000dEaD";
+  const asset = (assetType: string) => ({ encryptedAmount: "0x" + "22".repeat(32), assetType, decimals: 18, timestamp: 1, owner });
+
+  beforeEach(async function () {
+    adapter = (await (await ethers.getContractFactory("MockUniversalAdapter")).deploy()) as unknown as Contract;
+    const multicall = await (await ethers.getContractFactory("MockMulticall3")).deploy();
+    multicallAddress = await multicall.getAddress();
+    for (let i = 0; i < 5; i++) await adapter.setData(`k${i}`, ethers.toUtf8Bytes(`v${i}`));
+  });
+
+  it("reads every key through Multicall3 in chunks", async function () {
+    const keys = ["k0", "k1", "k2", "k3", "k4", "missing"];
+    const results = await batchGetData(adapter, keys, { multicallAddress, chunkSize: 2 });
+
+    expect([...results.keys()]).to.deep.equal(keys);
+    expect(results.get("k3")).to.deep.equal({ ok: true, value: ethers.hexlify(ethers.toUtf8Bytes("v3")) });
+    expect(results.get("missing")).to.deep.equal({ ok: true, value: "0x" });
+  });
+
+  it("falls back to direct reads when Multicall3 is not deployed", async function () {
+    const viaMulticall = await batchGetData(adapter, ["k0", "k4"], { multicallAddress });
+    const direct = await batchGetData(adapter, ["k0", "k4"], { multicallAddress: ethers.Wallet.createRandom().address });
+
+    expect(direct).to.deep.equal(viaMulticall);
+  });
+
+  it("loads a collection while skipping records that fail to decode", async function () {
+    await adapter.setData("asset_a", encodeRecord(assetCodec, asset("ETH")));
+    await adapter.setData("asset_b", ethers.toUtf8Bytes("{broken"));
+    await adapter.setData("asset_c", encodeRecord(assetCodec, asset("DAI")));
+    await adapter.setData(ASSET_KEYS, encodeKeyList(["a", "b", "c", "a", "gone"]));
+
+    const loaded = await loadCollection(adapter, ASSET_RECORDS, { multicallAddress });
+
+    expect(loaded.map(({ id, record }) => [id, record.assetType])).to.deep.equal([
+      ["a", "ETH"],
+      ["c", "DAI"],
+    ]);
+  });
+
+  it("keeps the last snapshot per version for stale-while-revalidate rendering", function () {
+    const entries = new Map<string, string>();
+    const storage: KeyValueStorage = {
+      getItem: (key) => entries.get(key) ?? null,
+      setItem: (key, value) => void entries.set(key, value),
+      removeItem: (key) => void entries.delete(key),
+    };
+
+    new SnapshotCache<string[]>(storage, "assets", 2).write(["a"], 100);
+
+    expect(new SnapshotCache<string[]>(storage, "assets", 2).read()).to.deep.equal({ savedAt: 100, value: ["a"] });
+    expect(new SnapshotCache<string[]>(storage, "assets", 3).read()).to.equal(null);
+    expect(new SnapshotCache<string[]>(undefined, "assets", 2).read()).to.equal(null);
+  });
+});
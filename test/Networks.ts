@@ -0,0 +1,79 @@
+import { expect } from "chai";
+
+import configJson from "../frontend/web/src/config.json";
+import {
+  NetworkRegistry,
+  UnknownNetworkError,
+  addEthereumChainParams,
+  applyRegistryOverlay,
+  describeMissingContracts,
+  findNetworkByChainId,
+  getNetwork,
+  networkOverlayFields,
+  switchWalletNetwork,
+} from "../frontend/web/src/networks";
+
+describe("Network registry", function () {
+  const registry = configJson as NetworkRegistry;
+
+  it("resolves the active network and rejects unknown keys", function () {
+    expect(getNetwork(registry)).to.equal(registry.networks[registry.activeNetwork]);
+    expect(getNetwork(registry, "hardhat").chainId).to.equal(31337);
+    expect(() => getNetwork(registry, "goerli")).to.throw(UnknownNetworkError, /goerli/);
+  });
+
+  it("gives every network a distinct chain id and relayer networks a gateway when deployed", function () {
+    const chainIds = Object.values(registry.networks).map(network => network.chainId);
+    expect(new Set(chainIds).size).to.equal(chainIds.length);
+
+    for (const [key, network] of Object.entries(registry.networks)) {
+      expect(network.rpcUrls, key).to.not.be.empty;
+      if (network.fhe.mode === "relayer" && network.contracts.adapter) expect(network.fhe.gateway, key).to.exist;
+    }
+    expect(findNetworkByChainId(registry, 11155111n)?.[0]).to.equal("sepolia");
+    expect(findNetworkByChainId(registry, 5)).to.equal(null);
+  });
+
+  it("names the contracts a network lacks before the app runs against it", function () {
+    const sepolia = getNetwork(registry, "sepolia");
+    const adapter = "0x00000000000000000000000000000000000000a1";
+    const deployed = { adapter, vault: "0x00000000000000000000000000000000000000a2", treasury: "0x00000000000000000000000000000000000000a3" };
+
+    expect(describeMissingContracts("sepolia", { ...sepolia, contracts: { adapter, vault: "", treasury: "" } })).to.match(
+      /Sepolia \("sepolia"\) has no vault, treasury address/,
+    );
+    // The governor is optional
+    expect(describeMissingContracts("sepolia", { ...sepolia, contracts: deployed })).to.equal(null);
+  });
+
+  it("layers a local overlay that holds only the fields a local deployment changed", function () {
+    const hardhat = getNetwork(registry, "hardhat");
+    const contracts = { adapter: "0x00000000000000000000000000000000000000a1", treasury: "0x00000000000000000000000000000000000000a2" };
+    const fields = networkOverlayFields(hardhat, { ...hardhat, contracts, indexerStartBlock: 7 });
+    expect(fields).to.deep.equal({ contracts, indexerStartBlock: 7 });
+
+    const merged = applyRegistryOverlay(registry, { activeNetwork: "hardhat", networks: { hardhat: fields } });
+    expect(getNetwork(merged)).to.deep.equal({ ...hardhat, contracts, indexerStartBlock: 7 });
+    expect(merged.networks.sepolia).to.equal(registry.networks.sepolia);
+    expect(registry.networks.hardhat).to.equal(hardhat);
+    expect(applyRegistryOverlay(registry)).to.deep.equal(registry);
+  });
+
+  it("adds the chain to the wallet when switching fails with 4902", async function () {
+    const calls: { method: string; params?: unknown[] }[] = [];
+    const wallet = {
+      async request(args: { method: string; params?: unknown[] }) {
+        calls.push(args);
+        if (args.method === "wallet_switchEthereumChain") throw Object.assign(new Error("Unrecognized chain"), { code: 4902 });
+        return null;
+      },
+    };
+    const sepolia = getNetwork(registry, "sepolia");
+
+    await switchWalletNetwork(wallet, sepolia);
+
+    expect(calls.map(call => call.method)).to.deep.equal(["wallet_switchEthereumChain", "wallet_addEthereumChain"]);
+    expect(calls[1].params).to.deep.equal([addEthereumChainParams(sepolia)]);
+    expect(addEthereumChainParams(sepolia)).to.include({ chainId: "0xaa36a7", chainName: "Sepolia" });
+  });
+});
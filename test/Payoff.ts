@@ -0,0 +1,57 @@
+import { expect } from "chai";
+import { ethers } from "ethers";
+
+import { HedgePosition } from "../frontend/web/src/hedges";
+import { compositionSeries, hedgePnlSeries, payoffCurve } from "../frontend/web/src/payoff";
+import { AssetPrice } from "../frontend/web/src/prices";
+import { PriceHistory } from "../frontend/web/src/risk";
+
+describe("Hedge payoff charts", function () {
+  const price = (symbol: string, usd: number): AssetPrice => ({ symbol, usd, updatedAt: 0, source: "Test" });
+  const prices = { ETH: price("ETH", 2000), USDC: price("USDC", 1) };
+  const exposures = [
+    { symbol: "ETH", amount: 10 },
+    { symbol: "USDC", amount: 5000 },
+  ];
+  const perp: HedgePosition = {
+    id: "h1",
+    assetId: "a1",
+    assetType: "ETH",
+    instrument: "perp",
+    notional: "0x01",
+    notionalProof: "0x",
+    decimals: 18,
+    entryPrice: 2000,
+    venue: "dYdX",
+    cost: 0,
+    openedAt: 0,
+    owner: ethers.ZeroAddress,
+  };
+  const history: PriceHistory = { dates: ["d0", "d1"], prices: { ETH: [1800, 2100], USDC: [1, 1] } };
+
+  it("flattens the payoff of the hedged notional", function () {
+    const [down, flat, up] = payoffCurve(exposures, [perp], { h1: 5 }, prices, [-0.5, 0, 0.5]);
+
+    expect(flat).to.deep.equal({ move: 0, unhedgedUsd: 25_000, hedgedUsd: 25_000 });
+    expect(down.unhedgedUsd).to.equal(12_500);
+    expect(down.hedgedUsd).to.equal(17_500);
+    expect(up.unhedgedUsd).to.equal(37_500);
+    expect(up.hedgedUsd).to.equal(32_500);
+  });
+
+  it("moves only the selected symbols and skips encrypted notionals", function () {
+    const [down] = payoffCurve(exposures, [perp], {}, prices, [-0.5], ["USDC"]);
+
+    expect(down).to.deep.equal({ move: -0.5, unhedgedUsd: 22_500, hedgedUsd: 22_500 });
+  });
+
+  it("replays holdings and hedge PnL over history, ending at current prices", function () {
+    const composition = compositionSeries(exposures, history, prices);
+    const pnl = hedgePnlSeries([perp], { h1: 5 }, history, prices);
+
+    expect(composition.labels).to.deep.equal(["d0", "d1", "Now"]);
+    expect(composition.bySymbol.ETH).to.deep.equal([18_000, 21_000, 20_000]);
+    expect(composition.bySymbol.USDC).to.deep.equal([5000, 5000, 5000]);
+    expect(pnl.values).to.deep.equal([1000, -500, 0]);
+  });
+});
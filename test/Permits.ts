@@ -0,0 +1,106 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { PERMIT_DURATION_DAYS, PermitCache, PermitIssuer, permitCovers, permitExpiresAt, signPermit } from "../frontend/web/src/permits";
+import { KeyValueStorage } from "../frontend/web/src/snapshot-cache";
+import { encryptAmount } from "../tasks/encrypted-input";
+
+describe("Decryption permits", function () {
+  const adapter = "0x00000000000000000000000000000000000000a1";
+  const treasury = "0x00000000000000000000000000000000000000a2";
+  const start = 1_700_000_000;
+
+  let entries: Map<string, string>;
+  let storage: KeyValueStorage;
+  let keypairs: number;
+
+  // The plugin's mock relayer builds the same keypairs and EIP-712 payloads as the browser SDK
+  const issuer: PermitIssuer = {
+    generateKeypair: () => {
+      keypairs++;
+      return fhevm.generateKeypair();
+    },
+    createEIP712: (publicKey, contractAddresses, startTimestamp, durationDays) =>
+      fhevm.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays),
+  };
+
+  beforeEach(function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in the FHEVM mock environment");
+      this.skip();
+    }
+    entries = new Map();
+    storage = {
+      getItem: (key) => entries.get(key) ?? null,
+      setItem: (key, value) => void entries.set(key, value),
+      removeItem: (key) => void entries.delete(key),
+    };
+    keypairs = 0;
+  });
+
+  it("signs the EIP-712 user-decryption request with the member's key", async function () {
+    const [member] = await ethers.getSigners();
+    const permit = await signPermit(issuer, member, [adapter, treasury], { now: start });
+
+    const eip712 = fhevm.createEIP712(permit.publicKey, permit.contractAddresses, start, PERMIT_DURATION_DAYS);
+    const types = { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification };
+    expect(ethers.verifyTypedData(eip712.domain, types, eip712.message, permit.signature)).to.equal(member.address);
+    expect(permitExpiresAt(permit)).to.equal(start + 86_400);
+    expect(permitCovers(permit, member.address.toLowerCase(), [treasury], start + 60)).to.equal(true);
+    expect(permitCovers(permit, member.address, ["0x00000000000000000000000000000000000000a3"], start + 60)).to.equal(false);
+  });
+
+  it("reuses a permit for its validity window and renews it shortly before expiry", async function () {
+    const [member] = await ethers.getSigners();
+    const cache = new PermitCache(storage, "permit:31337");
+
+    const first = await cache.getOrSign(issuer, member, [adapter], start);
+    expect(await cache.getOrSign(issuer, member, [adapter], start + 3_600)).to.deep.equal(first);
+    expect(keypairs).to.equal(1);
+
+    const renewed = await cache.getOrSign(issuer, member, [adapter], permitExpiresAt(first) - 60);
+    expect(renewed.publicKey).to.not.equal(first.publicKey);
+    expect(keypairs).to.equal(2);
+  });
+
+  it("widens the permit to a contract it did not cover and keeps one permit per member", async function () {
+    const [member, other] = await ethers.getSigners();
+    const cache = new PermitCache(storage, "permit:31337");
+
+    await cache.getOrSign(issuer, member, [adapter], start);
+    const widened = await cache.getOrSign(issuer, member, [treasury], start + 60);
+    expect(widened.contractAddresses).to.deep.equal([adapter, treasury]);
+    expect(await cache.getOrSign(issuer, member, [adapter], start + 120)).to.deep.equal(widened);
+
+    expect(cache.get(other.address, [adapter], start + 120)).to.equal(null);
+    cache.clear(member.address);
+    expect(cache.get(member.address, [adapter], start + 120)).to.equal(null);
+    expect(entries.size).to.equal(0);
+  });
+
+  it("decrypts a treasury submission with the cached permit", async function () {
+    const [owner, provider] = await ethers.getSigners();
+    const contract = (await (await ethers.getContractFactory("DAO_Treasury_Hedge_FHE")).deploy()) as unknown as Contract;
+    const contractAddress = await contract.getAddress();
+    await contract.addProvider(provider.address);
+    const amount = await encryptAmount(hre, contractAddress, provider.address, 1_200);
+    await (contract.connect(provider) as Contract).submitEncryptedAssetAmount(1, adapter, amount.handle, amount.inputProof);
+    const handle: string = await contract.encryptedAssetAmounts(1, adapter);
+
+    const permit = await new PermitCache(storage, "permit:31337").getOrSign(issuer, owner, [contractAddress]);
+    const decrypted = await fhevm.userDecrypt(
+      [{ handle, contractAddress }],
+      permit.privateKey,
+      permit.publicKey,
+      permit.signature.replace("0x", ""),
+      permit.contractAddresses,
+      permit.userAddress,
+      permit.startTimestamp,
+      permit.durationDays,
+    );
+    expect(BigInt(decrypted[handle] as bigint)).to.equal(1_200n);
+    expect(await fhevm.userDecryptEuint(FhevmType.euint128, handle, contractAddress, owner)).to.equal(1_200n);
+  });
+});
@@ -0,0 +1,98 @@
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+
+import configJson from "../frontend/web/src/config.json";
+import { NetworkRegistry } from "../frontend/web/src/networks";
+import {
+  ChainlinkPriceSource,
+  MockPriceSource,
+  StaticPriceSource,
+  isPriceStale,
+  valuePortfolio,
+} from "../frontend/web/src/prices";
+
+describe("Price sources", function () {
+  describe("Chainlink", function () {
+    let ethFeed: Contract;
+    let source: ChainlinkPriceSource;
+
+    beforeEach(async function () {
+      const factory = await ethers.getContractFactory("MockPriceFeed");
+      ethFeed = (await factory.deploy(8, "ETH / USD", 3_500_00000000n)) as unknown as Contract;
+      source = new ChainlinkPriceSource({ ETH: await ethFeed.getAddress() }, async () => ethers.provider);
+    });
+
+    it("scales the aggregator answer by its decimals", async function () {
+      const prices = await source.getPrices(["ETH", "BTC"]);
+
+      expect(prices.ETH.usd).to.equal(3500);
+      expect(prices.ETH.source).to.equal("Chainlink");
+      // No feed configured for BTC
+      expect(prices).to.not.have.property("BTC");
+    });
+
+    it("reports the round's update time so stale feeds can be flagged", async function () {
+      const updatedAt = (await time.latest()) - 7200;
+      await ethFeed.setAnswer(3_400_00000000n, updatedAt);
+
+      const { ETH } = await source.getPrices(["ETH"]);
+
+      expect(ETH.updatedAt).to.equal(updatedAt);
+      expect(isPriceStale(ETH, 3600, await time.latest())).to.equal(true);
+      expect(isPriceStale(ETH, 86_400, await time.latest())).to.equal(false);
+    });
+
+    it("skips non-positive answers", async function () {
+      await ethFeed.setAnswer(0, await time.latest());
+
+      expect(await source.getPrices(["ETH"])).to.deep.equal({});
+    });
+  });
+
+  it("prices public networks from live Chainlink feeds rather than the fixed snapshot", function () {
+    const { networks } = configJson as NetworkRegistry;
+
+    for (const key of ["sepolia", "mainnet"]) {
+      expect(networks[key].prices.source, key).to.equal("chainlink");
+      expect(networks[key].prices.chainlinkFeeds?.ETH, key).to.match(/^0x[0-9a-fA-F]{40}$/);
+    }
+  });
+
+  it("serves the static price file with its timestamp", async function () {
+    const source = new StaticPriceSource({ updatedAt: 1_700_000_000, prices: { USDC: 1 } });
+
+    expect(await source.getPrices(["USDC", "ETH"])).to.deep.equal({
+      USDC: { symbol: "USDC", usd: 1, updatedAt: 1_700_000_000, source: "Static price file" },
+    });
+  });
+
+  it("moves mock prices on demand", async function () {
+    const source = new MockPriceSource({ ETH: 2000, USDC: 1 });
+    source.shock(-0.4, ["ETH"]);
+
+    const prices = await source.getPrices(["ETH", "USDC"]);
+
+    expect(prices.ETH.usd).to.equal(1200);
+    expect(prices.USDC.usd).to.equal(1);
+  });
+
+  it("values holdings in USD and keeps unpriced assets out of the totals", async function () {
+    const prices = await new MockPriceSource({ ETH: 2000, USDC: 1 }).getPrices(["ETH", "USDC"]);
+
+    const valuation = valuePortfolio(
+      [
+        { symbol: "ETH", amount: 10, hedgedFraction: 0.5 },
+        { symbol: "USDC", amount: 5000, hedgedFraction: 0 },
+        { symbol: "Other", amount: 99, hedgedFraction: 1 },
+      ],
+      prices,
+    );
+
+    expect(valuation.totalUsd).to.equal(25_000);
+    expect(valuation.hedgedUsd).to.equal(10_000);
+    expect(valuation.bySymbol).to.deep.equal({ ETH: 20_000, USDC: 5000 });
+    expect(valuation.unpriced).to.deep.equal(["Other"]);
+  });
+});
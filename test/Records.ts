@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+
+import { ASSET_KEYS, ASSET_RECORDS, assetCodec } from "../frontend/web/src/assets";
+import { HedgePosition, hedgeCodec } from "../frontend/web/src/hedges";
+import {
+  RecordSchemaError,
+  decodeKeyList,
+  decodeRecord,
+  encodeRecord,
+  migrateCollection,
+} from "../frontend/web/src/records";
+
+describe("UniversalAdapter records", function () {
+  const json = (value: unknown) => ethers.toUtf8Bytes(JSON.stringify(value));
+  const owner = "0x000000000000000000000000000000000000dEaD";
+
+  // Written before schemaVersion, while hedges were still a status string
+  const legacyAsset = { amount: "0x" + "11".repeat(32), inputProof: "0x01", assetType: "ETH", timestamp: 1_700_000_000, owner, hedgeStatus: "partial" };
+
+  it("migrates unversioned asset records on read", function () {
+    expect(decodeRecord(assetCodec, json(legacyAsset))).to.deep.equal({
+      encryptedAmount: legacyAsset.amount,
+      inputProof: "0x01",
+      assetType: "ETH",
+      decimals: 0,
+      timestamp: 1_700_000_000,
+      owner,
+    });
+  });
+
+  it("round-trips current records with their schemaVersion", function () {
+    const position: HedgePosition = {
+      id: "h1",
+      assetId: "a1",
+      assetType: "ETH",
+      instrument: "option",
+      notional: "0x01",
+      notionalProof: "0x02",
+      decimals: 8,
+      entryPrice: 2500,
+      optionType: "put",
+      expiry: 1_800_000_000,
+      venue: "",
+      cost: 120,
+      openedAt: 1_700_000_000,
+      owner,
+    };
+    const encoded = encodeRecord(hedgeCodec, position);
+
+    expect(JSON.parse(ethers.toUtf8String(encoded)).schemaVersion).to.equal(2);
+    expect(decodeRecord(hedgeCodec, encoded)).to.deep.equal(position);
+  });
+
+  it("reads vault-held records, which carry no input proof", function () {
+    const vault = "0x00000000000000000000000000000000000000a1";
+    const asset = { encryptedAmount: "0x01", vault, assetType: "ETH", decimals: 18, timestamp: 1_700_000_000, owner };
+    const position: HedgePosition = {
+      id: "h1",
+      assetId: "a1",
+      assetType: "ETH",
+      instrument: "perp",
+      notional: "0x02",
+      vault,
+      decimals: 18,
+      entryPrice: 2500,
+      venue: "",
+      cost: 0,
+      openedAt: 1_700_000_000,
+      owner,
+    };
+
+    expect(decodeRecord(assetCodec, encodeRecord(assetCodec, asset))).to.deep.equal(asset);
+    expect(decodeRecord(hedgeCodec, encodeRecord(hedgeCodec, position))).to.deep.equal(position);
+  });
+
+  it("rejects malformed and newer records", function () {
+    expect(() => decodeRecord(assetCodec, json({ ...legacyAsset, timestamp: "yesterday" }))).to.throw(RecordSchemaError, "timestamp");
+    expect(() => decodeRecord(hedgeCodec, json({ schemaVersion: 1, id: "h1", instrument: "future" }))).to.throw(RecordSchemaError);
+    expect(() => decodeRecord(assetCodec, json({ ...legacyAsset, schemaVersion: 4 }))).to.throw(RecordSchemaError, "schemaVersion 4");
+    expect(() => decodeRecord(assetCodec, ethers.toUtf8Bytes("{not json"))).to.throw(RecordSchemaError, "not valid JSON");
+    expect(() => decodeKeyList(json({ keys: [] }))).to.throw(RecordSchemaError);
+    expect(decodeKeyList("0x")).to.deep.equal([]);
+  });
+
+  it("rewrites outdated records in place and reports invalid ones", async function () {
+    const adapter = (await (await ethers.getContractFactory("MockUniversalAdapter")).deploy()) as unknown as Contract;
+    const current = { encryptedAmount: legacyAsset.amount, assetType: "DAI", decimals: 18, timestamp: 1, owner };
+    await adapter.setData("asset_old", json(legacyAsset));
+    await adapter.setData("asset_new", encodeRecord(assetCodec, current));
+    await adapter.setData("asset_bad", json({ assetType: "BTC" }));
+    await adapter.setData(ASSET_KEYS, json(["old", "new", "bad", "missing"]));
+
+    const dryRun = await migrateCollection(adapter, ASSET_RECORDS, { dryRun: true });
+    expect(dryRun.map((r) => r.status)).to.deep.equal(["migrated", "current", "invalid"]);
+    expect(JSON.parse(ethers.toUtf8String(await adapter.getData("asset_old"))).schemaVersion).to.equal(undefined);
+
+    const results = await migrateCollection(adapter, ASSET_RECORDS);
+    expect(results[0]).to.deep.equal({ key: "asset_old", fromVersion: 1, toVersion: 3, status: "migrated" });
+    const stored = JSON.parse(ethers.toUtf8String(await adapter.getData("asset_old")));
+    expect(stored).to.deep.equal({
+      schemaVersion: 3,
+      encryptedAmount: legacyAsset.amount,
+      inputProof: "0x01",
+      assetType: "ETH",
+      decimals: 0,
+      timestamp: 1_700_000_000,
+      owner,
+    });
+
+    expect((await migrateCollection(adapter, ASSET_RECORDS)).map((r) => r.status)).to.deep.equal(["current", "current", "invalid"]);
+  });
+});
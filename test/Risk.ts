@@ -0,0 +1,95 @@
+import { expect } from "chai";
+
+import {
+  PriceHistory,
+  analyzeRisk,
+  correlationMatrix,
+  expectedShortfall,
+  historicalVaR,
+  normalQuantile,
+  parametricVaR,
+  parsePriceHistoryCsv,
+  portfolioPnlSeries,
+  stressTest,
+} from "../frontend/web/src/risk";
+
+describe("Risk analytics", function () {
+  const history: PriceHistory = {
+    dates: ["d0", "d1", "d2", "d3", "d4"],
+    prices: {
+      ETH: [100, 110, 99, 108.9, 98.01],
+      USDC: [1, 1, 1, 1, 1],
+    },
+  };
+
+  it("approximates the normal quantile", function () {
+    expect(normalQuantile(0.05)).to.be.closeTo(-1.644854, 1e-6);
+    expect(normalQuantile(0.99)).to.be.closeTo(2.326348, 1e-6);
+    expect(normalQuantile(0.5)).to.be.closeTo(0, 1e-12);
+  });
+
+  it("replays today's exposure over historical returns, net of hedges", function () {
+    const positions = [{ symbol: "ETH", valueUsd: 1000, hedgedFraction: 0.5 }];
+
+    const unhedged = portfolioPnlSeries(positions, history, false);
+    const hedged = portfolioPnlSeries(positions, history, true);
+
+    expect(unhedged.map((v) => Math.round(v))).to.deep.equal([100, -100, 100, -100]);
+    expect(hedged.map((v) => Math.round(v))).to.deep.equal([50, -50, 50, -50]);
+  });
+
+  it("reports VaR and expected shortfall as positive losses", function () {
+    const pnl = [-50, -20, -10, 0, 5, 10, 15, 20, 25, 30];
+
+    expect(historicalVaR(pnl, 0.9)).to.equal(20);
+    expect(expectedShortfall(pnl, 0.9)).to.equal(35);
+    expect(historicalVaR([5, 10], 0.95)).to.equal(0);
+    expect(parametricVaR([-10, 10, -10, 10], 0.95)).to.be.closeTo(1.644854 * Math.sqrt(400 / 3), 1e-4);
+  });
+
+  it("correlates return series", function () {
+    const matrix = correlationMatrix(
+      { dates: ["a", "b", "c", "d"], prices: { A: [1, 2, 1, 2], B: [2, 4, 2, 4], C: [2, 1, 2, 1] } },
+      ["A", "B", "C"],
+    );
+
+    expect(matrix.values[0][1]).to.be.closeTo(1, 1e-9);
+    expect(matrix.values[0][2]).to.be.closeTo(-1, 1e-9);
+  });
+
+  it("applies stress scenarios with and without hedges", function () {
+    const result = stressTest(
+      [
+        { symbol: "ETH", valueUsd: 10_000, hedgedFraction: 0.8 },
+        { symbol: "USDC", valueUsd: 5000, hedgedFraction: 0 },
+      ],
+      { name: "ETH -40%, stables depeg 5%", shocks: { ETH: -0.4, USDC: -0.05 } },
+    );
+
+    expect(result.unhedgedPnl).to.be.closeTo(-4250, 1e-9);
+    expect(result.hedgedPnl).to.be.closeTo(-1050, 1e-9);
+  });
+
+  it("excludes symbols without price history from the report", function () {
+    const report = analyzeRisk(
+      [
+        { symbol: "ETH", valueUsd: 1000, hedgedFraction: 0 },
+        { symbol: "UNI", valueUsd: 500, hedgedFraction: 0 },
+      ],
+      history,
+    );
+
+    expect(report.missingHistory).to.deep.equal(["UNI"]);
+    expect(report.correlation.symbols).to.deep.equal(["ETH"]);
+    expect(report.observations).to.equal(4);
+    expect(report.unhedged.historicalVaR).to.be.closeTo(100, 1e-9);
+  });
+
+  it("parses a CSV price history and rejects malformed rows", function () {
+    const parsed = parsePriceHistoryCsv("date,ETH,USDC\n2025-01-01,3000,1\n2025-01-02,3100,0.999\n");
+
+    expect(parsed).to.deep.equal({ dates: ["2025-01-01", "2025-01-02"], prices: { ETH: [3000, 3100], USDC: [1, 0.999] } });
+    expect(() => parsePriceHistoryCsv("date,ETH\n2025-01-01,abc")).to.throw("Invalid ETH price");
+    expect(() => parsePriceHistoryCsv("date,ETH\n2025-01-01,1,2")).to.throw("columns");
+  });
+});
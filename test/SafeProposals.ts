@@ -0,0 +1,160 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import {
+  SafeProposal,
+  createSafeProposal,
+  executeSafeProposal,
+  exportSafeProposal,
+  getSafe,
+  importSafeProposal,
+  signSafeProposal,
+} from "../frontend/web/src/safe";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  safeOwners: HardhatEthersSigner[];
+  outsider: HardhatEthersSigner;
+};
+
+const THRESHOLD = 2;
+
+async function deploySafe(owners: string[], threshold: number): Promise<string> {
+  const singleton = await (await ethers.getContractFactory("Safe")).deploy();
+  const proxyFactory = (await (await ethers.getContractFactory("SafeProxyFactory")).deploy()) as unknown as Contract;
+  const initializer = singleton.interface.encodeFunctionData("setup", [
+    owners,
+    threshold,
+    ethers.ZeroAddress,
+    "0x",
+    ethers.ZeroAddress,
+    ethers.ZeroAddress,
+    0,
+    ethers.ZeroAddress,
+  ]);
+
+  const tx = await proxyFactory.createProxyWithNonce(await singleton.getAddress(), initializer, 0);
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    const parsed = proxyFactory.interface.parseLog(log);
+    if (parsed?.name === "ProxyCreation") return parsed.args.proxy;
+  }
+  throw new Error("ProxyCreation event not found");
+}
+
+describe("Safe proposal mode", function () {
+  let signers: Signers;
+  let treasury: Contract;
+  let treasuryAddress: string;
+  let safeAddress: string;
+  let chainId: bigint;
+
+  const propose = async (data: string, description: string): Promise<SafeProposal> => {
+    const safe = getSafe(safeAddress, ethers.provider);
+    return createSafeProposal(safe, chainId, treasuryAddress, data, description);
+  };
+
+  const signBy = async (proposal: SafeProposal, owners: HardhatEthersSigner[]) => {
+    for (const owner of owners) proposal = await signSafeProposal(proposal, owner);
+    return proposal;
+  };
+
+  const execute = (proposal: SafeProposal, sender: HardhatEthersSigner = signers.safeOwners[0]) =>
+    executeSafeProposal(getSafe(safeAddress, sender), proposal);
+
+  before(async function () {
+    const [deployer, ownerA, ownerB, ownerC, outsider] = await ethers.getSigners();
+    signers = { deployer, safeOwners: [ownerA, ownerB, ownerC], outsider };
+    chainId = (await ethers.provider.getNetwork()).chainId;
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in the FHEVM mock environment");
+      this.skip();
+    }
+
+    safeAddress = await deploySafe(
+      signers.safeOwners.map((s) => s.address),
+      THRESHOLD,
+    );
+    treasury = (await (await ethers.getContractFactory("DAO_Treasury_Hedge_FHE")).deploy()) as unknown as Contract;
+    treasuryAddress = await treasury.getAddress();
+    await treasury.setCooldownSeconds(0);
+    await treasury.transferOwnership(safeAddress);
+  });
+
+  it("executes addProvider once the threshold has signed", async function () {
+    const provider = signers.outsider.address;
+    let proposal = await propose(treasury.interface.encodeFunctionData("addProvider", [provider]), "Add provider");
+    proposal = await signBy(proposal, signers.safeOwners.slice(0, THRESHOLD));
+
+    await execute(proposal);
+
+    expect(await treasury.isProvider(provider)).to.equal(true);
+  });
+
+  it("closes and opens batches through the Safe", async function () {
+    for (const method of ["closeCurrentBatch", "openNewBatch"]) {
+      const proposal = await signBy(
+        await propose(treasury.interface.encodeFunctionData(method), method),
+        signers.safeOwners.slice(1),
+      );
+      await execute(proposal);
+    }
+
+    expect(await treasury.isBatchClosed(1)).to.equal(true);
+    expect(await treasury.currentBatchId()).to.equal(2n);
+  });
+
+  it("refuses to execute below the threshold", async function () {
+    const proposal = await signBy(
+      await propose(treasury.interface.encodeFunctionData("openNewBatch"), "Open batch"),
+      signers.safeOwners.slice(0, 1),
+    );
+
+    await expect(execute(proposal)).to.be.rejectedWith(`1 of ${THRESHOLD} required signatures`);
+    expect(await treasury.currentBatchId()).to.equal(1n);
+  });
+
+  it("rejects signatures from accounts that are not Safe owners", async function () {
+    const proposal = await signBy(
+      await propose(treasury.interface.encodeFunctionData("openNewBatch"), "Open batch"),
+      [signers.safeOwners[0], signers.outsider],
+    );
+
+    await expect(execute(proposal)).to.be.rejected;
+    expect(await treasury.currentBatchId()).to.equal(1n);
+  });
+
+  it("round-trips signatures collected on separate exports", async function () {
+    const proposal = await propose(treasury.interface.encodeFunctionData("openNewBatch"), "Open batch");
+    const first = importSafeProposal(exportSafeProposal(await signSafeProposal(proposal, signers.safeOwners[0])));
+    const second = importSafeProposal(exportSafeProposal(await signSafeProposal(proposal, signers.safeOwners[2])));
+
+    const merged = importSafeProposal(
+      exportSafeProposal({ ...first, signatures: [...first.signatures, ...second.signatures] }),
+    );
+    expect(merged.signatures).to.have.length(2);
+
+    await execute(merged, signers.outsider);
+    expect(await treasury.currentBatchId()).to.equal(2n);
+  });
+
+  it("rejects an export whose transaction was altered after signing", async function () {
+    const signed = await signSafeProposal(
+      await propose(treasury.interface.encodeFunctionData("addProvider", [signers.outsider.address]), "Add provider"),
+      signers.safeOwners[0],
+    );
+    const tampered = JSON.parse(exportSafeProposal(signed));
+    tampered.transaction.data = treasury.interface.encodeFunctionData("addProvider", [signers.deployer.address]);
+
+    expect(() => importSafeProposal(JSON.stringify(tampered))).to.throw("does not match its transaction");
+  });
+
+  it("blocks the previous owner EOA from calling owner-only functions", async function () {
+    await expect(treasury.openNewBatch()).to.be.revertedWithCustomError(treasury, "NotOwner");
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import { ethers } from "hardhat";
+
+import tokenListJson from "../frontend/web/src/token-list.json";
+import {
+  NATIVE_TOKEN_ADDRESS,
+  TokenListFile,
+  TokenMetadataError,
+  TokenRegistry,
+  createTokenRegistry,
+  tokensForChain,
+} from "../frontend/web/src/tokens";
+
+describe("Token registry", function () {
+  const list = (tokens: TokenListFile["tokens"]): TokenListFile => ({ name: "Test list", tokens });
+
+  const deployToken = async (name: string, symbol: string, decimals: number) =>
+    (await (await ethers.getContractFactory("MockERC20")).deploy(name, symbol, decimals)) as unknown as Contract;
+
+  it("validates the bundled token list for every configured chain", function () {
+    for (const chainId of [1, 11155111, 31337]) {
+      const tokens = tokensForChain(tokenListJson, chainId);
+      expect(tokens.length, `chain ${chainId}`).to.be.greaterThan(0);
+      expect(tokens.map((token) => token.address.toLowerCase())).to.have.lengthOf(new Set(tokens.map((token) => token.address.toLowerCase())).size);
+    }
+    const mainnet = createTokenRegistry(1);
+    expect(mainnet.get(NATIVE_TOKEN_ADDRESS.toLowerCase())).to.include({ symbol: "ETH", decimals: 18, category: "native" });
+    expect(mainnet.bySymbol("USDC")).to.include({ address: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48", decimals: 6, category: "stablecoin" });
+    expect(mainnet.bySymbol("WBTC")?.decimals).to.equal(8);
+  });
+
+  it("rejects malformed list entries", function () {
+    const entry = { chainId: 1, address: "0x6B175474E89094C44Da98b954EedeAC495271d0F", symbol: "DAI", decimals: 18 };
+    expect(tokensForChain(list([entry]), 1)[0]).to.include({ category: "other", source: "list" });
+    expect(() => tokensForChain(list([{ ...entry, address: "0x6b175474e89094c44da98b954eedeac495271D0F" }]), 1)).to.throw(TokenMetadataError, "invalid address");
+    expect(() => tokensForChain(list([{ ...entry, decimals: 77 }]), 1)).to.throw(TokenMetadataError, "decimals");
+    expect(() => tokensForChain(list([{ ...entry, category: "meme" }]), 1)).to.throw(TokenMetadataError, "category");
+  });
+
+  it("reads symbol and decimals from tokens the list does not know, once", async function () {
+    const token = await deployToken("Wrapped Staked Ether", "wstETH", 18);
+    const usdt = await deployToken("Tether USD", "USDT", 6);
+    let providerCalls = 0;
+    const registry = new TokenRegistry(31337, [], async () => {
+      providerCalls++;
+      return ethers.provider;
+    });
+
+    const address = await token.getAddress();
+    const [resolved, again] = await Promise.all([registry.resolve(address.toLowerCase()), registry.resolve(address)]);
+    expect(resolved).to.deep.equal({
+      chainId: 31337,
+      address,
+      symbol: "wstETH",
+      name: "Wrapped Staked Ether",
+      decimals: 18,
+      category: "other",
+      source: "chain",
+    });
+    expect(again).to.equal(resolved);
+    expect(await registry.resolve(address)).to.equal(resolved);
+    expect(providerCalls).to.equal(1);
+
+    const all = await registry.resolveAll([await usdt.getAddress(), address]);
+    expect(all[(await usdt.getAddress()).toLowerCase()]).to.include({ symbol: "USDT", decimals: 6 });
+    expect(registry.list().map((entry) => entry.symbol)).to.deep.equal(["wstETH", "USDT"]);
+  });
+
+  it("decodes bytes32 metadata and refuses addresses that are not tokens", async function () {
+    const registry = new TokenRegistry(31337, [], async () => ethers.provider);
+    const mkr = await (await (await ethers.getContractFactory("MockBytes32Token")).deploy()).getAddress();
+    expect(await registry.resolve(mkr)).to.include({ symbol: "MKR", name: "Maker", decimals: 18 });
+
+    const [account] = await ethers.getSigners();
+    await expect(registry.resolve(account.address)).to.be.rejectedWith(TokenMetadataError, "No contract");
+    const multicall = await (await (await ethers.getContractFactory("MockMulticall3")).deploy()).getAddress();
+    await expect(registry.resolve(multicall)).to.be.rejectedWith(TokenMetadataError, "symbol()");
+    await expect(registry.resolve(NATIVE_TOKEN_ADDRESS)).to.be.rejectedWith(TokenMetadataError, "native currency");
+    expect(await registry.resolveAll([account.address, mkr])).to.have.keys([mkr.toLowerCase()]);
+  });
+});
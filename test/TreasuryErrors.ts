@@ -0,0 +1,67 @@
+import { expect } from "chai";
+import { Contract } from "ethers";
+import hre, { ethers, fhevm } from "hardhat";
+
+import { BatchClosedError, CooldownActiveError, TreasuryError, toTreasuryError } from "../frontend/web/src/treasury-errors";
+import { encryptAmount } from "../tasks/encrypted-input";
+
+const ASSET = "0x00000000000000000000000000000000000000e1";
+
+describe("Treasury error mapping", function () {
+  let treasury: Contract;
+
+  const rejection = async (call: Promise<unknown>): Promise<unknown> => {
+    try {
+      await call;
+    } catch (e) {
+      return e;
+    }
+    throw new Error("Expected the call to revert");
+  };
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite can only run in the FHEVM mock environment");
+      this.skip();
+    }
+    const [, provider] = await ethers.getSigners();
+    treasury = (await (await ethers.getContractFactory("DAO_Treasury_Hedge_FHE")).deploy()) as unknown as Contract;
+    await treasury.addProvider(provider.address);
+  });
+
+  it("maps a submission inside the cooldown to CooldownActiveError", async function () {
+    const [, provider] = await ethers.getSigners();
+    const treasuryAddress = await treasury.getAddress();
+    const asProvider = treasury.connect(provider) as Contract;
+    const first = await encryptAmount(hre, treasuryAddress, provider.address, 100);
+    await asProvider.submitEncryptedAssetAmount(1, ASSET, first.handle, first.inputProof);
+
+    // The default 60 second cooldown is still running
+    const second = await encryptAmount(hre, treasuryAddress, provider.address, 200);
+    const error = await rejection(asProvider.submitEncryptedAssetAmount.staticCall(1, ASSET, second.handle, second.inputProof));
+    const mapped = toTreasuryError(error);
+
+    expect(mapped).to.be.instanceOf(CooldownActiveError);
+    expect(mapped).to.include({ errorName: "CooldownActive", message: "Cooldown is still active, try again later", cause: error });
+  });
+
+  it("maps closing a closed batch to BatchClosedError", async function () {
+    await treasury.closeCurrentBatch();
+
+    const mapped = toTreasuryError(await rejection(treasury.closeCurrentBatch.staticCall()));
+
+    expect(mapped).to.be.instanceOf(BatchClosedError);
+    expect((mapped as TreasuryError).errorName).to.equal("BatchAlreadyClosed");
+  });
+
+  it("finds revert data nested in wallet errors and passes other errors through", function () {
+    const data = treasury.interface.encodeErrorResult("CooldownActive");
+
+    expect(toTreasuryError({ info: { error: { data } } })).to.be.instanceOf(CooldownActiveError);
+    expect(toTreasuryError({ error: { data } })).to.be.instanceOf(CooldownActiveError);
+    const rejected = new Error("User rejected the request");
+    expect(toTreasuryError(rejected)).to.equal(rejected);
+    // Revert data of an error the treasury does not declare
+    expect(toTreasuryError({ data: "0xdeadbeef" })).to.deep.equal({ data: "0xdeadbeef" });
+  });
+});